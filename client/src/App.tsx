@@ -14,6 +14,10 @@ import PurchaseOrders from "@/pages/purchase-orders";
 import CreatePurchaseOrder from "@/pages/create-purchase-order";
 import CheckoutOrder from "@/pages/checkout-order";
 import SupplyLocations from "@/pages/supply-locations";
+import Vendors from "@/pages/vendors";
+import InventoryCounts from "@/pages/inventory-counts";
+import OperatorReports from "@/pages/operator-reports";
+import RecutReports from "@/pages/recut-reports";
 import { useAuth } from "@/lib/auth";
 import { useQuery } from "@tanstack/react-query";
 
@@ -50,6 +54,10 @@ function Router() {
       <Route path="/create-purchase-order" component={CreatePurchaseOrder} />
       <Route path="/checkout-order" component={CheckoutOrder} />
       <Route path="/supply-locations" component={SupplyLocations} />
+      <Route path="/vendors" component={Vendors} />
+      <Route path="/inventory-counts" component={InventoryCounts} />
+      <Route path="/reports/operators" component={OperatorReports} />
+      <Route path="/reports/recuts" component={RecutReports} />
       <Route component={NotFound} />
     </Switch>
   );
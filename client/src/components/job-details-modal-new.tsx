@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from "react";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
-import { Plus, X, Trash2, ArrowRight, RotateCcw, Calendar, User, Palette, Maximize2 } from "lucide-react";
+import { Plus, X, Trash2, ArrowRight, RotateCcw, Calendar, User, Palette, Maximize2, QrCode, History, Undo2 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -11,7 +11,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useWebSocket } from "@/hooks/use-websocket";
 import { TextureSwatch } from "@/components/ui/texture-swatch";
-import type { JobWithMaterials, ColorWithGroup } from "@shared/schema";
+import type { JobWithMaterials, SupplyWithLocation, SheetActivityEntry, RecutReasonWithUsage } from "@shared/schema";
 
 interface JobDetailsModalProps {
   job: JobWithMaterials | null;
@@ -168,6 +168,11 @@ function RecutHistorySection({ materialId }: RecutHistorySectionProps) {
                   <span className="text-sm font-medium text-orange-800">
                     Recut #{entryIndex + 1} - {entry.quantity} sheets
                   </span>
+                  {entry.reasonName && (
+                    <span className="text-xs font-medium text-orange-700 bg-orange-100 px-2 py-1 rounded">
+                      {entry.reasonName}
+                    </span>
+                  )}
                   {entry.reason && (
                     <span className="text-xs text-orange-600 bg-orange-100 px-2 py-1 rounded">
                       {entry.reason}
@@ -252,6 +257,110 @@ function RecutHistorySection({ materialId }: RecutHistorySectionProps) {
   );
 }
 
+interface SheetActivitySectionProps {
+  jobId: number;
+  onReverted: (entry: SheetActivityEntry) => void;
+}
+
+const SHEET_STATUS_STYLES: Record<string, string> = {
+  cut: 'bg-green-100 text-green-700',
+  skip: 'bg-red-100 text-red-700',
+  pending: 'bg-gray-100 text-gray-700',
+};
+
+// Entries shown before "Show all" is clicked
+const ACTIVITY_PREVIEW_COUNT = 10;
+
+function SheetActivitySection({ jobId, onReverted }: SheetActivitySectionProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [showAll, setShowAll] = useState(false);
+
+  const { data: entries = [], isLoading } = useQuery<SheetActivityEntry[]>({
+    queryKey: [`/api/jobs/${jobId}/sheet-activity`],
+    staleTime: 0,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: (entry: SheetActivityEntry) => apiRequest('POST', `/api/sheet-activity/${entry.id}/revert`),
+    onSuccess: (_, entry) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/sheet-activity`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/materials/${entry.materialId}/recuts`] });
+      onReverted(entry);
+      toast({ title: "Success", description: `Sheet ${entry.sheetIndex + 1} set back to ${entry.previousStatus}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const visibleEntries = showAll ? entries : entries.slice(0, ACTIVITY_PREVIEW_COUNT);
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Sheet Activity
+        </h3>
+        {entries.length > ACTIVITY_PREVIEW_COUNT && (
+          <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+            {showAll ? 'Show recent' : `Show all ${entries.length}`}
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="text-sm text-gray-500">Loading sheet activity...</div>
+      ) : entries.length === 0 ? (
+        <div className="text-sm text-gray-500">No sheets have been cut or skipped yet</div>
+      ) : (
+        <div className="space-y-1">
+          {visibleEntries.map(entry => (
+            <div key={entry.id} className="flex items-center gap-3 bg-white px-3 py-2 rounded border text-sm">
+              <span className="text-gray-500 whitespace-nowrap">{new Date(entry.cutAt).toLocaleString()}</span>
+              <span className="font-medium whitespace-nowrap">{entry.username || 'Unknown'}</span>
+              <span className="flex-1 truncate">
+                {entry.supplyName || 'Material'} - Sheet {entry.sheetIndex + 1}
+              </span>
+              {entry.isRecut && (
+                <span className="text-xs text-orange-700 bg-orange-100 px-2 py-0.5 rounded">Recut</span>
+              )}
+              <span className="flex items-center gap-1 whitespace-nowrap">
+                <span className={`text-xs px-2 py-0.5 rounded ${SHEET_STATUS_STYLES[entry.previousStatus] || SHEET_STATUS_STYLES.pending}`}>
+                  {entry.previousStatus}
+                </span>
+                <ArrowRight className="w-3 h-3 text-gray-400" />
+                <span className={`text-xs px-2 py-0.5 rounded ${SHEET_STATUS_STYLES[entry.status] || SHEET_STATUS_STYLES.pending}`}>
+                  {entry.status}
+                </span>
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  if (confirm(`Set sheet ${entry.sheetIndex + 1} back to ${entry.previousStatus}?`)) {
+                    revertMutation.mutate(entry);
+                  }
+                }}
+                disabled={!entry.isLatest || revertMutation.isPending}
+                className="h-7 px-2"
+                title={entry.isLatest ? 'Revert this change' : 'Only the latest change to a sheet can be reverted'}
+              >
+                <Undo2 className="w-3 h-3 mr-1" />
+                Revert
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode = false, onOpenPopup }: JobDetailsModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -285,8 +394,9 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
       }
       
       if (type === 'sheet_status_updated' || type === 'recut_sheet_status_updated') {
-        // Refresh job data and recut entries
+        // Refresh job data, sheet activity and recut entries
         queryClient.invalidateQueries({ queryKey: [`/api/jobs/${job.id}`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/jobs/${job.id}/sheet-activity`] });
         queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
         
         // Refresh recut data for affected materials
@@ -310,18 +420,24 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
 
   useWebSocket('/ws', handleWebSocketMessage);
   
-  // Fetch colors for adding materials
-  const { data: colors = [] } = useQuery<ColorWithGroup[]>({
-    queryKey: ['/api/colors'],
+  // Only active reasons can be chosen for new recuts
+  const { data: recutReasons = [] } = useQuery<RecutReasonWithUsage[]>({
+    queryKey: ['/api/recut-reasons'],
+  });
+  const activeRecutReasons = recutReasons.filter(reason => reason.isActive);
+
+  // Fetch supplies for adding materials
+  const { data: supplies = [] } = useQuery<SupplyWithLocation[]>({
+    queryKey: ['/api/supplies'],
   });
 
-  // Group colors by group for the add material dialog
-  const groupedColors = colors.reduce((acc, color) => {
-    const groupName = color.group?.name || "Ungrouped";
+  // Group supplies by location for the add material dialog
+  const groupedSupplies = supplies.reduce((acc, supply) => {
+    const groupName = supply.location?.name || "Ungrouped";
     if (!acc[groupName]) acc[groupName] = [];
-    acc[groupName].push(color);
+    acc[groupName].push(supply);
     return acc;
-  }, {} as Record<string, ColorWithGroup[]>);
+  }, {} as Record<string, SupplyWithLocation[]>);
   
   // State for adding new sheets
   const [newSheetsCount, setNewSheetsCount] = useState<string>("");
@@ -329,11 +445,12 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
   // State for recut entry
   const [recutDialog, setRecutDialog] = useState<{ open: boolean; materialId: number | null }>({ open: false, materialId: null });
   const [recutQuantity, setRecutQuantity] = useState<string>("1");
-  const [recutReason, setRecutReason] = useState<string>("");
+  const [recutReasonId, setRecutReasonId] = useState<string>("");
+  const [recutNote, setRecutNote] = useState<string>("");
 
-  // State for adding new materials (colors)
+  // State for adding new materials (supplies)
   const [addMaterialDialog, setAddMaterialDialog] = useState<boolean>(false);
-  const [newMaterialColorId, setNewMaterialColorId] = useState<string>("0");
+  const [newMaterialSupplyId, setNewMaterialSupplyId] = useState<string>("0");
   const [newMaterialSheets, setNewMaterialSheets] = useState<string>("1");
   
   // No optimistic updates - use server state only for reliability
@@ -540,29 +657,31 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
   });
 
   const addRecutMutation = useMutation({
-    mutationFn: ({ materialId, quantity, reason }: { materialId: number; quantity: number; reason?: string }) =>
-      apiRequest('POST', `/api/materials/${materialId}/recuts`, { quantity, reason }),
+    mutationFn: ({ materialId, quantity, reasonId, note }: { materialId: number; quantity: number; reasonId: number; note?: string }) =>
+      apiRequest('POST', `/api/materials/${materialId}/recuts`, { quantity, reasonId, note }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
       queryClient.invalidateQueries({ queryKey: [`/api/materials/${recutDialog.materialId}/recuts`] });
       setRecutDialog({ open: false, materialId: null });
       setRecutQuantity("1");
-      setRecutReason("");
+      setRecutReasonId("");
+      setRecutNote("");
       toast({ title: "Success", description: "Recut entry added successfully" });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to add recut entry" });
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to add recut entry", variant: "destructive" });
     }
   });
 
   const addMaterialMutation = useMutation({
-    mutationFn: ({ jobId, colorId, totalSheets }: { jobId: number; colorId: number; totalSheets: number }) =>
-      apiRequest('POST', `/api/jobs/${jobId}/materials`, { colorId, totalSheets }),
+    mutationFn: ({ jobId, supplyId, totalSheets }: { jobId: number; supplyId: number; totalSheets: number }) =>
+      apiRequest('POST', `/api/jobs/${jobId}/materials`, { supplyId, totalSheets }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies'] });
       setAddMaterialDialog(false);
-      setNewMaterialColorId("0");
+      setNewMaterialSupplyId("0");
       setNewMaterialSheets("1");
       toast({ title: "Success", description: "Material added to job successfully" });
     },
@@ -720,11 +839,16 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
       toast({ title: "Error", description: "Please enter a valid quantity" });
       return;
     }
+    if (!recutReasonId) {
+      toast({ title: "Error", description: "Please choose a reason for the recut" });
+      return;
+    }
     if (recutDialog.materialId) {
       addRecutMutation.mutate({ 
         materialId: recutDialog.materialId, 
         quantity, 
-        reason: recutReason.trim() || undefined 
+        reasonId: parseInt(recutReasonId),
+        note: recutNote.trim() || undefined 
       });
     }
   };
@@ -736,11 +860,11 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
   };
 
   const handleAddMaterial = () => {
-    const colorId = parseInt(newMaterialColorId);
+    const supplyId = parseInt(newMaterialSupplyId);
     const totalSheets = parseInt(newMaterialSheets);
     
-    if (!colorId || colorId === 0) {
-      toast({ title: "Error", description: "Please select a color" });
+    if (!supplyId || supplyId === 0) {
+      toast({ title: "Error", description: "Please select a material" });
       return;
     }
     
@@ -750,7 +874,7 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
     }
     
     if (job?.id) {
-      addMaterialMutation.mutate({ jobId: job.id, colorId, totalSheets });
+      addMaterialMutation.mutate({ jobId: job.id, supplyId, totalSheets });
     }
   };
 
@@ -767,6 +891,16 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
                 </Badge>
               )}
             </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.open(`/api/labels/jobs/${job.id}/sheets`, '_blank')}
+              className="flex items-center gap-2 ml-auto mr-2"
+              title="Print a barcode label for every sheet on this job"
+            >
+              <QrCode className="h-4 w-4" />
+              Sheet Labels
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -930,7 +1064,7 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
                           className="bg-purple-600 hover:bg-purple-700 text-white"
                         >
                           <Palette className="w-4 h-4 mr-1" />
-                          Add Different Color
+                          Add Different Material
                         </Button>
                       </div>
                       {cutlist.materials.map((material) => {
@@ -947,13 +1081,13 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
                             <div className="flex items-center justify-between mb-2">
                               <div className="flex items-center space-x-4">
                                 <TextureSwatch 
-                                  texture={material.color.texture} 
-                                  hexColor={material.color.hexColor}
-                                  name={material.color.name}
+                                  texture={material.supply.texture} 
+                                  hexColor={material.supply.hexColor}
+                                  name={material.supply.name}
                                   size="lg"
                                 />
                                 <div>
-                                  <div className="font-medium">{material.color.name}</div>
+                                  <div className="font-medium">{material.supply.name}</div>
                                   <div className="space-y-2">
                                     {/* Original Sheets Progress */}
                                     <div>
@@ -1011,7 +1145,7 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
                                 variant="destructive"
                                 size="sm"
                                 onClick={() => {
-                                  if (confirm(`Delete ${material.color.name} material? This will also delete all recut entries for this material.`)) {
+                                  if (confirm(`Delete ${material.supply.name} material? This will also delete all recut entries for this material.`)) {
                                     deleteMaterialMutation.mutate(material.id);
                                   }
                                 }}
@@ -1138,7 +1272,7 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
                           className="bg-purple-600 hover:bg-purple-700 text-white"
                         >
                           <Palette className="w-4 h-4 mr-1" />
-                          Add Material Color
+                          Add Material
                         </Button>
                       </div>
                     </div>
@@ -1151,6 +1285,23 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
               No cutlists found. Create your first cutlist above.
             </div>
           )}
+
+          {/* Sheet Activity */}
+          <SheetActivitySection
+            jobId={job.id}
+            onReverted={(entry) => {
+              // Keep the optimistic status in step with the reverted server state
+              if (!entry.isRecut) {
+                setOptimisticSheetStatuses(prev => ({
+                  ...prev,
+                  [entry.materialId]: {
+                    ...prev[entry.materialId],
+                    [entry.sheetIndex]: entry.previousStatus
+                  }
+                }));
+              }
+            }}
+          />
         </div>
       </DialogContent>
       
@@ -1173,11 +1324,24 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
               />
             </div>
             <div>
-              <label className="text-sm font-medium">Reason (Optional)</label>
+              <label className="text-sm font-medium">Reason</label>
+              <Select value={recutReasonId} onValueChange={setRecutReasonId}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Why does this need recutting?" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeRecutReasons.map(reason => (
+                    <SelectItem key={reason.id} value={reason.id.toString()}>{reason.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Note (Optional)</label>
               <Input
-                value={recutReason}
-                onChange={(e) => setRecutReason(e.target.value)}
-                placeholder="e.g., Damaged during cutting"
+                value={recutNote}
+                onChange={(e) => setRecutNote(e.target.value)}
+                placeholder="e.g., Chipped edge on the left side"
                 className="mt-1"
               />
             </div>
@@ -1190,7 +1354,7 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
               </Button>
               <Button 
                 onClick={handleConfirmRecut}
-                disabled={addRecutMutation.isPending}
+                disabled={addRecutMutation.isPending || !recutReasonId}
                 className="bg-orange-600 hover:bg-orange-700"
               >
                 <RotateCcw className="w-4 h-4 mr-1" />
@@ -1205,31 +1369,31 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
       <Dialog open={addMaterialDialog} onOpenChange={setAddMaterialDialog}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Add Different Color</DialogTitle>
+            <DialogTitle>Add Different Material</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
             <div>
-              <label className="text-sm font-medium">Material Color</label>
-              <Select value={newMaterialColorId} onValueChange={setNewMaterialColorId}>
+              <label className="text-sm font-medium">Material</label>
+              <Select value={newMaterialSupplyId} onValueChange={setNewMaterialSupplyId}>
                 <SelectTrigger className="mt-1">
-                  <SelectValue placeholder="Select Color" />
+                  <SelectValue placeholder="Select Material" />
                 </SelectTrigger>
                 <SelectContent>
-                  {Object.entries(groupedColors).map(([groupName, groupColors]) => (
+                  {Object.entries(groupedSupplies).map(([groupName, groupSupplies]) => (
                     <div key={groupName}>
                       <div className="px-2 py-1 text-xs font-medium text-gray-500 bg-gray-100">
                         {groupName}
                       </div>
-                      {groupColors.map((color) => (
-                        <SelectItem key={color.id} value={color.id.toString()}>
+                      {groupSupplies.map((supply) => (
+                        <SelectItem key={supply.id} value={supply.id.toString()}>
                           <div className="flex items-center space-x-2">
                             <TextureSwatch 
-                              texture={color.texture} 
-                              hexColor={color.hexColor}
-                              name={color.name}
+                              texture={supply.texture} 
+                              hexColor={supply.hexColor}
+                              name={supply.name}
                               size="md"
                             />
-                            <span>{color.name}</span>
+                            <span>{supply.name}</span>
                           </div>
                         </SelectItem>
                       ))}
@@ -1258,7 +1422,7 @@ export default function JobDetailsModal({ job, open, onOpenChange, viewOnlyMode
               </Button>
               <Button 
                 onClick={handleAddMaterial}
-                disabled={addMaterialMutation.isPending || newMaterialColorId === "0"}
+                disabled={addMaterialMutation.isPending || newMaterialSupplyId === "0"}
                 className="bg-purple-600 hover:bg-purple-700"
               >
                 <Palette className="w-4 h-4 mr-1" />
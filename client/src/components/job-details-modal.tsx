@@ -475,10 +475,10 @@ export default function JobDetailsModal({ job, open, onOpenChange }: JobDetailsM
                 <div className="flex items-center space-x-3">
                   <div 
                     className="w-8 h-8 rounded border"
-                    style={{ backgroundColor: material.color.hexColor }}
+                    style={{ backgroundColor: material.supply.hexColor }}
                   />
                   <div>
-                    <h4 className="font-medium text-gray-900">{material.color.name}</h4>
+                    <h4 className="font-medium text-gray-900">{material.supply.name}</h4>
                     <p className="text-sm text-gray-500">
                       {material.totalSheets} sheets total
                       {material.recutSheets > 0 && (
@@ -0,0 +1,287 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Upload, AlertTriangle } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ImportJob, JobImportPreview, SupplyWithLocation } from "@shared/schema";
+
+interface JobImportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function JobImportModal({ open, onOpenChange }: JobImportModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [preview, setPreview] = useState<JobImportPreview | null>(null);
+  const [customerName, setCustomerName] = useState("");
+  const [jobName, setJobName] = useState("");
+  // Manual material choices for names the server could not match, keyed by CSV material name
+  const [materialOverrides, setMaterialOverrides] = useState<Record<string, number>>({});
+
+  const { data: supplies = [] } = useQuery<SupplyWithLocation[]>({
+    queryKey: ['/api/supplies'],
+  });
+
+  const resetImport = () => {
+    setPreview(null);
+    setCustomerName("");
+    setJobName("");
+    setMaterialOverrides({});
+  };
+
+  useEffect(() => {
+    if (!open) resetImport();
+  }, [open]);
+
+  const previewMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await fetch("/api/jobs/import/preview", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || "Failed to read cutlist file");
+      }
+      return response.json() as Promise<JobImportPreview>;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setCustomerName(data.customerName);
+      setJobName(data.jobName);
+      setMaterialOverrides({});
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importJobMutation = useMutation({
+    mutationFn: (data: ImportJob) => apiRequest('POST', '/api/jobs/import', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies'] });
+      onOpenChange(false);
+      toast({
+        title: "Success",
+        description: "Job imported successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import job",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resolveSupplyId = (materialName: string, supplyId: number | null) =>
+    supplyId ?? materialOverrides[materialName] ?? null;
+
+  const unresolvedMaterials = preview?.unmatchedMaterials.filter(name => !materialOverrides[name]) || [];
+  const canImport = !!preview && preview.cutlists.length > 0 && unresolvedMaterials.length === 0 &&
+    customerName.trim() !== "" && jobName.trim() !== "";
+
+  const handleImport = () => {
+    if (!preview) return;
+
+    importJobMutation.mutate({
+      customerName: customerName.trim(),
+      jobName: jobName.trim(),
+      cutlists: preview.cutlists.map(cutlist => ({
+        name: cutlist.name,
+        materials: cutlist.materials.map(material => ({
+          supplyId: resolveSupplyId(material.materialName, material.supplyId)!,
+          totalSheets: material.totalSheets,
+        })),
+      })),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Cutlist CSV</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* File Selection */}
+          <div>
+            <Label htmlFor="cutlist-file">Optimizer export (.csv)</Label>
+            <div className="flex items-center space-x-3 mt-1">
+              <Input
+                id="cutlist-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) previewMutation.mutate(file);
+                  e.target.value = "";
+                }}
+                disabled={previewMutation.isPending}
+              />
+              {previewMutation.isPending && <span className="text-sm text-gray-500">Reading...</span>}
+            </div>
+          </div>
+
+          {preview && (
+            <>
+              {/* Job Information */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="import-customer">Customer Name</Label>
+                  <Input
+                    id="import-customer"
+                    placeholder="Enter customer name"
+                    value={customerName}
+                    onChange={(e) => setCustomerName(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="import-job">Job Name</Label>
+                  <Input
+                    id="import-job"
+                    placeholder="Enter job name"
+                    value={jobName}
+                    onChange={(e) => setJobName(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {/* Parse Problems */}
+              {preview.errors.length > 0 && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+                  <div className="flex items-center font-medium mb-1">
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                    Some lines were skipped
+                  </div>
+                  <ul className="list-disc pl-6 space-y-0.5">
+                    {preview.errors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {unresolvedMaterials.length > 0 && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+                  {unresolvedMaterials.length} material{unresolvedMaterials.length === 1 ? "" : "s"} did not match any
+                  material in inventory. Choose a material for each before importing.
+                </div>
+              )}
+
+              {/* Cutlists Preview */}
+              <div className="space-y-4">
+                {preview.cutlists.map((cutlist, cutlistIndex) => (
+                  <div key={cutlistIndex} className="border rounded-md">
+                    <div className="px-4 py-2 bg-gray-50 border-b text-sm font-medium text-gray-900">
+                      {cutlist.name}
+                    </div>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500 uppercase">
+                          <th className="px-4 py-2">CSV Material</th>
+                          <th className="px-4 py-2 w-20">Sheets</th>
+                          <th className="px-4 py-2">Matched Material</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {cutlist.materials.map((material) => {
+                          const supplyId = resolveSupplyId(material.materialName, material.supplyId);
+                          const supply = supplies.find(s => s.id === supplyId);
+
+                          return (
+                            <tr key={material.materialName}>
+                              <td className="px-4 py-2">
+                                <div>{material.materialName}</div>
+                                <div className="text-xs text-gray-400">Line {material.lines.join(", ")}</div>
+                              </td>
+                              <td className="px-4 py-2">{material.totalSheets}</td>
+                              <td className="px-4 py-2">
+                                {material.supplyId !== null ? (
+                                  <div className="flex items-center space-x-2">
+                                    <div
+                                      className="w-4 h-4 rounded border"
+                                      style={{ backgroundColor: supply?.hexColor }}
+                                    />
+                                    <span>{supply?.name || material.materialName}</span>
+                                  </div>
+                                ) : (
+                                  <div className="flex items-center space-x-2">
+                                    {!supplyId && (
+                                      <Badge variant="outline" className="text-xs bg-red-50 text-red-700 border-red-200">
+                                        Unmatched
+                                      </Badge>
+                                    )}
+                                    <Select
+                                      value={supplyId?.toString() || ""}
+                                      onValueChange={(value) => setMaterialOverrides(prev => ({
+                                        ...prev,
+                                        [material.materialName]: parseInt(value),
+                                      }))}
+                                    >
+                                      <SelectTrigger className="h-8">
+                                        <SelectValue placeholder="Select Material" />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {supplies.map((option) => (
+                                          <SelectItem key={option.id} value={option.id.toString()}>
+                                            {option.name}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {/* Form Actions */}
+          <div className="flex justify-end space-x-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleImport}
+              disabled={!canImport || importJobMutation.isPending}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {importJobMutation.isPending ? "Importing..." : "Create Job"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Plus, Trash2 } from "lucide-react";
+import { Plus, Trash2, AlertTriangle } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,7 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { createJobSchema, type CreateJob, type ColorWithGroup } from "@shared/schema";
+import { createJobSchema, type CreateJob, type SupplyWithLocation } from "@shared/schema";
 
 interface JobModalProps {
   open: boolean;
@@ -26,7 +26,7 @@ export default function JobModal({ open, onOpenChange }: JobModalProps) {
     defaultValues: {
       customerName: "",
       jobName: "",
-      materials: [{ colorId: 0, totalSheets: 1 }],
+      materials: [{ supplyId: 0, totalSheets: 1 }],
     },
   });
 
@@ -35,9 +35,10 @@ export default function JobModal({ open, onOpenChange }: JobModalProps) {
     name: "materials",
   });
 
-  // Fetch colors for the dropdown
-  const { data: colors = [] } = useQuery<ColorWithGroup[]>({
-    queryKey: ['/api/colors'],
+  // Fetch supplies for the dropdown and the stock warning
+  const { data: supplies = [] } = useQuery<SupplyWithLocation[]>({
+    queryKey: ['/api/supplies'],
+    enabled: open,
   });
 
   const createJobMutation = useMutation({
@@ -45,6 +46,7 @@ export default function JobModal({ open, onOpenChange }: JobModalProps) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies'] });
       onOpenChange(false);
       form.reset();
       toast({
@@ -72,13 +74,13 @@ export default function JobModal({ open, onOpenChange }: JobModalProps) {
   }, [onOpenChange]);
 
   const onSubmit = (data: CreateJob) => {
-    // Filter out invalid materials (colorId = 0)
-    const validMaterials = data.materials.filter(m => m.colorId > 0);
+    // Filter out invalid materials (supplyId = 0)
+    const validMaterials = data.materials.filter(m => m.supplyId > 0);
     
     if (validMaterials.length === 0) {
       toast({
         title: "Error",
-        description: "Please select at least one material color",
+        description: "Please select at least one material",
         variant: "destructive",
       });
       return;
@@ -91,7 +93,7 @@ export default function JobModal({ open, onOpenChange }: JobModalProps) {
   };
 
   const addMaterial = () => {
-    append({ colorId: 0, totalSheets: 1 });
+    append({ supplyId: 0, totalSheets: 1 });
   };
 
   const removeMaterial = (index: number) => {
@@ -100,13 +102,25 @@ export default function JobModal({ open, onOpenChange }: JobModalProps) {
     }
   };
 
-  // Group colors by group
-  const groupedColors = colors.reduce((acc, color) => {
-    const groupName = color.group?.name || "Ungrouped";
+  // Sheets requested per material across all rows, compared with what is not yet allocated
+  const watchedMaterials = form.watch("materials");
+  const requestedSheets = watchedMaterials.reduce((acc, material) => {
+    if (material.supplyId > 0) {
+      acc[material.supplyId] = (acc[material.supplyId] || 0) + (material.totalSheets || 0);
+    }
+    return acc;
+  }, {} as Record<number, number>);
+  const shortages = Object.entries(requestedSheets)
+    .map(([id, sheets]) => ({ supply: supplies.find(s => s.id === parseInt(id)), sheets }))
+    .filter(({ supply, sheets }) => supply && sheets > supply.available);
+
+  // Group supplies by location
+  const groupedSupplies = supplies.reduce((acc, supply) => {
+    const groupName = supply.location?.name || "Ungrouped";
     if (!acc[groupName]) acc[groupName] = [];
-    acc[groupName].push(color);
+    acc[groupName].push(supply);
     return acc;
-  }, {} as Record<string, ColorWithGroup[]>);
+  }, {} as Record<string, SupplyWithLocation[]>);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -156,42 +170,42 @@ export default function JobModal({ open, onOpenChange }: JobModalProps) {
                   <div key={field.id} className="flex items-end space-x-3 p-3 bg-gray-50 rounded-md">
                     <FormField
                       control={form.control}
-                      name={`materials.${index}.colorId`}
+                      name={`materials.${index}.supplyId`}
                       render={({ field }) => (
                         <FormItem className="flex-1">
-                          <FormLabel>Material Color</FormLabel>
+                          <FormLabel>Material</FormLabel>
                           <Select 
                             onValueChange={(value) => field.onChange(parseInt(value))} 
                             value={field.value?.toString() || ""}
                           >
                             <FormControl>
                               <SelectTrigger>
-                                <SelectValue placeholder="Select Color" />
+                                <SelectValue placeholder="Select Material" />
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              {Object.entries(groupedColors).map(([groupName, groupColors]) => (
+                              {Object.entries(groupedSupplies).map(([groupName, groupSupplies]) => (
                                 <div key={groupName}>
                                   <div className="px-2 py-1 text-xs font-medium text-gray-500 bg-gray-100">
                                     {groupName}
                                   </div>
-                                  {groupColors.map((color) => (
-                                    <SelectItem key={color.id} value={color.id.toString()}>
+                                  {groupSupplies.map((supply) => (
+                                    <SelectItem key={supply.id} value={supply.id.toString()}>
                                       <div className="flex items-center space-x-2">
                                         {/* Show texture image if available, otherwise fallback to color */}
-                                        {color.texture ? (
+                                        {supply.texture ? (
                                           <img
-                                            src={color.texture}
-                                            alt={color.name}
+                                            src={supply.texture}
+                                            alt={supply.name}
                                             className="w-6 h-6 rounded border object-cover"
                                           />
                                         ) : (
                                           <div 
                                             className="w-6 h-6 rounded border"
-                                            style={{ backgroundColor: color.hexColor }}
+                                            style={{ backgroundColor: supply.hexColor }}
                                           />
                                         )}
-                                        <span>{color.name}</span>
+                                        <span>{supply.name}</span>
                                       </div>
                                     </SelectItem>
                                   ))}
@@ -236,6 +250,23 @@ export default function JobModal({ open, onOpenChange }: JobModalProps) {
                   </div>
                 ))}
 
+                {shortages.length > 0 && (
+                  <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+                    <div className="flex items-center font-medium mb-1">
+                      <AlertTriangle className="h-4 w-4 mr-2" />
+                      Not enough stock available
+                    </div>
+                    <ul className="list-disc pl-6 space-y-0.5">
+                      {shortages.map(({ supply, sheets }) => (
+                        <li key={supply!.id}>
+                          {supply!.name}: {sheets} sheets requested, {supply!.available} available
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="mt-1 text-xs">The job can still be created, but the supply will be over-allocated until more stock arrives.</div>
+                  </div>
+                )}
+
                 <Button
                   type="button"
                   variant="outline"
@@ -1,9 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import React from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { X, Minimize2 } from "lucide-react";
+import { X, Minimize2, ScanLine, Undo2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { JobWithMaterials, JobMaterial, RecutEntry } from "@shared/schema";
@@ -13,6 +14,39 @@ interface JobPopupProps {
   onClose: () => void;
 }
 
+// Sheet labels read SHT-<materialId>-<sheet number>, numbered from 1 like the "Sheet N of M"
+// printed beside them; the prefix is optional so the code can also be typed by hand
+const SHEET_CODE = /^(?:SHT-)?(\d+)-(\d+)$/;
+
+// Scanners sometimes read the same label twice in quick succession
+const DUPLICATE_SCAN_WINDOW_MS = 3000;
+
+interface ScannedSheet {
+  materialId: number;
+  sheetIndex: number;
+  previousStatus: string;
+  description: string;
+}
+
+let audioContext: AudioContext | null = null;
+
+// Short high beep for a good scan, low buzz for a rejected one
+function playScanTone(ok: boolean) {
+  try {
+    if (!audioContext) audioContext = new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.type = ok ? 'sine' : 'square';
+    oscillator.frequency.value = ok ? 1200 : 220;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + (ok ? 0.12 : 0.4));
+  } catch (error) {
+    // No audio available; the scan panel colour still shows the result
+  }
+}
+
 export function JobPopup({ jobId, onClose }: JobPopupProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -32,6 +66,14 @@ export function JobPopup({ jobId, onClose }: JobPopupProps) {
   const [loadingRecutCutButtons, setLoadingRecutCutButtons] = useState<Record<string, Set<number>>>({});
   const [loadingRecutSkipButtons, setLoadingRecutSkipButtons] = useState<Record<string, Set<number>>>({});
 
+  // Scan-to-cut mode: a scanner (or the keyboard) enters sheet label codes into one input
+  const [scanMode, setScanMode] = useState(false);
+  const [scanCode, setScanCode] = useState("");
+  const [scanFeedback, setScanFeedback] = useState<{ ok: boolean; message: string } | null>(null);
+  const [lastScannedSheet, setLastScannedSheet] = useState<ScannedSheet | null>(null);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
   // NO optimistic updates in popup - use server state only for reliability
 
   // Update timer every second
@@ -245,6 +287,96 @@ export function JobPopup({ jobId, onClose }: JobPopupProps) {
     }
   });
 
+  const scanSheetMutation = useMutation({
+    mutationFn: ({ materialId, sheetIndex, status }: { materialId: number; sheetIndex: number; status: string }) =>
+      apiRequest('POST', `/api/materials/${materialId}/sheets/${sheetIndex}`, { status }),
+    onSuccess: (_, { materialId, sheetIndex, status }) => {
+      setOptimisticSheetStatuses(prev => ({
+        ...prev,
+        [materialId]: {
+          ...prev[materialId],
+          [sheetIndex]: status
+        }
+      }));
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}`] });
+    },
+  });
+
+  const findMaterial = (materialId: number) => {
+    for (const cutlist of job?.cutlists || []) {
+      const material = cutlist.materials?.find(m => m.id === materialId);
+      if (material) return material;
+    }
+    return null;
+  };
+
+  const reportScan = (ok: boolean, message: string) => {
+    playScanTone(ok);
+    setScanFeedback({ ok, message });
+    scanInputRef.current?.focus();
+  };
+
+  // Mark the scanned sheet cut, refusing codes from other jobs and sheets that are already cut
+  const handleScan = async (rawCode: string) => {
+    const code = rawCode.trim().toUpperCase();
+    setScanCode("");
+    if (!code) return;
+
+    const match = SHEET_CODE.exec(code);
+    if (!match) {
+      reportScan(false, `${code} is not a sheet label`);
+      return;
+    }
+    const materialId = parseInt(match[1]);
+    const sheetNumber = parseInt(match[2]);
+    const sheetIndex = sheetNumber - 1;
+
+    // Ignore a repeat read of the same label rather than answering it with an error buzz
+    const now = Date.now();
+    const sheetCode = `SHT-${materialId}-${sheetNumber}`;
+    if (lastScanRef.current?.code === sheetCode && now - lastScanRef.current.at < DUPLICATE_SCAN_WINDOW_MS) {
+      return;
+    }
+    lastScanRef.current = { code: sheetCode, at: now };
+
+    const material = findMaterial(materialId);
+    if (!material || sheetIndex < 0 || sheetIndex >= material.totalSheets) {
+      reportScan(false, `${sheetCode} is not a sheet of this job`);
+      return;
+    }
+
+    const description = `sheet ${sheetIndex + 1} of ${material.supply.name}`;
+    const optimisticStatus = optimisticSheetStatuses[materialId]?.[sheetIndex];
+    const currentStatus = optimisticStatus !== undefined ? optimisticStatus : (material.sheetStatuses || [])[sheetIndex] || 'pending';
+    if (currentStatus === 'cut') {
+      reportScan(false, `Already cut: ${description}`);
+      return;
+    }
+
+    try {
+      await scanSheetMutation.mutateAsync({ materialId, sheetIndex, status: 'cut' });
+      setLastScannedSheet({ materialId, sheetIndex, previousStatus: currentStatus, description });
+      reportScan(true, `Cut ${description}`);
+    } catch (error) {
+      reportScan(false, `Failed to cut ${description}`);
+    }
+  };
+
+  // Put the last scanned sheet back to the status it had before the scan
+  const undoLastScan = async () => {
+    if (!lastScannedSheet) return;
+    const { materialId, sheetIndex, previousStatus, description } = lastScannedSheet;
+
+    try {
+      await scanSheetMutation.mutateAsync({ materialId, sheetIndex, status: previousStatus });
+      setLastScannedSheet(null);
+      lastScanRef.current = null;
+      reportScan(true, `Undid cut of ${description}`);
+    } catch (error) {
+      reportScan(false, `Failed to undo cut of ${description}`);
+    }
+  };
+
   // Handle sheet cut - with toggle behavior
   const handleSheetCut = (materialId: number, sheetIndex: number) => {
     // Find material across all cutlists
@@ -386,6 +518,15 @@ export function JobPopup({ jobId, onClose }: JobPopupProps) {
           </span>
         </div>
         <div className="flex items-center space-x-1">
+          <Button
+            variant={scanMode ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setScanMode(!scanMode)}
+            className="h-6 w-6 p-0"
+            title="Scan to cut"
+          >
+            <ScanLine className="h-3 w-3" />
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -416,6 +557,46 @@ export function JobPopup({ jobId, onClose }: JobPopupProps) {
         </div>
       </div>
 
+      {!isMinimized && scanMode && (
+        <div className={`p-3 border-b space-y-2 transition-colors ${
+          scanFeedback ? (scanFeedback.ok ? 'bg-green-100' : 'bg-red-100') : 'bg-gray-50'
+        }`}>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleScan(scanCode);
+            }}
+            className="flex items-center space-x-2"
+          >
+            <Input
+              ref={scanInputRef}
+              value={scanCode}
+              onChange={(e) => setScanCode(e.target.value)}
+              placeholder="Scan or type a sheet label, e.g. SHT-12-1"
+              className="h-8 text-sm font-mono"
+              autoFocus
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={undoLastScan}
+              disabled={!lastScannedSheet || scanSheetMutation.isPending}
+              className="h-8"
+              title="Undo last scan"
+            >
+              <Undo2 className="h-3 w-3 mr-1" />
+              Undo
+            </Button>
+          </form>
+          {scanFeedback && (
+            <div className={`text-sm font-semibold ${scanFeedback.ok ? 'text-green-800' : 'text-red-800'}`}>
+              {scanFeedback.message}
+            </div>
+          )}
+        </div>
+      )}
+
       {!isMinimized && (
         <div className="p-3 space-y-3 max-h-96 overflow-y-auto">
           {/* Materials - Fixed order to prevent jumping */}
@@ -426,19 +607,19 @@ export function JobPopup({ jobId, onClose }: JobPopupProps) {
                 <div className="flex items-center justify-between bg-gray-50 p-2 rounded">
                   <div className="flex items-center space-x-2">
                     {/* Show texture image if available, otherwise fallback to color */}
-                    {(material as any).color?.texture ? (
+                    {(material as any).supply?.texture ? (
                       <img
-                        src={(material as any).color.texture}
-                        alt={(material as any).color?.name}
+                        src={(material as any).supply.texture}
+                        alt={material.supply?.name}
                         className="w-5 h-5 rounded border-2 border-gray-300 object-cover"
                       />
                     ) : (
                       <div
                         className="w-5 h-5 rounded border-2 border-gray-300"
-                        style={{ backgroundColor: (material as any).color?.hexColor || '#ccc' }}
+                        style={{ backgroundColor: (material as any).supply?.hexColor || '#ccc' }}
                       />
                     )}
-                    <h4 className="text-sm font-semibold text-gray-800">{(material as any).color?.name || 'Material'}</h4>
+                    <h4 className="text-sm font-semibold text-gray-800">{material.supply?.name || 'Material'}</h4>
                   </div>
                   <div className="text-xs">
                     <div className="text-blue-600 font-bold">
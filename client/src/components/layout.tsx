@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
-import { Clock, Menu, X, Settings, LogOut, Plus, Package, ChevronDown } from "lucide-react";
+import { Clock, Menu, X, Settings, LogOut, Plus, Package, ChevronDown, Upload, BarChart3 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
@@ -27,6 +27,7 @@ export default function Layout({ children, currentTime = new Date() }: LayoutPro
     avgJobTime: number;
     avgSheetTime: number;
     materialColors: number;
+    archivedJobs: number;
     jobsByStatus: { waiting: number; in_progress: number; paused: number; done: number };
   }>({
     queryKey: ['/api/dashboard/stats'],
@@ -93,6 +94,13 @@ export default function Layout({ children, currentTime = new Date() }: LayoutPro
       count: Number(stats?.jobsByStatus?.done || 0),
       badgeColor: 'bg-green-100 text-green-600',
     },
+    {
+      key: 'archived',
+      label: 'Trash',
+      color: 'bg-red-400',
+      count: Number(stats?.archivedJobs || 0),
+      badgeColor: 'bg-red-100 text-red-600',
+    },
   ];
 
   return (
@@ -117,6 +125,44 @@ export default function Layout({ children, currentTime = new Date() }: LayoutPro
                   </a>
                 </Link>
 
+                {(user?.role === 'admin' || user?.role === 'super_admin') && (
+                  <Link href="/admin">
+                    <a className={`font-medium pb-2 ${
+                      location === '/admin' 
+                        ? 'text-primary border-b-2 border-primary' 
+                        : 'text-gray-500 hover:text-gray-700'
+                    }`}>
+                      Admin
+                    </a>
+                  </Link>
+                )}
+
+                {(user?.role === 'admin' || user?.role === 'super_admin') && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" className={`font-medium pb-2 h-auto p-0 ${
+                        location.startsWith('/reports') 
+                          ? 'text-primary border-b-2 border-primary' 
+                          : 'text-gray-500 hover:text-gray-700'
+                      }`}>
+                        <BarChart3 className="h-4 w-4 mr-2" />
+                        <span>Reports</span>
+                        <ChevronDown className="h-4 w-4 ml-1" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="w-48">
+                      <DropdownMenuItem onClick={() => setLocation("/reports/operators")}>
+                        <BarChart3 className="h-4 w-4 mr-2" />
+                        Operators
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setLocation("/reports/recuts")}>
+                        <BarChart3 className="h-4 w-4 mr-2" />
+                        Recuts
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+
                 {user?.role === 'super_admin' && (
                   <Link href="/users">
                     <a className={`font-medium pb-2 ${
@@ -131,7 +177,7 @@ export default function Layout({ children, currentTime = new Date() }: LayoutPro
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button variant="ghost" className={`font-medium pb-2 h-auto p-0 ${
-                      location.startsWith('/supplies') || location.startsWith('/purchase-orders') || location.startsWith('/checkout-order') || location.startsWith('/supply-locations')
+                      location.startsWith('/supplies') || location.startsWith('/purchase-orders') || location.startsWith('/checkout-order') || location.startsWith('/supply-locations') || location.startsWith('/vendors') || location.startsWith('/inventory-counts')
                         ? 'text-primary border-b-2 border-primary' 
                         : 'text-gray-500 hover:text-gray-700'
                     }`}>
@@ -157,6 +203,14 @@ export default function Layout({ children, currentTime = new Date() }: LayoutPro
                       <Package className="h-4 w-4 mr-2" />
                       Supply Locations
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setLocation("/vendors")}>
+                      <Package className="h-4 w-4 mr-2" />
+                      Vendors
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setLocation("/inventory-counts")}>
+                      <Package className="h-4 w-4 mr-2" />
+                      Inventory Counts
+                    </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
               </nav>
@@ -213,6 +267,18 @@ export default function Layout({ children, currentTime = new Date() }: LayoutPro
                 <Plus className="h-4 w-4 mr-2" />
                 New Job
               </Button>
+              <Button 
+                variant="outline"
+                className="w-full mt-2"
+                onClick={() => {
+                  // This will be handled by the dashboard component
+                  const event = new CustomEvent('openJobImportModal');
+                  window.dispatchEvent(event);
+                }}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import Cutlist CSV
+              </Button>
             </div>
 
             {/* Job Status Filters */}
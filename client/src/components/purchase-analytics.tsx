@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { TrendingDown, TrendingUp } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { PurchaseAnalytics as PurchaseAnalyticsData } from "@shared/schema";
+import { formatCurrency } from "@/lib/utils";
+
+interface PurchaseAnalyticsProps {
+  fromDate?: string;
+  toDate?: string;
+}
+
+// One colour per vendor, reused in order
+const VENDOR_COLORS = ["#2563eb", "#16a34a", "#ea580c", "#9333ea", "#dc2626", "#0891b2", "#ca8a04", "#db2777"];
+
+export default function PurchaseAnalytics({ fromDate, toDate }: PurchaseAnalyticsProps) {
+  const [selectedSupplyId, setSelectedSupplyId] = useState("");
+
+  const params = new URLSearchParams();
+  if (fromDate) params.set("fromDate", fromDate);
+  if (toDate) params.set("toDate", toDate);
+
+  const { data, isLoading } = useQuery<PurchaseAnalyticsData>({
+    queryKey: [`/api/purchase-orders/analytics?${params}`],
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading analytics...</p>;
+  }
+
+  if (!data || data.prices.length === 0) {
+    return <p className="text-sm text-gray-500">No placed purchase orders in this period.</p>;
+  }
+
+  // Chart series are keyed by vendor so each vendor keeps its colour in both charts
+  const vendorNames = new Map<number, string>();
+  data.prices.forEach(entry => vendorNames.set(entry.vendorId, entry.vendorName));
+  data.monthlySpend.forEach(entry => vendorNames.set(entry.vendorId, entry.vendorName));
+  const vendorIds = Array.from(vendorNames.keys());
+  const chartConfig: ChartConfig = Object.fromEntries(vendorIds.map((vendorId, index) => [
+    `vendor${vendorId}`,
+    { label: vendorNames.get(vendorId), color: VENDOR_COLORS[index % VENDOR_COLORS.length] },
+  ]));
+
+  // One bar per month, stacked by vendor
+  const spendByMonth: Record<string, string | number>[] = [];
+  for (const entry of data.monthlySpend) {
+    let row = spendByMonth.find(r => r.month === entry.month);
+    if (!row) {
+      row = { month: entry.month };
+      spendByMonth.push(row);
+    }
+    row[`vendor${entry.vendorId}`] = entry.totalSpend / 100;
+  }
+
+  const supplies = Array.from(new Map(data.prices.map(entry => [entry.supplyId, entry.supplyName])).entries());
+  const supplyId = selectedSupplyId ? parseInt(selectedSupplyId) : supplies[0][0];
+  const supplyPrices = data.prices.filter(entry => entry.supplyId === supplyId);
+
+  const priceTimeline = supplyPrices
+    .flatMap(entry => entry.history.map(point => ({ ...point, vendorId: entry.vendorId })))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(point => ({
+      date: new Date(point.date).toLocaleDateString(),
+      [`vendor${point.vendorId}`]: point.pricePerUnit / 100,
+    }));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Spend per Month</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <BarChart data={spendByMonth}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} tickFormatter={(value) => `$${value}`} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {vendorIds.map(vendorId => (
+                <Bar key={vendorId} dataKey={`vendor${vendorId}`} stackId="spend" fill={`var(--color-vendor${vendorId})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">Price History</CardTitle>
+            <Select value={supplyId.toString()} onValueChange={setSelectedSupplyId}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Select supply" />
+              </SelectTrigger>
+              <SelectContent>
+                {supplies.map(([id, name]) => (
+                  <SelectItem key={id} value={id.toString()}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <LineChart data={priceTimeline}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} tickFormatter={(value) => `$${value}`} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {supplyPrices.map(entry => (
+                <Line
+                  key={entry.vendorId}
+                  dataKey={`vendor${entry.vendorId}`}
+                  stroke={`var(--color-vendor${entry.vendorId})`}
+                  strokeWidth={2}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Prices Paid</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2">Supply</th>
+                <th className="py-2">Vendor</th>
+                <th className="py-2 text-right">Orders</th>
+                <th className="py-2 text-right">Total Spend</th>
+                <th className="py-2 text-right">Avg Price</th>
+                <th className="py-2 text-right">Last Price</th>
+                <th className="py-2 text-right">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.prices.map(entry => (
+                <tr key={`${entry.supplyId}:${entry.vendorId}`} className="border-b border-gray-100 last:border-b-0">
+                  <td className="py-2">{entry.supplyName}</td>
+                  <td className="py-2">{entry.vendorName}</td>
+                  <td className="py-2 text-right">{entry.orderCount}</td>
+                  <td className="py-2 text-right">{formatCurrency(entry.totalSpend)}</td>
+                  <td className="py-2 text-right">{formatCurrency(entry.averagePrice)}</td>
+                  <td className="py-2 text-right">{formatCurrency(entry.lastPrice)}</td>
+                  <td className="py-2 text-right">
+                    {!entry.priceChange ? (
+                      <span className="text-gray-400">—</span>
+                    ) : (
+                      <span className={`inline-flex items-center ${entry.priceChange > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {entry.priceChange > 0 ? <TrendingUp className="w-3 h-3 mr-1" /> : <TrendingDown className="w-3 h-3 mr-1" />}
+                        {entry.priceChange > 0 ? '+' : '-'}{formatCurrency(Math.abs(entry.priceChange))}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, Edit, Trash2, RotateCcw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { RecutReasonWithUsage } from "@shared/schema";
+
+const emptyForm = { code: "", name: "" };
+
+export default function RecutReasonsManager() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingReason, setEditingReason] = useState<RecutReasonWithUsage | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: reasons = [], isLoading } = useQuery<RecutReasonWithUsage[]>({
+    queryKey: ['/api/recut-reasons'],
+  });
+
+  const onError = (error: any) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: typeof emptyForm) => editingReason
+      ? apiRequest('PUT', `/api/recut-reasons/${editingReason.id}`, data)
+      : apiRequest('POST', '/api/recut-reasons', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recut-reasons'] });
+      setDialogOpen(false);
+      toast({ title: "Success", description: editingReason ? "Recut reason updated" : "Recut reason added" });
+    },
+    onError,
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: (reason: RecutReasonWithUsage) => apiRequest('PUT', `/api/recut-reasons/${reason.id}`, { isActive: !reason.isActive }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recut-reasons'] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/recut-reasons/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recut-reasons'] });
+      toast({ title: "Success", description: "Recut reason deleted" });
+    },
+    onError,
+  });
+
+  const openDialog = (reason: RecutReasonWithUsage | null) => {
+    setEditingReason(reason);
+    setForm(reason ? { code: reason.code, name: reason.name } : emptyForm);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <RotateCcw className="h-5 w-5" />
+            <span>Recut Reasons</span>
+          </CardTitle>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Reason
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-500 mb-4">
+          Every recut is filed under one of these reasons. Inactive reasons stay on past recuts and in reports but can't be chosen for new ones.
+        </p>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading reasons...</p>
+        ) : reasons.length === 0 ? (
+          <p className="text-sm text-gray-500">No recut reasons yet. Add one so operators can log recuts.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2">Code</th>
+                <th className="py-2">Name</th>
+                <th className="py-2 text-right">Recuts</th>
+                <th className="py-2 text-center">Active</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {reasons.map(reason => (
+                <tr key={reason.id} className="border-b border-gray-100 last:border-b-0">
+                  <td className="py-2 font-mono">{reason.code}</td>
+                  <td className="py-2">
+                    {reason.name}
+                    {!reason.isActive && <Badge variant="secondary" className="ml-2 text-xs">Inactive</Badge>}
+                  </td>
+                  <td className="py-2 text-right">{reason.recutCount}</td>
+                  <td className="py-2 text-center">
+                    <Switch
+                      checked={reason.isActive}
+                      onCheckedChange={() => toggleActiveMutation.mutate(reason)}
+                      disabled={toggleActiveMutation.isPending}
+                    />
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(reason)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        if (confirm(`Delete the recut reason "${reason.name}"?`)) {
+                          deleteMutation.mutate(reason.id);
+                        }
+                      }}
+                      disabled={reason.recutCount > 0 || deleteMutation.isPending}
+                      title={reason.recutCount > 0 ? "Used by existing recuts; deactivate it instead" : "Delete reason"}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingReason ? "Edit Recut Reason" : "Add Recut Reason"}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate(form);
+            }}
+            className="space-y-4"
+          >
+            <div>
+              <Label htmlFor="recut-reason-code">Code</Label>
+              <Input
+                id="recut-reason-code"
+                placeholder="e.g., MACHINE"
+                maxLength={20}
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="recut-reason-name">Name</Label>
+              <Input
+                id="recut-reason-name"
+                placeholder="e.g., Machine fault"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending || !form.code.trim() || !form.name.trim()}>
+                {editingReason ? "Save Reason" : "Add Reason"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supplyTransactionTypes, type Job, type SupplyLedgerEntry } from "@shared/schema";
+
+interface SupplyLedgerProps {
+  supplies: { id: number; name: string }[];
+  supplyId: string;
+  onSupplyIdChange: (supplyId: string) => void;
+}
+
+// Select value meaning "no filter", since Select items cannot have an empty value
+const ALL = "all";
+
+const TYPE_LABELS: Record<string, string> = {
+  allocate: "Allocated",
+  use: "Used",
+  receive: "Received",
+  adjust: "Adjusted",
+  transfer: "Transferred",
+};
+
+export default function SupplyLedger({ supplies, supplyId, onSupplyIdChange }: SupplyLedgerProps) {
+  const [type, setType] = useState(ALL);
+  const [jobId, setJobId] = useState(ALL);
+  const [userId, setUserId] = useState(ALL);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const params = new URLSearchParams();
+  if (type !== ALL) params.set("type", type);
+  if (supplyId !== ALL) params.set("supplyId", supplyId);
+  if (jobId !== ALL) params.set("jobId", jobId);
+  if (userId !== ALL) params.set("userId", userId);
+  if (fromDate) params.set("fromDate", fromDate);
+  if (toDate) params.set("toDate", toDate);
+
+  const { data: entries = [], isLoading } = useQuery<SupplyLedgerEntry[]>({
+    queryKey: [`/api/supply-transactions?${params}`],
+    staleTime: 0,
+  });
+
+  const { data: jobs = [] } = useQuery<Job[]>({
+    queryKey: ['/api/jobs'],
+  });
+
+  // Users are only listed if they appear in the ledger; the selected one is kept so it can be cleared
+  const users = Array.from(new Map(
+    entries.filter(entry => entry.userId && entry.username).map(entry => [entry.userId!, entry.username!])
+  ).entries());
+
+  // Totals per type for the rows shown, e.g. how much of a supply was used on a job
+  const totals = supplyTransactionTypes
+    .map(transactionType => ({
+      type: transactionType,
+      quantity: entries.filter(entry => entry.type === transactionType).reduce((sum, entry) => sum + entry.quantity, 0),
+      count: entries.filter(entry => entry.type === transactionType).length,
+    }))
+    .filter(total => total.count > 0);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+            <div>
+              <Label>Supply</Label>
+              <Select value={supplyId} onValueChange={onSupplyIdChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All supplies</SelectItem>
+                  {supplies.map(supply => (
+                    <SelectItem key={supply.id} value={supply.id.toString()}>{supply.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {supplyTransactionTypes.map(transactionType => (
+                    <SelectItem key={transactionType} value={transactionType}>{TYPE_LABELS[transactionType]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Job</Label>
+              <Select value={jobId} onValueChange={setJobId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All jobs</SelectItem>
+                  {jobs.map(job => (
+                    <SelectItem key={job.id} value={job.id.toString()}>{job.jobNumber} - {job.customerName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>User</Label>
+              <Select value={userId} onValueChange={setUserId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All users</SelectItem>
+                  {users.map(([id, username]) => (
+                    <SelectItem key={id} value={id.toString()}>{username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="ledgerFromDate">From</Label>
+              <Input id="ledgerFromDate" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="ledgerToDate">To</Label>
+              <Input id="ledgerToDate" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <div className="flex flex-wrap items-center gap-2">
+          {totals.map(total => (
+            <Badge key={total.type} variant="outline">
+              {TYPE_LABELS[total.type]}: {total.quantity} ({total.count})
+            </Badge>
+          ))}
+        </div>
+        <Button variant="outline" asChild>
+          <a href={`/api/supply-transactions/export?${params}`} download>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <p className="p-6 text-sm text-gray-500">Loading ledger...</p>
+          ) : entries.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No transactions match these filters.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="px-4 py-2">Date</th>
+                  <th className="px-4 py-2">Supply</th>
+                  <th className="px-4 py-2">Type</th>
+                  <th className="px-4 py-2 text-right">Qty</th>
+                  <th className="px-4 py-2">Location</th>
+                  <th className="px-4 py-2">Job</th>
+                  <th className="px-4 py-2">User</th>
+                  <th className="px-4 py-2">Description</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.id} className="border-b border-gray-100 last:border-b-0">
+                    <td className="px-4 py-2 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                    <td className="px-4 py-2">{entry.supplyName}</td>
+                    <td className="px-4 py-2">{TYPE_LABELS[entry.type] ?? entry.type}</td>
+                    <td className="px-4 py-2 text-right">{entry.quantity}</td>
+                    <td className="px-4 py-2">{entry.locationName ?? "—"}</td>
+                    <td className="px-4 py-2">{entry.jobNumber ?? "—"}</td>
+                    <td className="px-4 py-2">{entry.username ?? "—"}</td>
+                    <td className="px-4 py-2 text-gray-600">{entry.description}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,10 +2,11 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Plus, Edit, Trash2, Users, Palette, Upload, X, AlertTriangle } from "lucide-react";
+import { Plus, Edit, Trash2, Users, Palette, Upload, X, AlertTriangle, Settings } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -16,8 +17,9 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/lib/auth";
 import Layout from "@/components/layout";
+import RecutReasonsManager from "@/components/recut-reasons-manager";
 import { insertUserSchema, insertColorSchema, insertColorGroupSchema } from "@shared/schema";
-import type { User, ColorWithGroup, ColorGroup } from "@shared/schema";
+import type { User, ColorWithGroup, ColorGroup, AppSettings } from "@shared/schema";
 
 export default function Admin() {
   const [currentTime] = useState(new Date());
@@ -30,6 +32,7 @@ export default function Admin() {
   const [colorToDelete, setColorToDelete] = useState<ColorWithGroup | null>(null);
   const [uploadedTextureUrl, setUploadedTextureUrl] = useState<string>("");
   const [isUploading, setIsUploading] = useState(false);
+  const [settingsForm, setSettingsForm] = useState<AppSettings | null>(null);
   
   const { user } = useAuth();
   const { toast } = useToast();
@@ -73,6 +76,27 @@ export default function Admin() {
     queryKey: ['/api/color-groups'],
   });
 
+  const isAdmin = user?.role === 'admin' || user?.role === 'super_admin';
+
+  const { data: settings } = useQuery<AppSettings>({
+    queryKey: ['/api/settings'],
+  });
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: (data: AppSettings) => apiRequest('PUT', '/api/settings', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      setSettingsForm(null);
+      toast({ title: "Success", description: "Settings saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Edits are kept locally until saved; fall back to the stored settings
+  const currentSettings = settingsForm ?? settings;
+
   // File upload mutation
   const uploadTextureMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -187,10 +211,19 @@ export default function Admin() {
     },
   });
 
+  // Colors are supplies underneath; /api/colors only serves the read-only view
+  const toSupplyData = (data: any) => ({
+    name: data.name,
+    hexColor: data.hexColor,
+    locationId: data.groupId,
+    texture: data.texture,
+  });
+
   const createColorMutation = useMutation({
-    mutationFn: (data: any) => apiRequest('POST', '/api/colors', data),
+    mutationFn: (data: any) => apiRequest('POST', '/api/supplies', { ...toSupplyData(data), pieceSize: 'sheet', quantityOnHand: 0 }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/colors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies'] });
       setShowColorDialog(false);
       colorForm.reset();
       setUploadedTextureUrl("");
@@ -204,11 +237,12 @@ export default function Admin() {
   const deleteColorMutation = useMutation({
     mutationFn: (id: number) => {
       console.log('Attempting to delete color with ID:', id);
-      return apiRequest('DELETE', `/api/colors/${id}`);
+      return apiRequest('DELETE', `/api/supplies/${id}`);
     },
     onSuccess: () => {
       console.log('Color deleted successfully');
       queryClient.invalidateQueries({ queryKey: ['/api/colors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies'] });
       toast({ title: "Success", description: "Color deleted successfully" });
     },
     onError: (error: any) => {
@@ -218,9 +252,10 @@ export default function Admin() {
   });
 
   const updateColorMutation = useMutation({
-    mutationFn: ({ id, data }: { id: number; data: any }) => apiRequest('PUT', `/api/colors/${id}`, data),
+    mutationFn: ({ id, data }: { id: number; data: any }) => apiRequest('PUT', `/api/supplies/${id}`, toSupplyData(data)),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/colors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies'] });
       editColorForm.reset();
       setShowEditColorDialog(false);
       setEditingColor(null);
@@ -269,6 +304,8 @@ export default function Admin() {
           <TabsList>
             <TabsTrigger value="colors">Colors & Materials</TabsTrigger>
             {user?.role === 'admin' && <TabsTrigger value="users">Users</TabsTrigger>}
+            {isAdmin && <TabsTrigger value="settings">Settings</TabsTrigger>}
+            {isAdmin && <TabsTrigger value="recut-reasons">Recut Reasons</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="colors" className="space-y-6">
@@ -757,7 +794,93 @@ export default function Admin() {
             </TabsContent>
           )}
 
+          {isAdmin && (
+            <TabsContent value="settings">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Settings className="h-5 w-5" />
+                    <span>Settings</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {currentSettings && (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        updateSettingsMutation.mutate(currentSettings);
+                      }}
+                      className="space-y-4 max-w-md"
+                    >
+                      <div>
+                        <Label htmlFor="trash-retention">Job trash retention (days)</Label>
+                        <Input
+                          id="trash-retention"
+                          type="number"
+                          min="1"
+                          value={currentSettings.jobTrashRetentionDays}
+                          onChange={(e) => setSettingsForm({
+                            ...currentSettings,
+                            jobTrashRetentionDays: parseInt(e.target.value) || 1,
+                          })}
+                        />
+                        <p className="text-sm text-gray-500 mt-1">
+                          Deleted jobs stay in the trash this long before an admin can purge them permanently.
+                        </p>
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="job-number-prefix">Job number prefix</Label>
+                          <Input
+                            id="job-number-prefix"
+                            placeholder="None"
+                            maxLength={10}
+                            value={currentSettings.jobNumberPrefix}
+                            onChange={(e) => setSettingsForm({
+                              ...currentSettings,
+                              jobNumberPrefix: e.target.value,
+                            })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="job-number-padding">Sequence digits</Label>
+                          <Input
+                            id="job-number-padding"
+                            type="number"
+                            min="1"
+                            max="8"
+                            value={currentSettings.jobNumberPadding}
+                            onChange={(e) => setSettingsForm({
+                              ...currentSettings,
+                              jobNumberPadding: Math.min(8, Math.max(1, parseInt(e.target.value) || 1)),
+                            })}
+                          />
+                        </div>
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        Next jobs will be numbered like{" "}
+                        <span className="font-mono text-gray-900">
+                          {currentSettings.jobNumberPrefix}{new Date().getFullYear()}-{"1".padStart(currentSettings.jobNumberPadding, "0")}
+                        </span>
+                        . The sequence restarts every year.
+                      </p>
+                      <div className="flex justify-end">
+                        <Button type="submit" disabled={!settingsForm || updateSettingsMutation.isPending}>
+                          Save Settings
+                        </Button>
+                      </div>
+                    </form>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
 
+          {isAdmin && (
+            <TabsContent value="recut-reasons">
+              <RecutReasonsManager />
+            </TabsContent>
+          )}
         </Tabs>
 
         {/* Delete Color Confirmation Dialog */}
@@ -1,5 +1,7 @@
 import { useState } from "react";
-import { ShoppingCart, ArrowLeft, ArrowRight, Package } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { ShoppingCart, ArrowLeft, ArrowRight, Package, FileText } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,60 +9,157 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import Layout from "@/components/layout";
-
-interface NeedToPurchaseItem {
-  id: number;
-  location: string;
-  item: string;
-  pieceSize: string;
-  onHand: number;
-  allocated: number;
-  minimumQty: number;
-  qtyToOrder: number;
-}
-
-const mockNeedToPurchase: NeedToPurchaseItem[] = [
-  { id: 1, location: "1-Sheet Materials", item: "1/4\" River Rock", pieceSize: "1 Sheet", onHand: 3, allocated: 0, minimumQty: 10, qtyToOrder: 20 },
-  { id: 2, location: "1-Sheet Materials", item: "5/8\" White Melamine", pieceSize: "1 Sheet", onHand: 0, allocated: 0, minimumQty: 10, qtyToOrder: 20 },
-  { id: 3, location: "5-Drawer Glides", item: "10\" full extension drawer slide", pieceSize: "1 Pair", onHand: 1, allocated: 0, minimumQty: 5, qtyToOrder: 10 },
-  { id: 4, location: "5-Drawer Glides", item: "12\" full extension drawer slide", pieceSize: "1 Pair", onHand: 7, allocated: 0, minimumQty: 20, qtyToOrder: 40 },
-  { id: 5, location: "5-Drawer Glides", item: "14\" full extension drawer slide", pieceSize: "1 Pair", onHand: 0, allocated: 0, minimumQty: 10, qtyToOrder: 20 },
-  { id: 6, location: "5-Drawer Glides", item: "16\" full extension drawer slide", pieceSize: "1 Pair", onHand: 5, allocated: 0, minimumQty: 20, qtyToOrder: 40 },
-];
-
-const locations = [
-  "1-Sheet Materials",
-  "2-Edgebandings", 
-  "3-Hardwood Materials",
-  "4-Drawer Box Materials",
-  "5-Drawer Glides",
-  "6-Hinges / Plates / Handles",
-  "7-Accessories / Inserts",
-  "8-Other Inventory",
-  "Bay 1", "Bay 2", "Bay 3", "Bay 4", "Bay 5", "Bay 6", "Bay 7",
-  "Rack 1", "Rack 2", "Rack 3", "Shipping Goods"
-];
-
-const items = [
-  "1/4\" River Rock",
-  "5/8\" White Melamine", 
-  "10\" full extension drawer slide",
-  "12\" full extension drawer slide",
-  "14\" full extension drawer slide",
-  "16\" full extension drawer slide"
-];
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { SupplyReorderItem, ReorderPurchaseOrdersResult, SupplyWithLocation, LocationWithItemCount, Job, SupplyCheckInOut, SupplyStockWithLocation } from "@shared/schema";
 
 export default function CheckoutOrder() {
   const [currentTime] = useState(new Date());
   const [selectedLocation, setSelectedLocation] = useState("");
   const [selectedItem, setSelectedItem] = useState("");
-  const [itemInfo, setItemInfo] = useState("");
   const [moveToLocation, setMoveToLocation] = useState(false);
-  const [moveToLocationText, setMoveToLocationText] = useState("");
+  const [moveToLocationId, setMoveToLocationId] = useState("");
   const [trackToOrder, setTrackToOrder] = useState(false);
-  const [trackToOrderText, setTrackToOrderText] = useState("");
+  const [trackToJobId, setTrackToJobId] = useState("");
   const [quantity, setQuantity] = useState("");
   const [note, setNote] = useState("");
+  // Quantities edited in the report, keyed by supply id
+  const [orderQuantities, setOrderQuantities] = useState<Record<number, number>>({});
+  // Rows ticked for ordering
+  const [selectedSupplyIds, setSelectedSupplyIds] = useState<number[]>([]);
+
+  const { data: needToPurchase = [], isLoading: needToPurchaseLoading } = useQuery<SupplyReorderItem[]>({
+    queryKey: ['/api/supplies/reorder'],
+    staleTime: 0, // stock moves with every cut sheet, so reload whenever the page opens
+  });
+
+  const { data: locations = [] } = useQuery<LocationWithItemCount[]>({
+    queryKey: ['/api/locations'],
+  });
+
+  const { data: supplies = [] } = useQuery<SupplyWithLocation[]>({
+    queryKey: ['/api/supplies'],
+    staleTime: 0,
+  });
+
+  const { data: stock = [] } = useQuery<SupplyStockWithLocation[]>({
+    queryKey: ['/api/supplies/stock'],
+    staleTime: 0,
+  });
+
+  const { data: jobs = [] } = useQuery<Job[]>({
+    queryKey: ['/api/jobs'],
+    enabled: trackToOrder,
+  });
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  // Items whose home is this location or that have stock sitting here
+  const stockAtLocation = stock.filter(row => row.locationId.toString() === selectedLocation);
+  const locationItems = supplies.filter(supply =>
+    supply.locationId?.toString() === selectedLocation || stockAtLocation.some(row => row.supplyId === supply.id)
+  );
+  const selectedSupply = supplies.find(supply => supply.id.toString() === selectedItem);
+  const selectedStock = stockAtLocation.find(row => row.supplyId === selectedSupply?.id)?.quantity ?? 0;
+  // Ticked rows that are still on the report
+  const selectedItems = needToPurchase.filter(item => selectedSupplyIds.includes(item.id));
+
+  const checkInOutMutation = useMutation({
+    mutationFn: async (data: SupplyCheckInOut) => {
+      const response = await apiRequest('POST', '/api/supplies/check-in-out', data);
+      return response.json() as Promise<SupplyWithLocation>;
+    },
+    onSuccess: (supply, { direction, quantity }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies/reorder'] });
+      queryClient.invalidateQueries({ queryKey: ["supplies"] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies/stock'] });
+      queryClient.invalidateQueries({ queryKey: ["supply-stock"] });
+      queryClient.invalidateQueries({ queryKey: ['/api/locations'] });
+      toast({
+        title: "Success",
+        description: `${direction === 'check_out' ? 'Checked out' : 'Checked in'} ${quantity} ${supply.name}`,
+      });
+      setQuantity("");
+      setNote("");
+      setMoveToLocation(false);
+      setMoveToLocationId("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record stock movement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCheckInOut = (direction: SupplyCheckInOut['direction']) => {
+    const amount = parseInt(quantity);
+    if (!selectedSupply || !amount || amount < 1) {
+      toast({
+        title: "Error",
+        description: "Please select an item and enter a quantity",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (direction === 'check_out' && amount > selectedSupply.available) {
+      toast({
+        title: "Error",
+        description: `Only ${Math.max(0, selectedSupply.available)} available to check out`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    checkInOutMutation.mutate({
+      direction,
+      supplyId: selectedSupply.id,
+      quantity: amount,
+      locationId: selectedLocation ? parseInt(selectedLocation) : undefined,
+      moveToLocationId: moveToLocation && moveToLocationId ? parseInt(moveToLocationId) : undefined,
+      jobId: trackToOrder && trackToJobId ? parseInt(trackToJobId) : undefined,
+      note: note.trim() || undefined,
+    });
+  };
+
+  const createDraftOrdersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/purchase-orders/from-reorder', {
+        supplyIds: selectedItems.map(item => item.id),
+        quantities: orderQuantities,
+      });
+      return response.json() as Promise<ReorderPurchaseOrdersResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies/reorder'] });
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      setOrderQuantities({});
+      setSelectedSupplyIds([]);
+
+      const created = result.purchaseOrders.length;
+      const skipped = result.skipped.map(item => `${item.name} (${item.reason.toLowerCase()})`).join(", ");
+      toast({
+        title: created > 0 ? "Success" : "No purchase orders created",
+        description: [
+          created > 0 ? `Created ${created} draft purchase order${created === 1 ? "" : "s"} for review.` : "",
+          skipped ? `Skipped: ${skipped}` : "",
+        ].filter(Boolean).join(" "),
+        variant: created > 0 ? undefined : "destructive",
+      });
+      if (created > 0) setLocation("/purchase-orders");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create purchase orders",
+        variant: "destructive",
+      });
+    },
+  });
 
   return (
     <Layout currentTime={currentTime}>
@@ -92,14 +191,14 @@ export default function CheckoutOrder() {
                 <div className="space-y-4">
                   <div>
                     <label className="text-sm font-medium mb-2 block">Location</label>
-                    <Select value={selectedLocation} onValueChange={setSelectedLocation}>
+                    <Select value={selectedLocation} onValueChange={(value) => { setSelectedLocation(value); setSelectedItem(""); }}>
                       <SelectTrigger>
                         <SelectValue placeholder="-Select-" />
                       </SelectTrigger>
                       <SelectContent>
-                        {locations.map((location) => (
-                          <SelectItem key={location} value={location}>
-                            {location}
+                        {locations.filter(location => location.active || location.itemCount > 0).map((location) => (
+                          <SelectItem key={location.id} value={location.id.toString()}>
+                            {location.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -108,14 +207,14 @@ export default function CheckoutOrder() {
 
                   <div>
                     <label className="text-sm font-medium mb-2 block">Item</label>
-                    <Select value={selectedItem} onValueChange={setSelectedItem}>
+                    <Select value={selectedItem} onValueChange={setSelectedItem} disabled={!selectedLocation}>
                       <SelectTrigger>
                         <SelectValue placeholder={selectedLocation ? "-Select-" : "-Select A Location First-"} />
                       </SelectTrigger>
                       <SelectContent>
-                        {items.map((item) => (
-                          <SelectItem key={item} value={item}>
-                            {item}
+                        {locationItems.map((item) => (
+                          <SelectItem key={item.id} value={item.id.toString()}>
+                            {item.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -125,8 +224,9 @@ export default function CheckoutOrder() {
                   <div>
                     <label className="text-sm font-medium mb-2 block">Item Info</label>
                     <Input 
-                      value={itemInfo} 
-                      onChange={(e) => setItemInfo(e.target.value)}
+                      value={selectedSupply
+                        ? `Here ${selectedStock} • On hand ${selectedSupply.quantityOnHand} • Allocated ${selectedSupply.allocated} • Available ${selectedSupply.available} (${selectedSupply.pieceSize})`
+                        : ""}
                       placeholder="Item information will appear here"
                       readOnly
                     />
@@ -140,14 +240,21 @@ export default function CheckoutOrder() {
                       checked={moveToLocation} 
                       onCheckedChange={(checked) => setMoveToLocation(checked === true)}
                     />
-                    <label className="text-sm">Move From/To Another Location</label>
+                    <label className="text-sm">Move To Another Location</label>
                   </div>
                   {moveToLocation && (
-                    <Input 
-                      value={moveToLocationText}
-                      onChange={(e) => setMoveToLocationText(e.target.value)}
-                      placeholder="Enter location"
-                    />
+                    <Select value={moveToLocationId} onValueChange={setMoveToLocationId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="-Select Location-" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {locations.filter(location => location.active && location.id.toString() !== selectedLocation).map((location) => (
+                          <SelectItem key={location.id} value={location.id.toString()}>
+                            {location.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   )}
 
                   <div className="flex items-center space-x-2">
@@ -158,17 +265,25 @@ export default function CheckoutOrder() {
                     <label className="text-sm">Track To An Order</label>
                   </div>
                   {trackToOrder && (
-                    <Input 
-                      value={trackToOrderText}
-                      onChange={(e) => setTrackToOrderText(e.target.value)}
-                      placeholder="Enter order number"
-                    />
+                    <Select value={trackToJobId} onValueChange={setTrackToJobId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="-Select Job-" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {jobs.map((job) => (
+                          <SelectItem key={job.id} value={job.id.toString()}>
+                            {job.jobNumber} - {job.customerName} / {job.jobName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   )}
 
                   <div>
                     <label className="text-sm font-medium mb-2 block">Quantity</label>
                     <Input 
                       type="number"
+                      min="1"
                       value={quantity} 
                       onChange={(e) => setQuantity(e.target.value)}
                       placeholder="Enter quantity"
@@ -189,11 +304,20 @@ export default function CheckoutOrder() {
 
               {/* Action Buttons */}
               <div className="flex justify-end space-x-4 mt-6">
-                <Button variant="outline" className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  className="flex items-center space-x-2"
+                  onClick={() => handleCheckInOut('check_in')}
+                  disabled={checkInOutMutation.isPending}
+                >
                   <ArrowLeft className="h-4 w-4" />
                   <span>Check In</span>
                 </Button>
-                <Button className="flex items-center space-x-2">
+                <Button
+                  className="flex items-center space-x-2"
+                  onClick={() => handleCheckInOut('check_out')}
+                  disabled={checkInOutMutation.isPending}
+                >
                   <ArrowRight className="h-4 w-4" />
                   <span>Check Out</span>
                 </Button>
@@ -203,8 +327,17 @@ export default function CheckoutOrder() {
 
           {/* Need To Purchase Table */}
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle>Need To Purchase</CardTitle>
+              <Button
+                onClick={() => createDraftOrdersMutation.mutate()}
+                disabled={selectedItems.length === 0 || createDraftOrdersMutation.isPending}
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                {createDraftOrdersMutation.isPending
+                  ? "Creating..."
+                  : `Create Draft POs by Vendor${selectedItems.length > 0 ? ` (${selectedItems.length})` : ""}`}
+              </Button>
             </CardHeader>
             <CardContent>
               <div className="overflow-x-auto">
@@ -212,7 +345,11 @@ export default function CheckoutOrder() {
                   <thead>
                     <tr className="border-b border-gray-200">
                       <th className="text-left py-3 px-4 font-semibold text-gray-900">
-                        <Checkbox />
+                        <Checkbox
+                          checked={needToPurchase.length > 0 && selectedItems.length === needToPurchase.length}
+                          onCheckedChange={(checked) => setSelectedSupplyIds(checked === true ? needToPurchase.map(item => item.id) : [])}
+                          aria-label="Select all"
+                        />
                       </th>
                       <th className="text-left py-3 px-4 font-semibold text-gray-900">LOCATION</th>
                       <th className="text-left py-3 px-4 font-semibold text-gray-900">ITEM</th>
@@ -224,22 +361,42 @@ export default function CheckoutOrder() {
                     </tr>
                   </thead>
                   <tbody>
-                    {mockNeedToPurchase.map((item) => (
+                    {needToPurchaseLoading && (
+                      <tr>
+                        <td colSpan={8} className="py-6 px-4 text-center text-gray-500">Loading...</td>
+                      </tr>
+                    )}
+                    {!needToPurchaseLoading && needToPurchase.length === 0 && (
+                      <tr>
+                        <td colSpan={8} className="py-6 px-4 text-center text-gray-500">
+                          Nothing needs to be purchased. Set a minimum quantity on a supply to track it here.
+                        </td>
+                      </tr>
+                    )}
+                    {needToPurchase.map((item) => (
                       <tr key={item.id} className="border-b border-gray-100 hover:bg-gray-50">
                         <td className="py-3 px-4">
-                          <Checkbox />
+                          <Checkbox
+                            checked={selectedSupplyIds.includes(item.id)}
+                            onCheckedChange={(checked) => setSelectedSupplyIds(prev => checked === true
+                              ? [...prev, item.id]
+                              : prev.filter(id => id !== item.id))}
+                            aria-label={`Select ${item.name}`}
+                          />
                         </td>
-                        <td className="py-3 px-4">{item.location}</td>
-                        <td className="py-3 px-4">{item.item}</td>
+                        <td className="py-3 px-4">{item.location?.name || "None"}</td>
+                        <td className="py-3 px-4">{item.name}</td>
                         <td className="py-3 px-4 text-gray-600">{item.pieceSize}</td>
-                        <td className="py-3 px-4">{item.onHand}</td>
+                        <td className="py-3 px-4">{item.quantityOnHand}</td>
                         <td className="py-3 px-4">{item.allocated}</td>
-                        <td className="py-3 px-4">{item.minimumQty}</td>
+                        <td className="py-3 px-4">{item.minimumQuantity}</td>
                         <td className="py-3 px-4">
                           <div className="flex items-center space-x-2">
                             <Input 
                               type="number"
-                              value={item.qtyToOrder}
+                              min="1"
+                              value={orderQuantities[item.id] ?? item.quantityToOrder}
+                              onChange={(e) => setOrderQuantities(prev => ({ ...prev, [item.id]: parseInt(e.target.value) || 0 }))}
                               className="w-20"
                             />
                             <Package className="h-4 w-4 text-gray-400" />
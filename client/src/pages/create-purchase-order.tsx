@@ -10,6 +10,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import Layout from "@/components/layout";
 import { useLocation } from "wouter";
+import { formatCurrency } from "@/lib/utils";
 
 interface Supply {
   id: number;
@@ -89,6 +90,20 @@ export default function CreatePurchaseOrder() {
     }
   });
 
+  // Vendor prices for the selected supply
+  const { data: supplyVendors = [] } = useQuery<{ vendorId: number; price: number }[]>({
+    queryKey: [`/api/supplies/${selectedSupply}/vendors`],
+    enabled: !!selectedSupply,
+  });
+
+  // Use the vendor's catalog price when it has one for this supply
+  useEffect(() => {
+    const catalogEntry = supplyVendors.find(entry => entry.vendorId.toString() === selectedVendor);
+    if (catalogEntry) {
+      setPricePerUnit(catalogEntry.price / 100); // Convert from cents
+    }
+  }, [supplyVendors, selectedVendor]);
+
   // Filter supplies by location
   const filteredSupplies = supplies.filter((supply: Supply) => 
     !selectedLocation || supply.location?.id.toString() === selectedLocation
@@ -154,13 +169,6 @@ export default function CreatePurchaseOrder() {
     }
   });
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount / 100);
-  };
-
   const calculateTotal = () => {
     return purchaseOrderItems.reduce((total, item) => total + item.totalPrice, 0);
   };
@@ -257,7 +265,11 @@ export default function CreatePurchaseOrder() {
       orderData: {
         additionalComments
       },
-      items: purchaseOrderItems
+      // Prices are entered in dollars and stored in cents
+      items: purchaseOrderItems.map(item => ({
+        ...item,
+        pricePerUnit: Math.round(item.pricePerUnit * 100)
+      }))
     });
   };
 
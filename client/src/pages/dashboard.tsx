@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Search, Clock, RefreshCw, Download, Eye, Trash2, Pause, Play } from "lucide-react";
+import { Plus, Search, Clock, RefreshCw, Download, Eye, Trash2, Pause, Play, RotateCcw } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,17 +13,19 @@ import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/lib/auth";
 import Layout from "@/components/layout";
 import JobModal from "@/components/job-modal";
+import JobImportModal from "@/components/job-import-modal";
 import JobDetailsModal from "@/components/job-details-modal-new";
 import { DateRangePicker } from "@/components/ui/date-range-picker";
 import { DateRange } from "react-day-picker";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
-import type { JobWithMaterials } from "@shared/schema";
+import type { JobWithMaterials, AppSettings } from "@shared/schema";
 
 export default function Dashboard() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [showJobModal, setShowJobModal] = useState(false);
+  const [showJobImportModal, setShowJobImportModal] = useState(false);
   const [selectedJob, setSelectedJob] = useState<JobWithMaterials | null>(null);
   const [viewOnlyMode, setViewOnlyMode] = useState(false);
   const [currentTime, setCurrentTime] = useState(new Date());
@@ -74,6 +76,7 @@ export default function Dashboard() {
           queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
           break;
         case 'job_deleted':
+        case 'job_restored':
           queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
           queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
           break;
@@ -101,12 +104,18 @@ export default function Dashboard() {
       setShowJobModal(true);
     };
 
+    const handleOpenJobImportModal = () => {
+      setShowJobImportModal(true);
+    };
+
     window.addEventListener('filterByStatus', handleStatusFilter as EventListener);
     window.addEventListener('openJobModal', handleOpenJobModal as EventListener);
+    window.addEventListener('openJobImportModal', handleOpenJobImportModal as EventListener);
 
     return () => {
       window.removeEventListener('filterByStatus', handleStatusFilter as EventListener);
       window.removeEventListener('openJobModal', handleOpenJobModal as EventListener);
+      window.removeEventListener('openJobImportModal', handleOpenJobImportModal as EventListener);
     };
   }, []);
 
@@ -122,6 +131,7 @@ export default function Dashboard() {
     avgJobTime: number;
     avgSheetTime: number;
     materialColors: number;
+    archivedJobs: number;
     jobsByStatus: { waiting: number; in_progress: number; paused: number; done: number };
   }>({
     queryKey: ['/api/dashboard/stats', sheetsCutDateRange, avgTimeDateRange],
@@ -152,13 +162,22 @@ export default function Dashboard() {
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
+  // The "archived" filter switches the job list to the trash view
+  const isTrashView = statusFilter === 'archived';
+  const isAdmin = user?.role === 'admin' || user?.role === 'super_admin';
+
+  const { data: settings } = useQuery<AppSettings>({
+    queryKey: ['/api/settings'],
+  });
+
   // Fetch jobs
   const { data: jobs = [], isLoading } = useQuery({
     queryKey: ['/api/jobs', searchQuery, statusFilter],
     queryFn: async () => {
       const params = new URLSearchParams();
       if (searchQuery) params.set('search', searchQuery);
-      if (statusFilter) params.set('status', statusFilter);
+      if (isTrashView) params.set('archived', 'true');
+      else if (statusFilter) params.set('status', statusFilter);
       
       const res = await apiRequest('GET', `/api/jobs?${params}`);
       return res.json();
@@ -182,13 +201,58 @@ export default function Dashboard() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
-      toast({ title: "Success", description: "Job deleted successfully" });
+      toast({ title: "Success", description: "Job moved to trash" });
     },
     onError: () => {
       toast({ title: "Error", description: "Failed to delete job" });
     },
   });
 
+  const restoreJobMutation = useMutation({
+    mutationFn: (jobId: number) => apiRequest('POST', `/api/jobs/${jobId}/restore`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      toast({ title: "Success", description: "Job restored" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to restore job" });
+    },
+  });
+
+  const purgeJobMutation = useMutation({
+    mutationFn: (jobId: number) => apiRequest('DELETE', `/api/jobs/${jobId}/purge`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      toast({ title: "Success", description: "Job purged permanently" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to purge job", variant: "destructive" });
+    },
+  });
+
+  const purgeTrashMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/jobs/trash/purge');
+      return res.json();
+    },
+    onSuccess: (data: { purged: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      toast({ title: "Success", description: `${data.purged} archived job(s) purged` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to purge archived jobs", variant: "destructive" });
+    },
+  });
+
+  // Archived jobs become purgeable once they have sat in the trash for the retention period
+  const getPurgeDate = (job: JobWithMaterials) => {
+    const retentionDays = settings?.jobTrashRetentionDays ?? 30;
+    return new Date(new Date(job.deletedAt!).getTime() + retentionDays * 24 * 60 * 60 * 1000);
+  };
+
   const pauseJobMutation = useMutation({
     mutationFn: (jobId: number) => apiRequest('POST', `/api/jobs/${jobId}/pause`),
     onSuccess: (data) => {
@@ -360,8 +424,20 @@ export default function Dashboard() {
         <Card>
           <div className="px-6 py-4 border-b border-gray-200">
             <div className="flex items-center justify-between">
-              <h3 className="text-lg font-semibold text-gray-900">Active Jobs</h3>
+              <h3 className="text-lg font-semibold text-gray-900">{isTrashView ? "Trash" : "Active Jobs"}</h3>
               <div className="flex items-center space-x-2">
+                {isTrashView && isAdmin && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => purgeTrashMutation.mutate()}
+                    disabled={purgeTrashMutation.isPending}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Purge Expired
+                  </Button>
+                )}
                 <Button variant="ghost" size="sm" onClick={() => queryClient.invalidateQueries({ queryKey: ['/api/jobs'] })}>
                   <RefreshCw className="h-4 w-4" />
                 </Button>
@@ -405,12 +481,12 @@ export default function Dashboard() {
                     const matchesSearch = job.customerName.toLowerCase().includes(searchQuery.toLowerCase()) ||
                                          job.jobNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
                                          job.jobName.toLowerCase().includes(searchQuery.toLowerCase());
-                    const matchesStatus = statusFilter === 'all' || job.status === statusFilter;
+                    const matchesStatus = statusFilter === 'all' || isTrashView || job.status === statusFilter;
                     return matchesSearch && matchesStatus;
                   }).length === 0 ? (
                   <tr>
                     <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
-                      {jobs.length === 0 ? "No jobs found. Create a new job to get started." : "No jobs match your current filter criteria."}
+                      {isTrashView ? "The trash is empty." : jobs.length === 0 ? "No jobs found. Create a new job to get started." : "No jobs match your current filter criteria."}
                     </td>
                   </tr>
                 ) : (
@@ -418,7 +494,7 @@ export default function Dashboard() {
                     const matchesSearch = job.customerName.toLowerCase().includes(searchQuery.toLowerCase()) ||
                                          job.jobNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
                                          job.jobName.toLowerCase().includes(searchQuery.toLowerCase());
-                    const matchesStatus = statusFilter === 'all' || job.status === statusFilter;
+                    const matchesStatus = statusFilter === 'all' || isTrashView || job.status === statusFilter;
                     return matchesSearch && matchesStatus;
                   }).map((job: JobWithMaterials) => {
                     // Calculate progress based on material sheets including recuts
@@ -457,7 +533,8 @@ export default function Dashboard() {
 
                     const handleJobClick = () => {
                       // For regular users and when timer should start, set the job and start timer
-                      setViewOnlyMode(false);
+                      // Archived jobs are only ever opened read-only
+                      setViewOnlyMode(isTrashView);
                       setSelectedJob(job);
                       // Timer will start automatically when job details modal opens (handled in JobDetailsModal)
                     };
@@ -474,10 +551,16 @@ export default function Dashboard() {
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div>
                             <div className="text-sm font-medium text-gray-900">{job.jobName}</div>
+                            <div className="text-xs font-mono text-gray-500">{job.jobNumber}</div>
                             <div className="text-sm text-gray-500">{job.customerName}</div>
                             <div className="text-xs text-gray-400">
                               Created: {new Date(job.createdAt).toLocaleDateString()}
                             </div>
+                            {job.deletedAt && (
+                              <div className="text-xs text-red-500">
+                                Archived: {new Date(job.deletedAt).toLocaleDateString()}
+                              </div>
+                            )}
                           </div>
                         </td>
                         
@@ -568,6 +651,41 @@ export default function Dashboard() {
                               </Button>
                             )}
 
+                            {isTrashView ? (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={(e) => { 
+                                    e.stopPropagation(); 
+                                    restoreJobMutation.mutate(job.id);
+                                  }}
+                                  disabled={restoreJobMutation.isPending}
+                                  title="Restore job"
+                                  className="text-green-600 hover:text-green-800 hover:bg-green-50"
+                                >
+                                  <RotateCcw className="h-4 w-4" />
+                                </Button>
+                                {isAdmin && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={(e) => { 
+                                      e.stopPropagation(); 
+                                      purgeJobMutation.mutate(job.id);
+                                    }}
+                                    disabled={purgeJobMutation.isPending || getPurgeDate(job) > currentTime}
+                                    title={getPurgeDate(job) > currentTime
+                                      ? `Can be purged after ${getPurgeDate(job).toLocaleDateString()}`
+                                      : "Purge permanently"}
+                                    className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </>
+                            ) : (
+                            <>
                             {/* Pause/Resume Button - Show on all jobs */}
                             {job.status === 'paused' ? (
                               <Button
@@ -609,6 +727,8 @@ export default function Dashboard() {
                             >
                               <Trash2 className="h-4 w-4" />
                             </Button>
+                            </>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -623,6 +743,7 @@ export default function Dashboard() {
 
       {/* Modals */}
       <JobModal open={showJobModal} onOpenChange={setShowJobModal} />
+      <JobImportModal open={showJobImportModal} onOpenChange={setShowJobImportModal} />
       <JobDetailsModal 
         job={selectedJob}
         open={!!selectedJob}
@@ -644,7 +765,7 @@ export default function Dashboard() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Job</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this job? This action cannot be undone and will remove all associated materials and progress data.
+              Are you sure you want to delete this job? It will be moved to the trash, where it can be restored until an admin purges it after {settings?.jobTrashRetentionDays ?? 30} days.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,463 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ClipboardList, Plus, Save, CheckCircle, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import Layout from "@/components/layout";
+import type { InventoryCountSummary, InventoryCountWithLines, LocationWithItemCount, SupplyWithLocation } from "@shared/schema";
+
+const STATUS_STYLES: Record<string, string> = {
+  open: "bg-blue-100 text-blue-800",
+  posted: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-600",
+};
+
+export default function InventoryCounts() {
+  const [currentTime] = useState(new Date());
+  const [selectedCountId, setSelectedCountId] = useState<number | null>(null);
+  const [newCountOpen, setNewCountOpen] = useState(false);
+  const [newCountLocationIds, setNewCountLocationIds] = useState<number[]>([]);
+  const [newCountNote, setNewCountNote] = useState("");
+  // Counted quantities typed in but not yet saved, keyed by line id
+  const [entries, setEntries] = useState<Record<number, string>>({});
+  const [locationFilter, setLocationFilter] = useState("all");
+  const [addLine, setAddLine] = useState({ supplyId: "", locationId: "" });
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin' || user?.role === 'super_admin';
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: counts = [], isLoading } = useQuery<InventoryCountSummary[]>({
+    queryKey: ['/api/inventory-counts'],
+    staleTime: 0,
+  });
+
+  const { data: count } = useQuery<InventoryCountWithLines>({
+    queryKey: [`/api/inventory-counts/${selectedCountId}`],
+    enabled: !!selectedCountId,
+    staleTime: 0,
+  });
+
+  const { data: locations = [] } = useQuery<LocationWithItemCount[]>({
+    queryKey: ['/api/locations'],
+  });
+
+  const { data: supplies = [] } = useQuery<SupplyWithLocation[]>({
+    queryKey: ['/api/supplies'],
+  });
+
+  // Start each count from what has been saved for it
+  useEffect(() => {
+    setEntries({});
+    setLocationFilter("all");
+    setAddLine({ supplyId: "", locationId: "" });
+  }, [selectedCountId]);
+
+  const invalidateCount = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/inventory-counts'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/inventory-counts/${selectedCountId}`] });
+  };
+
+  const createCountMutation = useMutation({
+    mutationFn: (data: { locationIds: number[]; note?: string }) => apiRequest('POST', '/api/inventory-counts', data),
+    onSuccess: async (response) => {
+      const created = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory-counts'] });
+      setNewCountOpen(false);
+      setSelectedCountId(created.id);
+      toast({ title: "Success", description: "Inventory count started" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to start inventory count", variant: "destructive" });
+    },
+  });
+
+  const saveCountsMutation = useMutation({
+    mutationFn: (lines: { lineId: number; countedQuantity: number | null }[]) =>
+      apiRequest('PUT', `/api/inventory-counts/${selectedCountId}/lines`, { lines }),
+    onSuccess: () => {
+      invalidateCount();
+      setEntries({});
+      toast({ title: "Success", description: "Counts saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save counts", variant: "destructive" });
+    },
+  });
+
+  const addLineMutation = useMutation({
+    mutationFn: (data: { supplyId: number; locationId: number }) =>
+      apiRequest('POST', `/api/inventory-counts/${selectedCountId}/lines`, data),
+    onSuccess: () => {
+      invalidateCount();
+      setAddLine({ supplyId: "", locationId: "" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to add item", variant: "destructive" });
+    },
+  });
+
+  const postCountMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/inventory-counts/${selectedCountId}/post`),
+    onSuccess: () => {
+      invalidateCount();
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies'] });
+      queryClient.invalidateQueries({ queryKey: ["supplies"] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies/stock'] });
+      queryClient.invalidateQueries({ queryKey: ["supply-stock"] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies/reorder'] });
+      toast({ title: "Success", description: "Count posted and stock adjusted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to post count", variant: "destructive" });
+    },
+  });
+
+  const cancelCountMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/inventory-counts/${selectedCountId}/cancel`),
+    onSuccess: () => {
+      invalidateCount();
+      toast({ title: "Success", description: "Count cancelled" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to cancel count", variant: "destructive" });
+    },
+  });
+
+  const openNewCount = () => {
+    setNewCountLocationIds([]);
+    setNewCountNote("");
+    setNewCountOpen(true);
+  };
+
+  const handleCreateCount = () => {
+    if (newCountLocationIds.length === 0) {
+      toast({ title: "Error", description: "Choose at least one location", variant: "destructive" });
+      return;
+    }
+    createCountMutation.mutate({ locationIds: newCountLocationIds, note: newCountNote.trim() || undefined });
+  };
+
+  const handleSaveCounts = () => {
+    const lines = Object.entries(entries).map(([lineId, value]) => ({
+      lineId: parseInt(lineId),
+      countedQuantity: value.trim() === "" ? null : parseInt(value),
+    }));
+    if (lines.some(line => line.countedQuantity !== null && (isNaN(line.countedQuantity) || line.countedQuantity < 0))) {
+      toast({ title: "Error", description: "Counted quantities must be whole numbers of 0 or more", variant: "destructive" });
+      return;
+    }
+    if (lines.length > 0) saveCountsMutation.mutate(lines);
+  };
+
+  const handlePostCount = () => {
+    if (!count) return;
+    const uncounted = count.lineCount - count.countedLineCount;
+    const unsaved = Object.keys(entries).length;
+    const warning = [
+      unsaved > 0 ? `${unsaved} unsaved entr${unsaved === 1 ? 'y' : 'ies'} will be discarded.` : "",
+      uncounted > 0 ? `${uncounted} uncounted line${uncounted === 1 ? '' : 's'} will be left as they are.` : "",
+    ].filter(Boolean).join(" ");
+    if (confirm(`Post count #${count.id} and adjust stock to the counted quantities?${warning ? ` ${warning}` : ""}`)) {
+      postCountMutation.mutate();
+    }
+  };
+
+  const handleCancelCount = () => {
+    if (count && confirm(`Cancel count #${count.id}? Nothing will be adjusted.`)) {
+      cancelCountMutation.mutate();
+    }
+  };
+
+  const handleAddLine = () => {
+    const supplyId = parseInt(addLine.supplyId);
+    const locationId = parseInt(addLine.locationId);
+    if (!supplyId || !locationId) {
+      toast({ title: "Error", description: "Choose a supply and a location", variant: "destructive" });
+      return;
+    }
+    addLineMutation.mutate({ supplyId, locationId });
+  };
+
+  const isOpen = count?.status === 'open';
+  const countLocations = count
+    ? count.locationIds.map((id, index) => ({ id, name: count.locationNames[index] }))
+    : [];
+  const visibleLines = (count?.lines || []).filter(line =>
+    locationFilter === "all" || line.locationId.toString() === locationFilter
+  );
+  const linesWithVariance = (count?.lines || []).filter(line => line.variance !== null && line.variance !== 0);
+
+  return (
+    <Layout currentTime={currentTime}>
+      <div className="flex h-full bg-gray-50">
+        {/* Count List */}
+        <div className="w-80 bg-white border-r border-gray-200 p-6 overflow-auto">
+          <div className="space-y-4">
+            <div>
+              <nav className="text-sm text-gray-500 mb-2">
+                <span>Home / Inventory / Inventory Counts</span>
+              </nav>
+              <h1 className="text-2xl font-bold text-gray-900">Inventory Counts</h1>
+            </div>
+
+            <Button onClick={openNewCount} className="w-full">
+              <Plus className="w-4 h-4 mr-2" />
+              New Count
+            </Button>
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading counts...</p>
+            ) : counts.length === 0 ? (
+              <p className="text-sm text-gray-500">No counts yet.</p>
+            ) : (
+              <div className="space-y-1">
+                {counts.map(entry => (
+                  <div
+                    key={entry.id}
+                    className={`p-3 rounded-md cursor-pointer ${
+                      entry.id === selectedCountId ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50'
+                    }`}
+                    onClick={() => setSelectedCountId(entry.id)}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">Count #{entry.id}</span>
+                      <Badge className={STATUS_STYLES[entry.status]}>{entry.status}</Badge>
+                    </div>
+                    <div className="text-sm text-gray-600 truncate">{entry.locationNames.join(", ")}</div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(entry.createdAt).toLocaleDateString()} • {entry.countedLineCount}/{entry.lineCount} counted
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Count Detail */}
+        <div className="flex-1 p-6 overflow-auto">
+          {!count ? (
+            <div className="flex flex-col items-center justify-center h-64 text-gray-500">
+              <ClipboardList className="w-12 h-12 text-gray-400 mb-4" />
+              <p>Select a count, or start a new one.</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">Count #{count.id}</h2>
+                  <p className="text-sm text-gray-600">
+                    {count.locationNames.join(", ")} • started by {count.createdByUsername} on {new Date(count.createdAt).toLocaleString()}
+                  </p>
+                  {count.postedAt && (
+                    <p className="text-sm text-gray-600">
+                      Posted by {count.postedByUsername} on {new Date(count.postedAt).toLocaleString()}
+                    </p>
+                  )}
+                  {count.note && <p className="text-sm text-gray-500 mt-1">{count.note}</p>}
+                </div>
+                {isOpen && (
+                  <div className="flex items-center space-x-2">
+                    <Button onClick={handleSaveCounts} disabled={Object.keys(entries).length === 0 || saveCountsMutation.isPending}>
+                      <Save className="w-4 h-4 mr-2" />
+                      {saveCountsMutation.isPending ? "Saving..." : "Save Counts"}
+                    </Button>
+                    {isAdmin && (
+                      <Button variant="outline" onClick={handlePostCount} disabled={postCountMutation.isPending}>
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Post
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={handleCancelCount} disabled={cancelCountMutation.isPending}>
+                      <XCircle className="w-4 h-4 mr-2" />
+                      Cancel Count
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline">Lines: {count.lineCount}</Badge>
+                <Badge variant="outline">Counted: {count.countedLineCount}</Badge>
+                <Badge variant="outline" className={linesWithVariance.length > 0 ? "bg-amber-50 text-amber-700 border-amber-200" : ""}>
+                  With variance: {linesWithVariance.length}
+                </Badge>
+                {countLocations.length > 1 && (
+                  <Select value={locationFilter} onValueChange={setLocationFilter}>
+                    <SelectTrigger className="w-48 ml-auto">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All locations</SelectItem>
+                      {countLocations.map(location => (
+                        <SelectItem key={location.id} value={location.id.toString()}>{location.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              <Card>
+                <CardContent className="p-0">
+                  {visibleLines.length === 0 ? (
+                    <p className="p-6 text-sm text-gray-500">Nothing to count here yet.</p>
+                  ) : (
+                    <table className="w-full">
+                      <thead>
+                        <tr className="text-left text-sm text-gray-500 border-b">
+                          <th className="px-4 py-3">Supply</th>
+                          <th className="px-4 py-3">Location</th>
+                          <th className="px-4 py-3 text-right">Expected</th>
+                          <th className="px-4 py-3 text-right">Counted</th>
+                          <th className="px-4 py-3 text-right">Variance</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {visibleLines.map(line => {
+                          const entry = entries[line.id];
+                          const counted = entry !== undefined
+                            ? (entry.trim() === "" ? null : parseInt(entry))
+                            : line.countedQuantity;
+                          const variance = counted === null || isNaN(counted) ? null : counted - line.expectedQuantity;
+                          return (
+                            <tr key={line.id} className="border-b border-gray-100 last:border-b-0">
+                              <td className="px-4 py-3">
+                                <div className="font-medium">{line.supplyName}</div>
+                                <div className="text-xs text-gray-500">
+                                  {line.pieceSize}
+                                  {line.countedByUsername && ` • counted by ${line.countedByUsername}`}
+                                </div>
+                              </td>
+                              <td className="px-4 py-3 text-sm">{line.locationName}</td>
+                              <td className="px-4 py-3 text-right">{line.expectedQuantity}</td>
+                              <td className="px-4 py-3 text-right">
+                                {isOpen ? (
+                                  <Input
+                                    type="number"
+                                    inputMode="numeric"
+                                    min="0"
+                                    className="h-12 w-28 ml-auto text-lg text-right"
+                                    value={entry ?? line.countedQuantity?.toString() ?? ""}
+                                    onChange={(e) => setEntries(prev => ({ ...prev, [line.id]: e.target.value }))}
+                                  />
+                                ) : (
+                                  line.countedQuantity ?? "—"
+                                )}
+                              </td>
+                              <td className={`px-4 py-3 text-right font-medium ${
+                                variance === null || variance === 0 ? 'text-gray-400' : variance > 0 ? 'text-green-600' : 'text-red-600'
+                              }`}>
+                                {variance === null ? "—" : `${variance > 0 ? '+' : ''}${variance}`}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                </CardContent>
+              </Card>
+
+              {isOpen && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Found Something Else?</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-end gap-3">
+                      <div className="flex-1">
+                        <Label>Supply</Label>
+                        <Select value={addLine.supplyId} onValueChange={(value) => setAddLine(prev => ({ ...prev, supplyId: value }))}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select supply" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {supplies.map(supply => (
+                              <SelectItem key={supply.id} value={supply.id.toString()}>{supply.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="w-56">
+                        <Label>Location</Label>
+                        <Select value={addLine.locationId} onValueChange={(value) => setAddLine(prev => ({ ...prev, locationId: value }))}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select location" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {countLocations.map(location => (
+                              <SelectItem key={location.id} value={location.id.toString()}>{location.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Button variant="outline" onClick={handleAddLine} disabled={addLineMutation.isPending}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Line
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* New Count Dialog */}
+      <Dialog open={newCountOpen} onOpenChange={setNewCountOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Inventory Count</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Locations to count</Label>
+              <div className="mt-2 space-y-2 max-h-64 overflow-auto">
+                {locations.filter(location => location.active).map(location => (
+                  <label key={location.id} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={newCountLocationIds.includes(location.id)}
+                      onCheckedChange={(checked) => setNewCountLocationIds(prev => checked === true
+                        ? [...prev, location.id]
+                        : prev.filter(id => id !== location.id))}
+                    />
+                    <span>{location.name}</span>
+                    <span className="text-gray-400">({location.itemCount} items)</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="countNote">Note</Label>
+              <Input
+                id="countNote"
+                value={newCountNote}
+                onChange={(e) => setNewCountNote(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setNewCountOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreateCount} disabled={createCountMutation.isPending}>
+                {createCountMutation.isPending ? "Starting..." : "Start Count"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
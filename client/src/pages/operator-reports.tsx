@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useAuth } from "@/lib/auth";
+import Layout from "@/components/layout";
+import type { OperatorProductivity } from "@shared/schema";
+
+const chartConfig: ChartConfig = {
+  sheetsCut: { label: "Sheets cut", color: "#16a34a" },
+  recutSheetsCut: { label: "Recut sheets cut", color: "#ea580c" },
+  skips: { label: "Skips", color: "#dc2626" },
+};
+
+// yyyy-mm-dd for date inputs
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatSeconds = (seconds: number | null) => {
+  if (seconds === null) return "—";
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+export default function OperatorReports() {
+  const [currentTime] = useState(new Date());
+  const [fromDate, setFromDate] = useState(() => toDateInput(new Date(Date.now() - 6 * 24 * 60 * 60 * 1000)));
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin' || user?.role === 'super_admin';
+
+  const params = new URLSearchParams();
+  if (fromDate) params.set("fromDate", fromDate);
+  if (toDate) params.set("toDate", toDate);
+
+  const { data: operators = [], isLoading } = useQuery<OperatorProductivity[]>({
+    queryKey: [`/api/reports/operators?${params}`],
+    enabled: isAdmin,
+    staleTime: 0,
+  });
+
+  const chartData = operators.map(operator => ({
+    name: operator.username || "Unknown",
+    sheetsCut: operator.sheetsCut,
+    recutSheetsCut: operator.recutSheetsCut,
+    skips: operator.skips,
+  }));
+
+  return (
+    <Layout currentTime={currentTime}>
+      <div className="p-6 space-y-6 bg-gray-50">
+        <div>
+          <nav className="text-sm text-gray-500 mb-2">
+            <span>Home / Reports / Operators</span>
+          </nav>
+          <h1 className="text-2xl font-bold text-gray-900">Operator Report</h1>
+        </div>
+
+        {!isAdmin ? (
+          <p className="text-sm text-gray-500">Only admins can view operator reports.</p>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="p-4">
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+                  <div>
+                    <Label htmlFor="operatorFromDate">From</Label>
+                    <Input id="operatorFromDate" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+                  </div>
+                  <div>
+                    <Label htmlFor="operatorToDate">To</Label>
+                    <Input id="operatorToDate" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading report...</p>
+            ) : operators.length === 0 ? (
+              <p className="text-sm text-gray-500">No sheets were cut or skipped in this period.</p>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Sheets per Operator</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                      <BarChart data={chartData}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="sheetsCut" stackId="sheets" fill="var(--color-sheetsCut)" />
+                        <Bar dataKey="recutSheetsCut" stackId="sheets" fill="var(--color-recutSheetsCut)" />
+                        <Bar dataKey="skips" stackId="sheets" fill="var(--color-skips)" />
+                      </BarChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardContent className="p-0">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b">
+                          <th className="px-4 py-2">Operator</th>
+                          <th className="px-4 py-2 text-right">Sheets Cut</th>
+                          <th className="px-4 py-2 text-right">Recut Sheets Cut</th>
+                          <th className="px-4 py-2 text-right">Skips</th>
+                          <th className="px-4 py-2 text-right" title="Recuts charged to the operator who last cut the material before the recut was logged">
+                            Recuts Caused
+                          </th>
+                          <th className="px-4 py-2 text-right" title="Breaks of over 30 minutes are left out">
+                            Avg Time Between Cuts
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {operators.map(operator => (
+                          <tr key={operator.userId ?? "unknown"} className="border-b border-gray-100 last:border-b-0">
+                            <td className="px-4 py-2 font-medium">{operator.username || "Unknown"}</td>
+                            <td className="px-4 py-2 text-right">{operator.sheetsCut}</td>
+                            <td className="px-4 py-2 text-right">{operator.recutSheetsCut}</td>
+                            <td className="px-4 py-2 text-right">{operator.skips}</td>
+                            <td className="px-4 py-2 text-right">
+                              {operator.recutsCaused > 0
+                                ? `${operator.recutsCaused} (${operator.recutSheetsCaused} sheets)`
+                                : 0}
+                            </td>
+                            <td className="px-4 py-2 text-right">{formatSeconds(operator.avgSecondsBetweenCuts)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -1,14 +1,19 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { FileText, Calendar, Plus, Search, Filter } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FileText, Calendar, Plus, Search, Filter, PackageCheck, Send, Ban, Pencil, Trash2, History, BarChart3 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import Layout from "@/components/layout";
+import PurchaseAnalytics from "@/components/purchase-analytics";
 import { useLocation } from "wouter";
+import { purchaseOrderTransitions, receivableStatuses, type PurchaseOrderStatus, type PurchaseOrderStatusHistoryEntry } from "@shared/schema";
+import { formatCurrency } from "@/lib/utils";
 
 interface PurchaseOrder {
   id: number;
@@ -36,6 +41,7 @@ interface PurchaseOrderItem {
   quantity: number;
   pricePerUnit: number;
   totalPrice: number;
+  receivedQuantity: number;
   createdAt: string;
   supply: {
     id: number;
@@ -55,7 +61,17 @@ export default function PurchaseOrders() {
   const [toDate, setToDate] = useState("");
   const [statusFilter, setStatusFilter] = useState("");
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  // Quantities arriving in this delivery, keyed by line id
+  const [receiveQuantities, setReceiveQuantities] = useState<Record<number, string>>({});
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  // Draft lines being edited; prices are in dollars while editing
+  const [editLines, setEditLines] = useState<{ item: PurchaseOrderItem; quantity: string; price: string }[]>([]);
+  const [editComments, setEditComments] = useState("");
+  const [historyOrder, setHistoryOrder] = useState<PurchaseOrder | null>(null);
+  const [showAnalytics, setShowAnalytics] = useState(false);
 
   // Fetch purchase orders
   const { data: purchaseOrders = [], isLoading } = useQuery({
@@ -71,25 +87,148 @@ export default function PurchaseOrders() {
     }
   });
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount / 100); // Convert from cents
+  const receiveMutation = useMutation({
+    mutationFn: ({ id, items }: { id: number; items: { itemId: number; quantity: number }[] }) =>
+      apiRequest('PUT', `/api/purchase-orders/${id}/receive`, { items }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["supplies"] });
+      queryClient.invalidateQueries({ queryKey: ['/api/supplies'] });
+      setReceivingOrder(null);
+      toast({ title: "Success", description: "Stock received" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to receive purchase order", variant: "destructive" });
+    },
+  });
+
+  const { data: statusHistory = [], isLoading: historyLoading } = useQuery<PurchaseOrderStatusHistoryEntry[]>({
+    queryKey: [`/api/purchase-orders/${historyOrder?.id}/history`],
+    enabled: !!historyOrder,
+    staleTime: 0,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: number; status: PurchaseOrderStatus }) =>
+      apiRequest('POST', `/api/purchase-orders/${id}/status`, { status }),
+    onSuccess: (_data, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      toast({ title: "Success", description: status === 'ordered' ? "Purchase order marked as ordered" : "Purchase order cancelled" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update purchase order", variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: { additionalComments: string | null; items: { supplyId: number; vendorId: number; quantity: number; pricePerUnit: number }[] } }) =>
+      apiRequest('PUT', `/api/purchase-orders/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      setEditingOrder(null);
+      toast({ title: "Success", description: "Purchase order updated" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update purchase order", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/purchase-orders/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      toast({ title: "Success", description: "Purchase order deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete purchase order", variant: "destructive" });
+    },
+  });
+
+  const canTransition = (po: PurchaseOrder, status: PurchaseOrderStatus) =>
+    purchaseOrderTransitions[po.status as PurchaseOrderStatus]?.includes(status) ?? false;
+
+  const handleCancel = (po: PurchaseOrder) => {
+    if (confirm(`Cancel ${po.poNumber}? A cancelled order cannot be reopened.`)) {
+      statusMutation.mutate({ id: po.id, status: 'cancelled' });
+    }
+  };
+
+  const handleDelete = (po: PurchaseOrder) => {
+    if (confirm(`Delete draft ${po.poNumber}? This action cannot be undone.`)) {
+      deleteMutation.mutate(po.id);
+    }
+  };
+
+  const openEditDialog = (po: PurchaseOrder) => {
+    setEditLines(po.items.map(item => ({
+      item,
+      quantity: String(item.quantity),
+      price: (item.pricePerUnit / 100).toFixed(2),
+    })));
+    setEditComments(po.additionalComments || "");
+    setEditingOrder(po);
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingOrder) return;
+    updateMutation.mutate({
+      id: editingOrder.id,
+      data: {
+        additionalComments: editComments || null,
+        items: editLines.map(line => ({
+          supplyId: line.item.supplyId,
+          vendorId: line.item.vendorId,
+          quantity: parseInt(line.quantity) || 0,
+          pricePerUnit: Math.round((parseFloat(line.price) || 0) * 100),
+        })),
+      },
+    });
+  };
+
+  const openReceiveDialog = (po: PurchaseOrder) => {
+    // Default every line to whatever is still outstanding
+    setReceiveQuantities(Object.fromEntries(
+      po.items.map(item => [item.id, String(item.quantity - item.receivedQuantity)])
+    ));
+    setReceivingOrder(po);
+  };
+
+  const handleReceive = () => {
+    if (!receivingOrder) return;
+    receiveMutation.mutate({
+      id: receivingOrder.id,
+      items: receivingOrder.items.map(item => ({
+        itemId: item.id,
+        quantity: parseInt(receiveQuantities[item.id]) || 0,
+      })),
+    });
+  };
+
+  const formatStatus = (status: string) => {
+    const label = status.replace(/_/g, ' ');
+    return label.charAt(0).toUpperCase() + label.slice(1);
   };
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString();
   };
 
+  const formatDateTime = (dateString: string | Date) => {
+    return new Date(dateString).toLocaleString();
+  };
+
   const getStatusBadgeColor = (status: string) => {
     switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
+      case 'draft':
+        return 'bg-gray-100 text-gray-800';
       case 'ordered':
         return 'bg-blue-100 text-blue-800';
+      case 'partially_received':
+        return 'bg-purple-100 text-purple-800';
       case 'received':
         return 'bg-green-100 text-green-800';
+      case 'cancelled':
+        return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -165,9 +304,11 @@ export default function PurchaseOrders() {
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="">All Statuses</option>
-                  <option value="pending">Pending</option>
+                  <option value="draft">Draft</option>
                   <option value="ordered">Ordered</option>
+                  <option value="partially_received">Partially Received</option>
                   <option value="received">Received</option>
+                  <option value="cancelled">Cancelled</option>
                 </select>
               </div>
 
@@ -195,12 +336,18 @@ export default function PurchaseOrders() {
                   Manage and track purchase orders
                 </p>
               </div>
+              <Button variant={showAnalytics ? "default" : "outline"} onClick={() => setShowAnalytics(!showAnalytics)}>
+                <BarChart3 className="w-4 h-4 mr-2" />
+                {showAnalytics ? "Show Orders" : "Prices & Spend"}
+              </Button>
             </div>
           </div>
 
           {/* Purchase Orders List */}
           <div className="flex-1 overflow-auto p-6">
-            {isLoading ? (
+            {showAnalytics ? (
+              <PurchaseAnalytics fromDate={fromDate} toDate={toDate} />
+            ) : isLoading ? (
               <div className="text-center py-12">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
                 <p className="mt-2 text-gray-500">Loading purchase orders...</p>
@@ -225,14 +372,51 @@ export default function PurchaseOrders() {
                             </p>
                           </div>
                           <Badge className={getStatusBadgeColor(po.status)}>
-                            {po.status.charAt(0).toUpperCase() + po.status.slice(1)}
+                            {formatStatus(po.status)}
                           </Badge>
                         </div>
-                        <div className="text-right">
-                          <p className="text-lg font-semibold">{formatCurrency(po.totalAmount)}</p>
-                          <p className="text-sm text-gray-500">
-                            {formatDate(po.dateOrdered)}
-                          </p>
+                        <div className="flex items-center space-x-4">
+                          {po.status === 'draft' && (
+                            <>
+                              <Button variant="outline" size="sm" onClick={() => openEditDialog(po)}>
+                                <Pencil className="w-4 h-4 mr-2" />
+                                Edit
+                              </Button>
+                              <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleDelete(po)} disabled={deleteMutation.isPending}>
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
+                          {canTransition(po, 'ordered') && (
+                            <Button variant="outline" size="sm" onClick={() => statusMutation.mutate({ id: po.id, status: 'ordered' })} disabled={statusMutation.isPending}>
+                              <Send className="w-4 h-4 mr-2" />
+                              Mark Ordered
+                            </Button>
+                          )}
+                          {receivableStatuses.includes(po.status) && (
+                            <Button variant="outline" size="sm" onClick={() => openReceiveDialog(po)}>
+                              <PackageCheck className="w-4 h-4 mr-2" />
+                              Receive
+                            </Button>
+                          )}
+                          {canTransition(po, 'cancelled') && (
+                            <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleCancel(po)} disabled={statusMutation.isPending}>
+                              <Ban className="w-4 h-4 mr-2" />
+                              Cancel
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="sm" onClick={() => window.open(`/api/purchase-orders/${po.id}/pdf`, '_blank')} title="Print PDF">
+                            <FileText className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setHistoryOrder(po)} title="Status history">
+                            <History className="w-4 h-4" />
+                          </Button>
+                          <div className="text-right">
+                            <p className="text-lg font-semibold">{formatCurrency(po.totalAmount)}</p>
+                            <p className="text-sm text-gray-500">
+                              {formatDate(po.dateOrdered)}
+                            </p>
+                          </div>
                         </div>
                       </div>
                     </CardHeader>
@@ -244,6 +428,7 @@ export default function PurchaseOrders() {
                               <p className="font-medium">{item.supply.name}</p>
                               <p className="text-sm text-gray-500">
                                 Vendor: {item.vendor.name} • Qty: {item.quantity} • 
+                                Received: {item.receivedQuantity} • 
                                 Price: {formatCurrency(item.pricePerUnit)}/unit
                               </p>
                             </div>
@@ -271,6 +456,150 @@ export default function PurchaseOrders() {
           </div>
         </div>
       </div>
+
+      {/* Edit Draft Dialog */}
+      <Dialog open={!!editingOrder} onOpenChange={(open) => !open && setEditingOrder(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit {editingOrder?.poNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            {editLines.map((line, index) => (
+              <div key={line.item.id} className="flex items-end space-x-3">
+                <div className="flex-1">
+                  <p className="font-medium">{line.item.supply.name}</p>
+                  <p className="text-sm text-gray-500">Vendor: {line.item.vendor.name}</p>
+                </div>
+                <div className="w-24">
+                  <Label>Qty</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={line.quantity}
+                    onChange={(e) => setEditLines(prev => prev.map((l, i) => i === index ? { ...l, quantity: e.target.value } : l))}
+                  />
+                </div>
+                <div className="w-28">
+                  <Label>Price ($)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.price}
+                    onChange={(e) => setEditLines(prev => prev.map((l, i) => i === index ? { ...l, price: e.target.value } : l))}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-500 hover:text-red-700"
+                  onClick={() => setEditLines(prev => prev.filter((_, i) => i !== index))}
+                  disabled={editLines.length === 1}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <div>
+              <Label htmlFor="editComments">Comments</Label>
+              <Input
+                id="editComments"
+                value={editComments}
+                onChange={(e) => setEditComments(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button variant="outline" onClick={() => setEditingOrder(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveEdit} disabled={updateMutation.isPending}>
+              {updateMutation.isPending ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Status History Dialog */}
+      <Dialog open={!!historyOrder} onOpenChange={(open) => !open && setHistoryOrder(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Status History - {historyOrder?.poNumber}</DialogTitle>
+          </DialogHeader>
+          {historyLoading ? (
+            <p className="text-sm text-gray-500">Loading history...</p>
+          ) : statusHistory.length === 0 ? (
+            <p className="text-sm text-gray-500">No status changes recorded.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">When</th>
+                  <th className="py-2">Change</th>
+                  <th className="py-2">By</th>
+                  <th className="py-2">Note</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statusHistory.map((entry) => (
+                  <tr key={entry.id} className="border-b border-gray-100 last:border-b-0">
+                    <td className="py-2 whitespace-nowrap">{formatDateTime(entry.changedAt)}</td>
+                    <td className="py-2">
+                      {entry.fromStatus ? `${formatStatus(entry.fromStatus)} → ` : ""}{formatStatus(entry.toStatus)}
+                    </td>
+                    <td className="py-2">{entry.changedByUsername || "—"}</td>
+                    <td className="py-2 text-gray-500">{entry.note}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Receive Dialog */}
+      <Dialog open={!!receivingOrder} onOpenChange={(open) => !open && setReceivingOrder(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Receive {receivingOrder?.poNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <p className="text-sm text-gray-500">
+              Enter the quantity that arrived for each line. Lines left short stay open for a later delivery.
+            </p>
+            {receivingOrder?.items.map((item) => {
+              const outstanding = item.quantity - item.receivedQuantity;
+              return (
+                <div key={item.id} className="flex items-center justify-between space-x-4">
+                  <div className="flex-1">
+                    <p className="font-medium">{item.supply.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {item.receivedQuantity} of {item.quantity} received • {outstanding} outstanding
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={outstanding}
+                    className="w-24"
+                    value={receiveQuantities[item.id] ?? ""}
+                    onChange={(e) => setReceiveQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                    disabled={outstanding === 0}
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button variant="outline" onClick={() => setReceivingOrder(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleReceive} disabled={receiveMutation.isPending}>
+              {receiveMutation.isPending ? "Receiving..." : "Receive Stock"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </Layout>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useAuth } from "@/lib/auth";
+import Layout from "@/components/layout";
+import type { RecutReport, RecutReportRow } from "@shared/schema";
+import { formatCurrency } from "@/lib/utils";
+
+const REASON_COLORS = ["#dc2626", "#ea580c", "#ca8a04", "#2563eb", "#9333ea", "#0891b2", "#16a34a", "#db2777"];
+
+// yyyy-mm-dd for date inputs
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+// Cost of a row, noting sheets that could not be priced
+const formatCost = (row: Pick<RecutReportRow, 'cost' | 'unpricedSheets'>) =>
+  row.unpricedSheets > 0 ? `${formatCurrency(row.cost)} + ${row.unpricedSheets} unpriced` : formatCurrency(row.cost);
+
+function BreakdownTable({ title, rows }: { title: string; rows: RecutReportRow[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="px-4 py-2">{title.replace('By ', '')}</th>
+              <th className="px-4 py-2 text-right">Recuts</th>
+              <th className="px-4 py-2 text-right">Sheets</th>
+              <th className="px-4 py-2 text-right">Material Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.id ?? "none"} className="border-b border-gray-100 last:border-b-0">
+                <td className="px-4 py-2">{row.label}</td>
+                <td className="px-4 py-2 text-right">{row.recuts}</td>
+                <td className="px-4 py-2 text-right">{row.sheets}</td>
+                <td className="px-4 py-2 text-right">{formatCost(row)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function RecutReports() {
+  const [currentTime] = useState(new Date());
+  const [fromDate, setFromDate] = useState(() => toDateInput(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000)));
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin' || user?.role === 'super_admin';
+
+  const params = new URLSearchParams();
+  if (fromDate) params.set("fromDate", fromDate);
+  if (toDate) params.set("toDate", toDate);
+
+  const { data: report, isLoading } = useQuery<RecutReport>({
+    queryKey: [`/api/reports/recuts?${params}`],
+    enabled: isAdmin,
+    staleTime: 0,
+  });
+
+  // Chart series are keyed by reason so each reason keeps its colour
+  const reasons = report?.byReason ?? [];
+  const chartConfig: ChartConfig = Object.fromEntries(reasons.map((reason, index) => [
+    `reason${reason.id ?? "none"}`,
+    { label: reason.label, color: REASON_COLORS[index % REASON_COLORS.length] },
+  ]));
+
+  // One bar per day, stacked by reason
+  const sheetsByDay: Record<string, string | number>[] = [];
+  for (const point of report?.overTime ?? []) {
+    let row = sheetsByDay.find(r => r.date === point.date);
+    if (!row) {
+      row = { date: point.date };
+      sheetsByDay.push(row);
+    }
+    row[`reason${point.reasonId ?? "none"}`] = point.sheets;
+  }
+
+  return (
+    <Layout currentTime={currentTime}>
+      <div className="p-6 space-y-6 bg-gray-50">
+        <div>
+          <nav className="text-sm text-gray-500 mb-2">
+            <span>Home / Reports / Recuts</span>
+          </nav>
+          <h1 className="text-2xl font-bold text-gray-900">Recut Report</h1>
+        </div>
+
+        {!isAdmin ? (
+          <p className="text-sm text-gray-500">Only admins can view recut reports.</p>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="p-4">
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+                  <div>
+                    <Label htmlFor="recutFromDate">From</Label>
+                    <Input id="recutFromDate" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+                  </div>
+                  <div>
+                    <Label htmlFor="recutToDate">To</Label>
+                    <Input id="recutToDate" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading report...</p>
+            ) : !report || report.totals.recuts === 0 ? (
+              <p className="text-sm text-gray-500">No recuts were logged in this period.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <Card>
+                    <CardContent className="p-4">
+                      <div className="text-sm text-gray-600">Recuts</div>
+                      <div className="text-2xl font-bold">{report.totals.recuts}</div>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="p-4">
+                      <div className="text-sm text-gray-600">Sheets Recut</div>
+                      <div className="text-2xl font-bold">{report.totals.sheets}</div>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="p-4">
+                      <div className="text-sm text-gray-600">Material Cost</div>
+                      <div className="text-2xl font-bold">{formatCurrency(report.totals.cost)}</div>
+                      {report.totals.unpricedSheets > 0 && (
+                        <div className="text-xs text-gray-500">
+                          {report.totals.unpricedSheets} sheets have no supply price and are not included
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </div>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Recut Sheets per Day</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                      <BarChart data={sheetsByDay}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        {reasons.map(reason => (
+                          <Bar
+                            key={reason.id ?? "none"}
+                            dataKey={`reason${reason.id ?? "none"}`}
+                            stackId="sheets"
+                            fill={`var(--color-reason${reason.id ?? "none"})`}
+                          />
+                        ))}
+                      </BarChart>
+                    </ChartContainer>
+                  </CardContent>
+                </Card>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <BreakdownTable title="By Reason" rows={report.byReason} />
+                  <BreakdownTable title="By Operator" rows={report.byOperator} />
+                  <BreakdownTable title="By Material" rows={report.byMaterial} />
+                  <BreakdownTable title="By Job" rows={report.byJob} />
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
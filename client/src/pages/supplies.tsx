@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Package, Search, Plus, Edit, Trash2, Upload, X, Save, AlertTriangle } from "lucide-react";
+import { Package, Search, Plus, Edit, Trash2, Upload, X, Save, AlertTriangle, ArrowRightLeft, History, QrCode } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,9 +9,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import Layout from "@/components/layout";
 import { TextureSwatch } from "@/components/ui/texture-swatch";
+import SupplyLedger from "@/components/supply-ledger";
 
 interface Supply {
   id: number;
@@ -22,6 +24,8 @@ interface Supply {
   available: number;
   allocated: number;
   used: number;
+  minimumQuantity: number;
+  reorderQuantity: number;
   location: {
     id: number;
     name: string;
@@ -37,19 +41,35 @@ interface Supply {
 interface Location {
   id: number;
   name: string;
+  active: boolean;
 }
 
+interface SupplyStock {
+  id: number;
+  supplyId: number;
+  locationId: number;
+  locationName: string;
+  quantity: number;
+}
+
+// Transfers from stock not yet placed at any location use this in place of a location id
+const UNASSIGNED = "unassigned";
+
 
 
 export default function Supplies() {
   const [currentTime] = useState(new Date());
   const [searchTerm, setSearchTerm] = useState("");
+  const [activeTab, setActiveTab] = useState("supplies");
+  const [ledgerSupplyId, setLedgerSupplyId] = useState("all");
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [editingSupply, setEditingSupply] = useState<Supply | null>(null);
   const [supplyToDelete, setSupplyToDelete] = useState<Supply | null>(null);
   const [showLocationDialog, setShowLocationDialog] = useState(false);
   const [newLocationName, setNewLocationName] = useState("");
+  const [transferSupply, setTransferSupply] = useState<Supply | null>(null);
+  const [transferForm, setTransferForm] = useState({ fromLocationId: "", toLocationId: "", quantity: "", note: "" });
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -59,6 +79,8 @@ export default function Supplies() {
     hexColor: "#000000",
     pieceSize: "sheet",
     quantityOnHand: 0,
+    minimumQuantity: 0,
+    reorderQuantity: 0,
     locationId: undefined as number | undefined,
     defaultVendor: "",
     defaultVendorPrice: undefined as number | undefined,
@@ -71,6 +93,8 @@ export default function Supplies() {
     hexColor: "#000000",
     pieceSize: "sheet",
     quantityOnHand: 0,
+    minimumQuantity: 0,
+    reorderQuantity: 0,
     locationId: undefined as number | undefined,
     defaultVendor: "",
     defaultVendorPrice: undefined as number | undefined,
@@ -98,6 +122,16 @@ export default function Supplies() {
     }
   });
 
+  // Fetch stock held at each location
+  const { data: stock = [] } = useQuery<SupplyStock[]>({
+    queryKey: ["supply-stock"],
+    queryFn: async () => {
+      const response = await fetch("/api/supplies/stock");
+      if (!response.ok) throw new Error("Failed to fetch supply stock");
+      return response.json();
+    }
+  });
+
   // Fetch vendors - temporarily disabled to fix blue screen
   const { data: vendors = [], isLoading: vendorsLoading, error: vendorsError } = useQuery({
     queryKey: ["vendors"],
@@ -132,6 +166,7 @@ export default function Supplies() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["supplies"] });
+      queryClient.invalidateQueries({ queryKey: ["supply-stock"] });
       setShowAddDialog(false);
       resetSupplyForm();
       toast({
@@ -161,6 +196,7 @@ export default function Supplies() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["supplies"] });
+      queryClient.invalidateQueries({ queryKey: ["supply-stock"] });
       setShowEditDialog(false);
       setEditingSupply(null);
       resetEditSupplyForm();
@@ -189,6 +225,7 @@ export default function Supplies() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["supplies"] });
+      queryClient.invalidateQueries({ queryKey: ["supply-stock"] });
       setSupplyToDelete(null);
       toast({
         title: "Success",
@@ -204,6 +241,39 @@ export default function Supplies() {
     }
   });
 
+  // Transfer stock between locations mutation
+  const transferStockMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: any }) => {
+      const response = await fetch(`/api/supplies/${id}/transfer`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data)
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to transfer stock");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["supply-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["locations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      setTransferSupply(null);
+      toast({
+        title: "Success",
+        description: "Stock transferred successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
   // Create location mutation
   const createLocationMutation = useMutation({
     mutationFn: async (name: string) => {
@@ -269,6 +339,8 @@ export default function Supplies() {
       hexColor: "#000000",
       pieceSize: "sheet",
       quantityOnHand: 0,
+      minimumQuantity: 0,
+      reorderQuantity: 0,
       locationId: undefined,
       defaultVendor: "",
       defaultVendorPrice: undefined,
@@ -282,6 +354,8 @@ export default function Supplies() {
       hexColor: "#000000",
       pieceSize: "sheet",
       quantityOnHand: 0,
+      minimumQuantity: 0,
+      reorderQuantity: 0,
       locationId: undefined,
       defaultVendor: "",
       defaultVendorPrice: undefined,
@@ -327,6 +401,47 @@ export default function Supplies() {
     }
   };
 
+  // Per-location quantities for a supply, plus whatever is on hand but not yet placed anywhere
+  const getStockBreakdown = (supply: Supply) => {
+    const rows = stock.filter(row => row.supplyId === supply.id);
+    const placed = rows.reduce((sum, row) => sum + row.quantity, 0);
+    return { rows, unassigned: Math.max(0, supply.quantityOnHand - placed) };
+  };
+
+  const openTransferDialog = (supply: Supply) => {
+    const { rows } = getStockBreakdown(supply);
+    setTransferForm({
+      fromLocationId: rows[0] ? rows[0].locationId.toString() : UNASSIGNED,
+      toLocationId: "",
+      quantity: "",
+      note: ""
+    });
+    setTransferSupply(supply);
+  };
+
+  const handleTransfer = () => {
+    if (!transferSupply) return;
+    const quantity = parseInt(transferForm.quantity);
+    if (!transferForm.toLocationId || !quantity || quantity < 1) {
+      toast({
+        title: "Error",
+        description: "Choose a destination and a quantity of at least 1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    transferStockMutation.mutate({
+      id: transferSupply.id,
+      data: {
+        fromLocationId: transferForm.fromLocationId === UNASSIGNED ? null : parseInt(transferForm.fromLocationId),
+        toLocationId: parseInt(transferForm.toLocationId),
+        quantity,
+        note: transferForm.note || undefined
+      }
+    });
+  };
+
   const openEditDialog = (supply: Supply) => {
     setEditingSupply(supply);
     setEditSupplyForm({
@@ -334,6 +449,8 @@ export default function Supplies() {
       hexColor: supply.hexColor,
       pieceSize: supply.pieceSize,
       quantityOnHand: supply.quantityOnHand,
+      minimumQuantity: supply.minimumQuantity,
+      reorderQuantity: supply.reorderQuantity,
       locationId: supply.location?.id,
       defaultVendor: supply.defaultVendor || "",
       defaultVendorPrice: supply.defaultVendorPrice,
@@ -430,6 +547,29 @@ export default function Supplies() {
                         />
                       </div>
 
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="minimumQuantity">Minimum Quantity</Label>
+                          <Input
+                            id="minimumQuantity"
+                            type="number"
+                            min="0"
+                            value={supplyForm.minimumQuantity}
+                            onChange={(e) => setSupplyForm(prev => ({ ...prev, minimumQuantity: parseInt(e.target.value) || 0 }))}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="reorderQuantity">Reorder Quantity</Label>
+                          <Input
+                            id="reorderQuantity"
+                            type="number"
+                            min="0"
+                            value={supplyForm.reorderQuantity}
+                            onChange={(e) => setSupplyForm(prev => ({ ...prev, reorderQuantity: parseInt(e.target.value) || 0 }))}
+                          />
+                        </div>
+                      </div>
+
                       <div>
                         <Label htmlFor="location">Location</Label>
                         <Select value={supplyForm.locationId?.toString() || ""} onValueChange={(value) => setSupplyForm(prev => ({ ...prev, locationId: value ? parseInt(value) : undefined }))}>
@@ -437,7 +577,7 @@ export default function Supplies() {
                             <SelectValue placeholder="Select location" />
                           </SelectTrigger>
                           <SelectContent>
-                            {locations.map((location: Location) => (
+                            {locations.filter((location: Location) => location.active).map((location: Location) => (
                               <SelectItem key={location.id} value={location.id.toString()}>
                                 {location.name}
                               </SelectItem>
@@ -505,6 +645,15 @@ export default function Supplies() {
                   </DialogContent>
                 </Dialog>
 
+                <Button
+                  variant="outline"
+                  onClick={() => window.open(`/api/labels/supplies?ids=${filteredSupplies.map((supply: Supply) => supply.id).join(",")}`, '_blank')}
+                  disabled={filteredSupplies.length === 0}
+                >
+                  <QrCode className="w-4 h-4 mr-2" />
+                  Print Labels
+                </Button>
+
                 <Dialog open={showLocationDialog} onOpenChange={setShowLocationDialog}>
                   <DialogTrigger asChild>
                     <Button variant="outline">
@@ -541,25 +690,32 @@ export default function Supplies() {
             </div>
           </div>
 
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col overflow-hidden">
           {/* Search Bar */}
           <div className="bg-white border-b border-gray-200 px-6 py-4">
             <div className="flex items-center space-x-4">
-              <div className="flex-1">
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-                  <Input
-                    placeholder="Search supplies..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="pl-10"
-                  />
+              <TabsList>
+                <TabsTrigger value="supplies">Supplies</TabsTrigger>
+                <TabsTrigger value="ledger">Ledger</TabsTrigger>
+              </TabsList>
+              {activeTab === "supplies" && (
+                <div className="flex-1">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                    <Input
+                      placeholder="Search supplies..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           </div>
 
           {/* Supplies List */}
-          <div className="flex-1 overflow-auto p-6">
+          <TabsContent value="supplies" className="flex-1 overflow-auto p-6 mt-0">
             {suppliesLoading ? (
               <div className="flex items-center justify-center h-64">
                 <div className="text-gray-500">Loading supplies...</div>
@@ -583,16 +739,63 @@ export default function Supplies() {
                               <span>Piece Size: {supply.pieceSize}</span>
                               <span>Location: {supply.location?.name || "None"}</span>
                             </div>
+                            {(() => {
+                              const { rows, unassigned } = getStockBreakdown(supply);
+                              if (rows.length === 0) return null;
+                              return (
+                                <div className="flex flex-wrap items-center gap-x-3 text-xs text-gray-500 mt-1">
+                                  <span>By location:</span>
+                                  {rows.map(row => (
+                                    <span key={row.id}>{row.locationName} {row.quantity}</span>
+                                  ))}
+                                  {unassigned > 0 && <span>Unassigned {unassigned}</span>}
+                                </div>
+                              );
+                            })()}
                             <div className="flex items-center space-x-4 text-sm mt-1">
                               <Badge variant="outline">On Hand: {supply.quantityOnHand}</Badge>
-                              <Badge variant="outline">Available: {supply.available}</Badge>
+                              <Badge
+                                variant="outline"
+                                className={supply.available < 0 ? "bg-red-50 text-red-700 border-red-200" : ""}
+                                title={supply.available < 0 ? "More is allocated to jobs than is on hand" : undefined}
+                              >
+                                Available: {supply.available}
+                              </Badge>
                               <Badge variant="outline">Allocated: {supply.allocated}</Badge>
                               <Badge variant="outline">Used: {supply.used}</Badge>
+                              {supply.minimumQuantity > 0 && (
+                                <Badge
+                                  variant="outline"
+                                  className={supply.quantityOnHand - supply.allocated < supply.minimumQuantity ? "bg-red-50 text-red-700 border-red-200" : ""}
+                                >
+                                  Min: {supply.minimumQuantity}
+                                </Badge>
+                              )}
 
                             </div>
                           </div>
                         </div>
                         <div className="flex items-center space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Transfer stock"
+                            onClick={() => openTransferDialog(supply)}
+                            disabled={supply.quantityOnHand === 0}
+                          >
+                            <ArrowRightLeft className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Transaction history"
+                            onClick={() => {
+                              setLedgerSupplyId(supply.id.toString());
+                              setActiveTab("ledger");
+                            }}
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
                           <Button
                             variant="outline"
                             size="sm"
@@ -641,7 +844,13 @@ export default function Supplies() {
                 )}
               </div>
             )}
-          </div>
+          </TabsContent>
+
+          {/* Transaction Ledger */}
+          <TabsContent value="ledger" className="flex-1 overflow-auto p-6 mt-0">
+            <SupplyLedger supplies={supplies} supplyId={ledgerSupplyId} onSupplyIdChange={setLedgerSupplyId} />
+          </TabsContent>
+          </Tabs>
         </div>
       </div>
 
@@ -695,6 +904,29 @@ export default function Supplies() {
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="editMinimumQuantity">Minimum Quantity</Label>
+                <Input
+                  id="editMinimumQuantity"
+                  type="number"
+                  min="0"
+                  value={editSupplyForm.minimumQuantity}
+                  onChange={(e) => setEditSupplyForm(prev => ({ ...prev, minimumQuantity: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="editReorderQuantity">Reorder Quantity</Label>
+                <Input
+                  id="editReorderQuantity"
+                  type="number"
+                  min="0"
+                  value={editSupplyForm.reorderQuantity}
+                  onChange={(e) => setEditSupplyForm(prev => ({ ...prev, reorderQuantity: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+            </div>
+
             <div>
               <Label htmlFor="editLocation">Location</Label>
               <Select value={editSupplyForm.locationId?.toString() || ""} onValueChange={(value) => setEditSupplyForm(prev => ({ ...prev, locationId: value ? parseInt(value) : undefined }))}>
@@ -702,7 +934,7 @@ export default function Supplies() {
                   <SelectValue placeholder="Select location" />
                 </SelectTrigger>
                 <SelectContent>
-                  {locations.map((location: Location) => (
+                  {locations.filter((location: Location) => location.active || location.id === editSupplyForm.locationId).map((location: Location) => (
                     <SelectItem key={location.id} value={location.id.toString()}>
                       {location.name}
                     </SelectItem>
@@ -765,6 +997,84 @@ export default function Supplies() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Transfer Stock Dialog */}
+      <Dialog open={!!transferSupply} onOpenChange={(open) => !open && setTransferSupply(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Transfer {transferSupply?.name}</DialogTitle>
+          </DialogHeader>
+          {transferSupply && (() => {
+            const { rows, unassigned } = getStockBreakdown(transferSupply);
+            return (
+              <div className="space-y-4">
+                <div>
+                  <Label>From</Label>
+                  <Select value={transferForm.fromLocationId} onValueChange={(value) => setTransferForm(prev => ({ ...prev, fromLocationId: value }))}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rows.map(row => (
+                        <SelectItem key={row.locationId} value={row.locationId.toString()}>
+                          {row.locationName} ({row.quantity})
+                        </SelectItem>
+                      ))}
+                      {unassigned > 0 && (
+                        <SelectItem value={UNASSIGNED}>Unassigned ({unassigned})</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>To</Label>
+                  <Select value={transferForm.toLocationId} onValueChange={(value) => setTransferForm(prev => ({ ...prev, toLocationId: value }))}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations
+                        .filter((location: Location) => location.active && location.id.toString() !== transferForm.fromLocationId)
+                        .map((location: Location) => (
+                          <SelectItem key={location.id} value={location.id.toString()}>
+                            {location.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="transferQuantity">Quantity</Label>
+                  <Input
+                    id="transferQuantity"
+                    type="number"
+                    min="1"
+                    value={transferForm.quantity}
+                    onChange={(e) => setTransferForm(prev => ({ ...prev, quantity: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="transferNote">Note</Label>
+                  <Input
+                    id="transferNote"
+                    value={transferForm.note}
+                    onChange={(e) => setTransferForm(prev => ({ ...prev, note: e.target.value }))}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" onClick={() => setTransferSupply(null)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleTransfer} disabled={transferStockMutation.isPending}>
+                    {transferStockMutation.isPending ? "Transferring..." : "Transfer"}
+                  </Button>
+                </div>
+              </div>
+            );
+          })()}
+        </DialogContent>
+      </Dialog>
     </Layout>
   );
 } 
\ No newline at end of file
@@ -1,65 +1,149 @@
 import { useState } from "react";
-import { MapPin, Plus, Search, Trash2, Info } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { MapPin, Plus, Search, Trash2, Info, Pencil, ChevronLeft, ChevronRight, QrCode } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import Layout from "@/components/layout";
+import type { LocationWithItemCount } from "@shared/schema";
 
-interface SupplyLocation {
-  id: number;
-  name: string;
-  items: number;
-  active: boolean;
-}
-
-const mockLocations: SupplyLocation[] = [
-  { id: 1, name: "1 - Sheet Materials", items: 163, active: true },
-  { id: 2, name: "2 - Edgebandings", items: 10, active: true },
-  { id: 3, name: "3 - Hardwood Materials", items: 2, active: true },
-  { id: 4, name: "4 - Drawer Box Materials", items: 66, active: true },
-  { id: 5, name: "5 - Drawer Glides", items: 46, active: true },
-  { id: 6, name: "6 - Hinges / Plates / Handles", items: 7, active: true },
-  { id: 7, name: "7 - Accessories / Inserts", items: 23, active: true },
-  { id: 8, name: "8 - Other Inventory", items: 2, active: true },
-  { id: 9, name: "Bay 1", items: 0, active: true },
-  { id: 10, name: "Bay 2", items: 1, active: true },
-  { id: 11, name: "Bay 3", items: 1, active: true },
-  { id: 12, name: "Bay 4", items: 1, active: true },
-  { id: 13, name: "Bay 5", items: 1, active: true },
-  { id: 14, name: "Bay 6", items: 0, active: true },
-  { id: 15, name: "Bay 7", items: 0, active: true },
-  { id: 16, name: "Rack 1", items: 1, active: true },
-  { id: 17, name: "Rack 2", items: 4, active: true },
-  { id: 18, name: "Rack 3", items: 3, active: true },
-  { id: 19, name: "Shipping Goods", items: 0, active: true },
-];
+const emptyLocationForm = {
+  name: "",
+  description: "",
+};
 
 export default function SupplyLocations() {
   const [currentTime] = useState(new Date());
   const [searchTerm, setSearchTerm] = useState("");
   const [rowsPerPage, setRowsPerPage] = useState("25");
-  const [locations, setLocations] = useState(mockLocations);
+  const [page, setPage] = useState(0);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<LocationWithItemCount | null>(null);
+  const [locationForm, setLocationForm] = useState(emptyLocationForm);
+  const [deletingLocation, setDeletingLocation] = useState<LocationWithItemCount | null>(null);
+  const [reassignToLocationId, setReassignToLocationId] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
-  const filteredLocations = locations.filter(location =>
-    location.name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const { data: locations = [], isLoading } = useQuery<LocationWithItemCount[]>({
+    queryKey: ['/api/locations'],
+  });
+
+  const invalidateLocations = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/locations'] });
+    queryClient.invalidateQueries({ queryKey: ["locations"] });
+  };
+
+  const saveLocationMutation = useMutation({
+    mutationFn: (data: { name: string; description: string | null }) => editingLocation
+      ? apiRequest('PUT', `/api/locations/${editingLocation.id}`, data)
+      : apiRequest('POST', '/api/locations', data),
+    onSuccess: () => {
+      invalidateLocations();
+      setDialogOpen(false);
+      toast({ title: "Success", description: editingLocation ? "Location updated" : "Location added" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save location", variant: "destructive" });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: (location: LocationWithItemCount) =>
+      apiRequest('PUT', `/api/locations/${location.id}`, { active: !location.active }),
+    onSuccess: () => {
+      invalidateLocations();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update location", variant: "destructive" });
+    },
+  });
+
+  const deleteLocationMutation = useMutation({
+    mutationFn: ({ id, reassignTo }: { id: number; reassignTo?: number }) =>
+      apiRequest('DELETE', `/api/locations/${id}${reassignTo ? `?reassignToLocationId=${reassignTo}` : ""}`),
+    onSuccess: (_response, { reassignTo }) => {
+      invalidateLocations();
+      if (reassignTo) {
+        queryClient.invalidateQueries({ queryKey: ['/api/supplies'] });
+        queryClient.invalidateQueries({ queryKey: ["supplies"] });
+      }
+      setDeletingLocation(null);
+      toast({ title: "Success", description: "Location deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete location", variant: "destructive" });
+    },
+  });
+
+  const openAddDialog = () => {
+    setEditingLocation(null);
+    setLocationForm(emptyLocationForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (location: LocationWithItemCount) => {
+    setEditingLocation(location);
+    setLocationForm({ name: location.name, description: location.description || "" });
+    setDialogOpen(true);
+  };
 
-  const toggleActive = (id: number) => {
-    setLocations(prev => 
-      prev.map(location => 
-        location.id === id 
-          ? { ...location, active: !location.active }
-          : location
-      )
-    );
+  const handleSave = () => {
+    if (!locationForm.name.trim()) {
+      toast({ title: "Error", description: "Location name is required", variant: "destructive" });
+      return;
+    }
+    saveLocationMutation.mutate({
+      name: locationForm.name.trim(),
+      description: locationForm.description.trim() || null,
+    });
   };
 
-  const deleteLocation = (id: number) => {
-    setLocations(prev => prev.filter(location => location.id !== id));
+  // Locations that still hold supplies have to move them somewhere else first
+  const handleDelete = (location: LocationWithItemCount) => {
+    if (location.itemCount > 0) {
+      setReassignToLocationId("");
+      setDeletingLocation(location);
+    } else if (confirm(`Delete location "${location.name}"?`)) {
+      deleteLocationMutation.mutate({ id: location.id });
+    }
   };
 
+  const filteredLocations = locations.filter(location =>
+    location.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (location.description || "").toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const pageSize = parseInt(rowsPerPage);
+  const pageCount = Math.max(1, Math.ceil(filteredLocations.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pagedLocations = filteredLocations.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+  const firstRow = filteredLocations.length === 0 ? 0 : currentPage * pageSize + 1;
+  const lastRow = Math.min((currentPage + 1) * pageSize, filteredLocations.length);
+
+  const rowsPerPageSelect = (
+    <div className="flex items-center space-x-2">
+      <span className="text-sm text-gray-600">Rows per page:</span>
+      <Select value={rowsPerPage} onValueChange={(value) => { setRowsPerPage(value); setPage(0); }}>
+        <SelectTrigger className="w-20">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="10">10</SelectItem>
+          <SelectItem value="25">25</SelectItem>
+          <SelectItem value="50">50</SelectItem>
+          <SelectItem value="100">100</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   return (
     <Layout currentTime={currentTime}>
       <div className="min-h-screen bg-gray-50 p-6">
@@ -69,14 +153,14 @@ export default function SupplyLocations() {
             <h1 className="text-2xl font-bold text-gray-900">Supply Locations</h1>
             <Info className="h-5 w-5 text-gray-400" />
           </div>
-          
+
           {/* Search Bar */}
           <div className="relative max-w-md">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
             <Input
               placeholder="Search"
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => { setSearchTerm(e.target.value); setPage(0); }}
               className="pl-10"
             />
           </div>
@@ -84,25 +168,22 @@ export default function SupplyLocations() {
 
         {/* Controls Bar */}
         <div className="flex items-center justify-between mb-4">
+          {rowsPerPageSelect}
+
           <div className="flex items-center space-x-2">
-            <span className="text-sm text-gray-600">Rows per page:</span>
-            <Select value={rowsPerPage} onValueChange={setRowsPerPage}>
-              <SelectTrigger className="w-20">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="10">10</SelectItem>
-                <SelectItem value="25">25</SelectItem>
-                <SelectItem value="50">50</SelectItem>
-                <SelectItem value="100">100</SelectItem>
-              </SelectContent>
-            </Select>
+            <Button
+              variant="outline"
+              onClick={() => window.open(`/api/labels/locations?ids=${filteredLocations.map(location => location.id).join(",")}`, '_blank')}
+              disabled={filteredLocations.length === 0}
+            >
+              <QrCode className="h-4 w-4 mr-2" />
+              Print Labels
+            </Button>
+            <Button className="bg-blue-600 hover:bg-blue-700" onClick={openAddDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add New
+            </Button>
           </div>
-          
-          <Button className="bg-blue-600 hover:bg-blue-700">
-            <Plus className="h-4 w-4 mr-2" />
-            Add New
-          </Button>
         </div>
 
         {/* Table */}
@@ -119,29 +200,61 @@ export default function SupplyLocations() {
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredLocations.map((location) => (
+                  {isLoading ? (
+                    <tr>
+                      <td colSpan={4} className="py-6 text-center text-gray-500">Loading locations...</td>
+                    </tr>
+                  ) : pagedLocations.length === 0 ? (
+                    <tr>
+                      <td colSpan={4} className="py-6 text-center text-gray-500">No locations found.</td>
+                    </tr>
+                  ) : pagedLocations.map((location) => (
                     <tr key={location.id} className="border-b border-gray-100 hover:bg-gray-50">
                       <td className="py-3 px-4">
                         <div className="flex items-center space-x-2">
                           <MapPin className="h-4 w-4 text-gray-400" />
-                          <span className="font-medium">{location.name}</span>
+                          <div>
+                            <span className={`font-medium ${location.active ? '' : 'text-gray-400'}`}>{location.name}</span>
+                            {location.description && (
+                              <p className="text-sm text-gray-500">{location.description}</p>
+                            )}
+                          </div>
                         </div>
                       </td>
                       <td className="py-3 px-4">
-                        <span className="text-gray-600">{location.items} {location.items === 1 ? 'item' : 'items'}</span>
+                        <span className="text-gray-600">{location.itemCount} {location.itemCount === 1 ? 'item' : 'items'}</span>
                       </td>
                       <td className="py-3 px-4">
                         <Switch
                           checked={location.active}
-                          onCheckedChange={() => toggleActive(location.id)}
+                          onCheckedChange={() => toggleActiveMutation.mutate(location)}
+                          disabled={toggleActiveMutation.isPending}
                         />
                       </td>
                       <td className="py-3 px-4">
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => deleteLocation(location.id)}
+                          onClick={() => window.open(`/api/labels/locations?ids=${location.id}`, '_blank')}
+                          className="text-gray-400 hover:text-gray-700"
+                          title="Print label"
+                        >
+                          <QrCode className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openEditDialog(location)}
+                          className="text-gray-400 hover:text-gray-700"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(location)}
                           className="text-gray-400 hover:text-red-500"
+                          disabled={deleteLocationMutation.isPending}
                         >
                           <Trash2 className="h-4 w-4" />
                         </Button>
@@ -156,23 +269,16 @@ export default function SupplyLocations() {
 
         {/* Pagination */}
         <div className="mt-4 flex justify-between items-center">
-          <div className="flex items-center space-x-2">
-            <span className="text-sm text-gray-600">Rows per page:</span>
-            <Select value={rowsPerPage} onValueChange={setRowsPerPage}>
-              <SelectTrigger className="w-20">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="10">10</SelectItem>
-                <SelectItem value="25">25</SelectItem>
-                <SelectItem value="50">50</SelectItem>
-                <SelectItem value="100">100</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-          
-          <div className="text-sm text-gray-600">
-            1-{filteredLocations.length} of {filteredLocations.length}
+          {rowsPerPageSelect}
+
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <span>{firstRow}-{lastRow} of {filteredLocations.length}</span>
+            <Button variant="ghost" size="sm" onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
           </div>
         </div>
 
@@ -185,6 +291,82 @@ export default function SupplyLocations() {
           <div>Copyright ©2023 Allimicry Inc. | v1.0.0 Production</div>
         </div>
       </div>
+
+      {/* Add / Edit Location Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingLocation ? "Edit Location" : "Add Location"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="locationName">Name</Label>
+              <Input
+                id="locationName"
+                value={locationForm.name}
+                onChange={(e) => setLocationForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="locationDescription">Description</Label>
+              <Input
+                id="locationDescription"
+                value={locationForm.description}
+                onChange={(e) => setLocationForm(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveLocationMutation.isPending}>
+              {saveLocationMutation.isPending ? "Saving..." : "Save Location"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reassign Before Delete Dialog */}
+      <Dialog open={!!deletingLocation} onOpenChange={(open) => !open && setDeletingLocation(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete {deletingLocation?.name}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            This location still holds {deletingLocation?.itemCount} {deletingLocation?.itemCount === 1 ? 'item' : 'items'}.
+            Choose where to move them before deleting.
+          </p>
+          <Select value={reassignToLocationId} onValueChange={setReassignToLocationId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Move items to..." />
+            </SelectTrigger>
+            <SelectContent>
+              {locations.filter(location => location.id !== deletingLocation?.id).map(location => (
+                <SelectItem key={location.id} value={location.id.toString()}>
+                  {location.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button variant="outline" onClick={() => setDeletingLocation(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reassignToLocationId || deleteLocationMutation.isPending}
+              onClick={() => deletingLocation && deleteLocationMutation.mutate({
+                id: deletingLocation.id,
+                reassignTo: parseInt(reassignToLocationId),
+              })}
+            >
+              Move and Delete
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </Layout>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,530 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, Search, Pencil, Trash2, Truck } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import Layout from "@/components/layout";
+import type { Vendor, VendorSupplyWithDetails, SupplyWithLocation } from "@shared/schema";
+import { formatCurrency } from "@/lib/utils";
+
+const emptyVendorForm = {
+  name: "",
+  contactInfo: "",
+  address: "",
+  phone: "",
+  email: "",
+};
+
+// Catalog rows are edited with the price in dollars
+const emptyCatalogForm = {
+  supplyId: "",
+  sku: "",
+  price: "",
+  leadTimeDays: "",
+};
+
+export default function Vendors() {
+  const [currentTime] = useState(new Date());
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedVendorId, setSelectedVendorId] = useState<number | null>(null);
+  const [vendorDialogOpen, setVendorDialogOpen] = useState(false);
+  const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+  const [vendorForm, setVendorForm] = useState(emptyVendorForm);
+  const [deletingVendor, setDeletingVendor] = useState<Vendor | null>(null);
+  const [reassignToVendorId, setReassignToVendorId] = useState("");
+  const [catalogForm, setCatalogForm] = useState(emptyCatalogForm);
+  const [editingCatalogId, setEditingCatalogId] = useState<number | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: vendors = [], isLoading } = useQuery<Vendor[]>({
+    queryKey: ['/api/vendors'],
+  });
+
+  const { data: supplies = [] } = useQuery<SupplyWithLocation[]>({
+    queryKey: ['/api/supplies'],
+  });
+
+  const { data: catalog = [], isLoading: catalogLoading } = useQuery<VendorSupplyWithDetails[]>({
+    queryKey: [`/api/vendors/${selectedVendorId}/supplies`],
+    enabled: !!selectedVendorId,
+  });
+
+  const selectedVendor = vendors.find(vendor => vendor.id === selectedVendorId) || null;
+
+  const invalidateVendors = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/vendors'] });
+    queryClient.invalidateQueries({ queryKey: ["vendors"] });
+    queryClient.invalidateQueries({ queryKey: ['/api/supplies'] });
+    queryClient.invalidateQueries({ queryKey: ["supplies"] });
+  };
+
+  const invalidateCatalog = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/vendors/${selectedVendorId}/supplies`] });
+  };
+
+  const saveVendorMutation = useMutation({
+    mutationFn: (data: typeof emptyVendorForm) => editingVendor
+      ? apiRequest('PUT', `/api/vendors/${editingVendor.id}`, data)
+      : apiRequest('POST', '/api/vendors', data),
+    onSuccess: async (response) => {
+      const vendor: Vendor = await response.json();
+      invalidateVendors();
+      setVendorDialogOpen(false);
+      setSelectedVendorId(vendor.id);
+      toast({ title: "Success", description: editingVendor ? "Vendor updated" : "Vendor added" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save vendor", variant: "destructive" });
+    },
+  });
+
+  const deleteVendorMutation = useMutation({
+    mutationFn: ({ id, reassignTo }: { id: number; reassignTo?: number }) =>
+      apiRequest('DELETE', `/api/vendors/${id}${reassignTo ? `?reassignToVendorId=${reassignTo}` : ""}`),
+    onSuccess: (_response, { id }) => {
+      invalidateVendors();
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      setDeletingVendor(null);
+      if (selectedVendorId === id) setSelectedVendorId(null);
+      toast({ title: "Success", description: "Vendor deleted" });
+    },
+    onError: (error: any, { id }) => {
+      // Vendors still in use have to hand their supplies and order lines to another vendor
+      if (error.message?.startsWith("409")) {
+        setReassignToVendorId("");
+        setDeletingVendor(vendors.find(vendor => vendor.id === id) || null);
+        return;
+      }
+      toast({ title: "Error", description: error.message || "Failed to delete vendor", variant: "destructive" });
+    },
+  });
+
+  const saveCatalogMutation = useMutation({
+    mutationFn: (data: { supplyId: number; sku: string | null; price: number; leadTimeDays: number | null }) => editingCatalogId
+      ? apiRequest('PUT', `/api/vendor-supplies/${editingCatalogId}`, { sku: data.sku, price: data.price, leadTimeDays: data.leadTimeDays })
+      : apiRequest('POST', `/api/vendors/${selectedVendorId}/supplies`, data),
+    onSuccess: () => {
+      invalidateCatalog();
+      setCatalogForm(emptyCatalogForm);
+      setEditingCatalogId(null);
+      toast({ title: "Success", description: "Vendor price saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save vendor price", variant: "destructive" });
+    },
+  });
+
+  const deleteCatalogMutation = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/vendor-supplies/${id}`),
+    onSuccess: () => {
+      invalidateCatalog();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to remove vendor price", variant: "destructive" });
+    },
+  });
+
+  const openAddVendor = () => {
+    setEditingVendor(null);
+    setVendorForm(emptyVendorForm);
+    setVendorDialogOpen(true);
+  };
+
+  const openEditVendor = (vendor: Vendor) => {
+    setEditingVendor(vendor);
+    setVendorForm({
+      name: vendor.name,
+      contactInfo: vendor.contactInfo || "",
+      address: vendor.address || "",
+      phone: vendor.phone || "",
+      email: vendor.email || "",
+    });
+    setVendorDialogOpen(true);
+  };
+
+  const handleSaveVendor = () => {
+    if (!vendorForm.name.trim()) {
+      toast({ title: "Error", description: "Vendor name is required", variant: "destructive" });
+      return;
+    }
+    saveVendorMutation.mutate({ ...vendorForm, name: vendorForm.name.trim() });
+  };
+
+  const handleDeleteVendor = (vendor: Vendor) => {
+    if (confirm(`Delete vendor "${vendor.name}"?`)) {
+      deleteVendorMutation.mutate({ id: vendor.id });
+    }
+  };
+
+  const handleSaveCatalog = () => {
+    const supplyId = parseInt(catalogForm.supplyId);
+    if (!supplyId) {
+      toast({ title: "Error", description: "Please select a supply", variant: "destructive" });
+      return;
+    }
+    saveCatalogMutation.mutate({
+      supplyId,
+      sku: catalogForm.sku.trim() || null,
+      price: Math.round((parseFloat(catalogForm.price) || 0) * 100),
+      leadTimeDays: catalogForm.leadTimeDays ? parseInt(catalogForm.leadTimeDays) : null,
+    });
+  };
+
+  const startEditCatalog = (entry: VendorSupplyWithDetails) => {
+    setEditingCatalogId(entry.id);
+    setCatalogForm({
+      supplyId: entry.supplyId.toString(),
+      sku: entry.sku || "",
+      price: (entry.price / 100).toFixed(2),
+      leadTimeDays: entry.leadTimeDays?.toString() || "",
+    });
+  };
+
+  const filteredVendors = vendors.filter(vendor =>
+    vendor.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (vendor.email || "").toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  // Supplies this vendor does not have a price for yet
+  const unlistedSupplies = supplies.filter(supply => !catalog.some(entry => entry.supplyId === supply.id));
+
+  return (
+    <Layout currentTime={currentTime}>
+      <div className="flex h-full bg-gray-50">
+        {/* Vendor List */}
+        <div className="w-80 bg-white border-r border-gray-200 p-6 overflow-auto">
+          <div className="space-y-4">
+            <div>
+              <nav className="text-sm text-gray-500 mb-2">
+                <span>Home / Inventory / Vendors</span>
+              </nav>
+              <h1 className="text-2xl font-bold text-gray-900">Vendors</h1>
+            </div>
+
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <Input
+                placeholder="Search vendors..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+
+            <Button onClick={openAddVendor} className="w-full">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Vendor
+            </Button>
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading vendors...</p>
+            ) : filteredVendors.length === 0 ? (
+              <p className="text-sm text-gray-500">No vendors found.</p>
+            ) : (
+              <div className="space-y-1">
+                {filteredVendors.map(vendor => (
+                  <div
+                    key={vendor.id}
+                    className={`p-3 rounded-md cursor-pointer ${
+                      vendor.id === selectedVendorId ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50'
+                    }`}
+                    onClick={() => {
+                      setSelectedVendorId(vendor.id);
+                      setEditingCatalogId(null);
+                      setCatalogForm(emptyCatalogForm);
+                    }}
+                  >
+                    <p className="font-medium text-gray-900">{vendor.name}</p>
+                    {(vendor.phone || vendor.email) && (
+                      <p className="text-xs text-gray-500">{[vendor.phone, vendor.email].filter(Boolean).join(" • ")}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Vendor Details */}
+        <div className="flex-1 overflow-auto p-6">
+          {!selectedVendor ? (
+            <div className="text-center py-12">
+              <Truck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Select a vendor</h3>
+              <p className="text-gray-500">Choose a vendor to see its details and supply prices.</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>{selectedVendor.name}</CardTitle>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => openEditVendor(selectedVendor)}>
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => handleDeleteVendor(selectedVendor)}
+                        disabled={deleteVendorMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <p className="text-gray-500">Contact</p>
+                      <p>{selectedVendor.contactInfo || "—"}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Address</p>
+                      <p className="whitespace-pre-line">{selectedVendor.address || "—"}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Phone</p>
+                      <p>{selectedVendor.phone || "—"}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Email</p>
+                      <p>{selectedVendor.email || "—"}</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Supply Prices</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2">Supply</th>
+                        <th className="py-2">SKU</th>
+                        <th className="py-2 text-right">Price</th>
+                        <th className="py-2 text-right">Lead Time</th>
+                        <th className="py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {catalogLoading ? (
+                        <tr><td colSpan={5} className="py-4 text-center text-gray-500">Loading...</td></tr>
+                      ) : catalog.length === 0 ? (
+                        <tr><td colSpan={5} className="py-4 text-center text-gray-500">No supply prices for this vendor yet.</td></tr>
+                      ) : catalog.map(entry => (
+                        <tr key={entry.id} className="border-b border-gray-100">
+                          <td className="py-2">
+                            {entry.supply.name}
+                            {entry.supply.vendorId === entry.vendorId && (
+                              <span className="ml-2 text-xs text-blue-600">Preferred</span>
+                            )}
+                          </td>
+                          <td className="py-2">{entry.sku || "—"}</td>
+                          <td className="py-2 text-right">{formatCurrency(entry.price)}</td>
+                          <td className="py-2 text-right">{entry.leadTimeDays != null ? `${entry.leadTimeDays} days` : "—"}</td>
+                          <td className="py-2 text-right whitespace-nowrap">
+                            <Button variant="ghost" size="sm" onClick={() => startEditCatalog(entry)}>
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-500 hover:text-red-700"
+                              onClick={() => deleteCatalogMutation.mutate(entry.id)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  {/* Add or edit a catalog row */}
+                  <div className="flex items-end space-x-3 mt-4 p-3 bg-gray-50 rounded-md">
+                    <div className="flex-1">
+                      <Label>Supply</Label>
+                      <Select
+                        value={catalogForm.supplyId}
+                        onValueChange={(value) => setCatalogForm(prev => ({ ...prev, supplyId: value }))}
+                        disabled={!!editingCatalogId}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select supply" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(editingCatalogId ? supplies : unlistedSupplies).map(supply => (
+                            <SelectItem key={supply.id} value={supply.id.toString()}>
+                              {supply.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="w-32">
+                      <Label>SKU</Label>
+                      <Input
+                        value={catalogForm.sku}
+                        onChange={(e) => setCatalogForm(prev => ({ ...prev, sku: e.target.value }))}
+                      />
+                    </div>
+                    <div className="w-28">
+                      <Label>Price ($)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={catalogForm.price}
+                        onChange={(e) => setCatalogForm(prev => ({ ...prev, price: e.target.value }))}
+                        placeholder="0.00"
+                      />
+                    </div>
+                    <div className="w-28">
+                      <Label>Lead (days)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={catalogForm.leadTimeDays}
+                        onChange={(e) => setCatalogForm(prev => ({ ...prev, leadTimeDays: e.target.value }))}
+                      />
+                    </div>
+                    <Button onClick={handleSaveCatalog} disabled={saveCatalogMutation.isPending}>
+                      {editingCatalogId ? "Save" : "Add"}
+                    </Button>
+                    {editingCatalogId && (
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setEditingCatalogId(null);
+                          setCatalogForm(emptyCatalogForm);
+                        }}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Add / Edit Vendor Dialog */}
+      <Dialog open={vendorDialogOpen} onOpenChange={setVendorDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingVendor ? "Edit Vendor" : "Add Vendor"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="vendorName">Name</Label>
+              <Input
+                id="vendorName"
+                value={vendorForm.name}
+                onChange={(e) => setVendorForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="vendorContact">Contact</Label>
+              <Input
+                id="vendorContact"
+                value={vendorForm.contactInfo}
+                onChange={(e) => setVendorForm(prev => ({ ...prev, contactInfo: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="vendorAddress">Address</Label>
+              <Input
+                id="vendorAddress"
+                value={vendorForm.address}
+                onChange={(e) => setVendorForm(prev => ({ ...prev, address: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="vendorPhone">Phone</Label>
+                <Input
+                  id="vendorPhone"
+                  value={vendorForm.phone}
+                  onChange={(e) => setVendorForm(prev => ({ ...prev, phone: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="vendorEmail">Email</Label>
+                <Input
+                  id="vendorEmail"
+                  type="email"
+                  value={vendorForm.email}
+                  onChange={(e) => setVendorForm(prev => ({ ...prev, email: e.target.value }))}
+                />
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button variant="outline" onClick={() => setVendorDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveVendor} disabled={saveVendorMutation.isPending}>
+              {saveVendorMutation.isPending ? "Saving..." : "Save Vendor"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reassign Before Delete Dialog */}
+      <Dialog open={!!deletingVendor} onOpenChange={(open) => !open && setDeletingVendor(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete {deletingVendor?.name}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            This vendor is still used by supplies or purchase orders. Choose a vendor to move them to before deleting.
+          </p>
+          <Select value={reassignToVendorId} onValueChange={setReassignToVendorId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Reassign to..." />
+            </SelectTrigger>
+            <SelectContent>
+              {vendors.filter(vendor => vendor.id !== deletingVendor?.id).map(vendor => (
+                <SelectItem key={vendor.id} value={vendor.id.toString()}>
+                  {vendor.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button variant="outline" onClick={() => setDeletingVendor(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reassignToVendorId || deleteVendorMutation.isPending}
+              onClick={() => deletingVendor && deleteVendorMutation.mutate({
+                id: deletingVendor.id,
+                reassignTo: parseInt(reassignToVendorId),
+              })}
+            >
+              Reassign and Delete
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -0,0 +1,19 @@
+-- Soft delete for jobs
+-- Deleting a job now moves it to the trash so its cut history keeps counting
+-- towards the dashboard; admins purge it for good after the retention period
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS deleted_by INTEGER REFERENCES users(id);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_deleted_at ON jobs(deleted_at);
+
+-- Admin-managed settings (JSON-encoded values)
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_by INTEGER REFERENCES users(id),
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO app_settings (key, value) VALUES ('jobTrashRetentionDays', '30')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,23 @@
+-- Sequential document numbers
+-- Job numbers become <prefix><year>-<sequence> (e.g. 2026-0142) and PO numbers
+-- keep PO-YYYYMMDD-XXX, both drawn from an atomically incremented counter
+
+CREATE TABLE IF NOT EXISTS number_sequences (
+  name TEXT NOT NULL,
+  period TEXT NOT NULL,
+  value INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (name, period)
+);
+
+-- Continue today's PO numbering from the highest number already issued
+INSERT INTO number_sequences (name, period, value)
+SELECT 'purchase_order', split_part(po_number, '-', 2), MAX(split_part(po_number, '-', 3)::INTEGER)
+FROM purchase_orders
+WHERE po_number ~ '^PO-[0-9]{8}-[0-9]+$'
+GROUP BY split_part(po_number, '-', 2)
+ON CONFLICT (name, period) DO UPDATE SET value = GREATEST(number_sequences.value, EXCLUDED.value);
+
+INSERT INTO app_settings (key, value) VALUES
+  ('jobNumberPrefix', '""'),
+  ('jobNumberPadding', '4')
+ON CONFLICT (key) DO NOTHING;
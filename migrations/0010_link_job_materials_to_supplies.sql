@@ -0,0 +1,16 @@
+-- Link job materials to the supply they consume
+-- Cutting a sheet now posts a 'use' supply transaction against this supply
+
+ALTER TABLE job_materials ADD COLUMN IF NOT EXISTS supply_id INTEGER REFERENCES supplies(id);
+
+CREATE INDEX IF NOT EXISTS idx_job_materials_supply_id ON job_materials(supply_id);
+
+-- Backfill from the legacy color, matching the supply created from it by name
+UPDATE job_materials jm
+SET supply_id = (
+  SELECT MIN(s.id)
+  FROM colors c
+  JOIN supplies s ON LOWER(s.name) = LOWER(c.name)
+  WHERE c.id = jm.color_id
+)
+WHERE jm.supply_id IS NULL;
@@ -0,0 +1,39 @@
+-- Finish moving job materials from the legacy colors table to supplies
+-- job_materials.supply_id becomes required; color_id is kept only for history
+
+-- Match remaining colors to supplies by name, then by hex color
+UPDATE job_materials jm
+SET supply_id = (
+  SELECT MIN(s.id)
+  FROM colors c
+  JOIN supplies s ON LOWER(s.name) = LOWER(c.name)
+  WHERE c.id = jm.color_id
+)
+WHERE jm.supply_id IS NULL;
+
+UPDATE job_materials jm
+SET supply_id = (
+  SELECT MIN(s.id)
+  FROM colors c
+  JOIN supplies s ON LOWER(s.hex_color) = LOWER(c.hex_color)
+  WHERE c.id = jm.color_id
+)
+WHERE jm.supply_id IS NULL;
+
+-- Colors with no matching supply get one, so no job loses its material
+INSERT INTO supplies (name, hex_color, piece_size, texture)
+SELECT c.name, c.hex_color, 'sheet', c.texture
+FROM colors c
+WHERE EXISTS (SELECT 1 FROM job_materials jm WHERE jm.color_id = c.id AND jm.supply_id IS NULL);
+
+UPDATE job_materials jm
+SET supply_id = (
+  SELECT MIN(s.id)
+  FROM colors c
+  JOIN supplies s ON LOWER(s.name) = LOWER(c.name)
+  WHERE c.id = jm.color_id
+)
+WHERE jm.supply_id IS NULL;
+
+ALTER TABLE job_materials ALTER COLUMN supply_id SET NOT NULL;
+ALTER TABLE job_materials ALTER COLUMN color_id DROP NOT NULL;
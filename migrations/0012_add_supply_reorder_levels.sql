@@ -0,0 +1,5 @@
+-- Reorder levels for supplies
+-- Used by the "Need to Purchase" report (GET /api/supplies/reorder)
+
+ALTER TABLE supplies ADD COLUMN IF NOT EXISTS minimum_quantity INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE supplies ADD COLUMN IF NOT EXISTS reorder_quantity INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,12 @@
+-- Partial receipts for purchase orders
+-- Each line tracks how much has arrived; orders become partially_received until complete
+
+ALTER TABLE purchase_order_items ADD COLUMN IF NOT EXISTS received_quantity INTEGER NOT NULL DEFAULT 0;
+
+-- Orders already marked received are treated as fully received
+UPDATE purchase_order_items poi
+SET received_quantity = poi.quantity
+FROM purchase_orders po
+WHERE po.id = poi.purchase_order_id
+  AND po.status = 'received'
+  AND poi.received_quantity = 0;
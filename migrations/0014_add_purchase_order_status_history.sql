@@ -0,0 +1,27 @@
+-- Purchase order lifecycle: draft -> ordered -> partially_received -> received, or cancelled
+-- Every status change is recorded with who made it and when
+
+CREATE TABLE IF NOT EXISTS purchase_order_status_history (
+    id SERIAL PRIMARY KEY,
+    purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(id),
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    note TEXT,
+    changed_by INTEGER REFERENCES users(id),
+    changed_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_status_history_order_id ON purchase_order_status_history(purchase_order_id);
+
+-- Legacy pending orders had already been placed with the vendor
+UPDATE purchase_orders SET status = 'ordered' WHERE status = 'pending';
+
+ALTER TABLE purchase_orders ALTER COLUMN status SET DEFAULT 'draft';
+
+-- Start the history of existing orders with their current status
+INSERT INTO purchase_order_status_history (purchase_order_id, from_status, to_status, note, changed_by, changed_at)
+SELECT po.id, NULL, po.status, 'Status before history tracking', po.created_by, po.created_at
+FROM purchase_orders po
+WHERE NOT EXISTS (
+    SELECT 1 FROM purchase_order_status_history h WHERE h.purchase_order_id = po.id
+);
@@ -0,0 +1,23 @@
+-- Per-vendor supply catalog: the same supply can be bought from several vendors,
+-- each with its own SKU, price and lead time
+
+CREATE TABLE IF NOT EXISTS vendor_supplies (
+    id SERIAL PRIMARY KEY,
+    vendor_id INTEGER NOT NULL REFERENCES vendors(id),
+    supply_id INTEGER NOT NULL REFERENCES supplies(id),
+    sku TEXT,
+    price INTEGER NOT NULL DEFAULT 0, -- in cents
+    lead_time_days INTEGER,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    CONSTRAINT vendor_supplies_vendor_supply_unique UNIQUE (vendor_id, supply_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vendor_supplies_supply_id ON vendor_supplies(supply_id);
+
+-- Seed the catalog from each supply's default vendor and price
+INSERT INTO vendor_supplies (vendor_id, supply_id, price)
+SELECT vendor_id, id, COALESCE(default_vendor_price, 0)
+FROM supplies
+WHERE vendor_id IS NOT NULL
+ON CONFLICT (vendor_id, supply_id) DO NOTHING;
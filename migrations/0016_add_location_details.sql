@@ -0,0 +1,5 @@
+-- Supply locations get a description and can be switched off
+-- Inactive locations are hidden when placing new supplies but keep what they hold
+
+ALTER TABLE locations ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE locations ADD COLUMN IF NOT EXISTS active BOOLEAN NOT NULL DEFAULT TRUE;
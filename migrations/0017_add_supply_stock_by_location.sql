@@ -0,0 +1,22 @@
+-- Stock levels per location: the same supply can sit in several bays and racks
+-- The rows add up to supplies.quantity_on_hand; transfers post paired 'transfer' transactions
+
+CREATE TABLE IF NOT EXISTS supply_stock (
+    id SERIAL PRIMARY KEY,
+    supply_id INTEGER NOT NULL REFERENCES supplies(id),
+    location_id INTEGER NOT NULL REFERENCES locations(id),
+    quantity INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    CONSTRAINT supply_stock_supply_location_unique UNIQUE (supply_id, location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supply_stock_location_id ON supply_stock(location_id);
+
+ALTER TABLE supply_transactions ADD COLUMN IF NOT EXISTS location_id INTEGER REFERENCES locations(id);
+
+-- Existing stock sits at each supply's single location
+INSERT INTO supply_stock (supply_id, location_id, quantity)
+SELECT id, location_id, quantity_on_hand
+FROM supplies
+WHERE location_id IS NOT NULL AND quantity_on_hand > 0
+ON CONFLICT (supply_id, location_id) DO NOTHING;
@@ -0,0 +1,5 @@
+-- Available stock is always on hand minus allocated, and may go below zero when jobs
+-- have reserved more than is on the shelf. Earlier writes clamped it at zero or left
+-- it unset on new supplies, so recompute it for every row.
+
+UPDATE supplies SET available = quantity_on_hand - allocated;
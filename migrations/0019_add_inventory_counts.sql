@@ -0,0 +1,27 @@
+-- Physical inventory count sessions
+-- A count covers one or more locations; each line records what was found for one supply
+-- at one location, and posting turns the differences into 'adjust' transactions
+
+CREATE TABLE IF NOT EXISTS inventory_counts (
+    id SERIAL PRIMARY KEY,
+    status TEXT NOT NULL DEFAULT 'open',
+    location_ids INTEGER[] NOT NULL,
+    note TEXT,
+    created_by INTEGER NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    posted_by INTEGER REFERENCES users(id),
+    posted_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS inventory_count_lines (
+    id SERIAL PRIMARY KEY,
+    count_id INTEGER NOT NULL REFERENCES inventory_counts(id),
+    supply_id INTEGER NOT NULL REFERENCES supplies(id),
+    location_id INTEGER NOT NULL REFERENCES locations(id),
+    counted_quantity INTEGER,
+    counted_by INTEGER REFERENCES users(id),
+    counted_at TIMESTAMP,
+    CONSTRAINT inventory_count_lines_count_supply_location_unique UNIQUE (count_id, supply_id, location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_count_lines_count_id ON inventory_count_lines(count_id);
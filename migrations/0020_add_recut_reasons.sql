@@ -0,0 +1,25 @@
+-- Recut reason codes
+-- Recuts are filed under an admin-managed reason so they can be analysed by cause; the
+-- existing free-text reason column is kept as an optional note
+
+CREATE TABLE IF NOT EXISTS recut_reasons (
+    id SERIAL PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO recut_reasons (code, name) VALUES
+    ('MACHINE', 'Machine fault'),
+    ('MATERIAL', 'Material defect'),
+    ('DESIGN', 'Design error'),
+    ('OPERATOR', 'Operator error'),
+    ('HANDLING', 'Damaged in handling'),
+    ('OTHER', 'Other')
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE recut_entries ADD COLUMN IF NOT EXISTS reason_id INTEGER REFERENCES recut_reasons(id);
+
+CREATE INDEX IF NOT EXISTS idx_recut_entries_reason_id ON recut_entries(reason_id);
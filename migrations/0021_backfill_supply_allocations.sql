@@ -0,0 +1,22 @@
+-- Pending sheets reserve their supply, but jobs created before reservations existed never
+-- booked theirs, so cutting or deleting their sheets released stock other jobs had reserved.
+-- Recompute allocated from the pending sheets of every job outside the trash; recut sheets
+-- are never reserved. Available follows as on hand minus allocated.
+
+UPDATE supplies SET allocated = COALESCE(pending.sheets, 0)
+FROM supplies s
+LEFT JOIN (
+    SELECT jm.supply_id,
+           SUM(
+               (SELECT COUNT(*) FROM unnest(COALESCE(jm.sheet_statuses, '{}'::text[])) AS status WHERE status = 'pending')
+               + GREATEST(0, jm.total_sheets - COALESCE(array_length(jm.sheet_statuses, 1), 0))
+           ) AS sheets
+    FROM job_materials jm
+    JOIN cutlists c ON c.id = jm.cutlist_id
+    JOIN jobs j ON j.id = c.job_id
+    WHERE j.deleted_at IS NULL
+    GROUP BY jm.supply_id
+) pending ON pending.supply_id = s.id
+WHERE supplies.id = s.id;
+
+UPDATE supplies SET available = quantity_on_hand - allocated;
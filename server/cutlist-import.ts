@@ -0,0 +1,228 @@
+import type { JobImportPreview, JobImportPreviewMaterial } from "@shared/schema";
+
+// Header aliases used by the panel optimizer exports we receive
+const COLUMN_ALIASES = {
+  material: ['material', 'material name', 'materials', 'board', 'sheet material', 'color'],
+  sheets: ['sheets', 'sheet count', 'sheet qty', 'sheets used', 'no of sheets', 'qty', 'quantity'],
+  cutlist: ['cutlist', 'cut list', 'cutlist name', 'section'],
+  customer: ['customer', 'customer name', 'client'],
+  job: ['job', 'job name', 'project', 'project name'],
+};
+
+type ColumnKey = keyof typeof COLUMN_ALIASES;
+type ColumnMap = Partial<Record<ColumnKey, number>>;
+
+type ParsedSection = {
+  name: string;
+  rows: { materialName: string; totalSheets: number; lines: number[] }[];
+};
+
+export type ParsedCutlistCsv = {
+  customerName: string;
+  jobName: string;
+  sections: ParsedSection[];
+  errors: string[];
+};
+
+const normalize = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const matchColumn = (cell: string): ColumnKey | undefined => {
+  const name = normalize(cell);
+  return (Object.keys(COLUMN_ALIASES) as ColumnKey[]).find(key => COLUMN_ALIASES[key].includes(name));
+};
+
+// Split CSV text into rows of cells, honouring quoted fields and "" escapes
+function parseCsvRows(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g)?.length || 0) > (firstLine.match(/,/g)?.length || 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function detectHeader(cells: string[]): ColumnMap | null {
+  const columns: ColumnMap = {};
+  cells.forEach((cell, index) => {
+    const key = matchColumn(cell);
+    if (key && columns[key] === undefined) columns[key] = index;
+  });
+  return columns.material !== undefined && columns.sheets !== undefined ? columns : null;
+}
+
+/**
+ * Parse an optimizer cutlist export. The file may start with "Customer,<name>"
+ * and "Job,<name>" lines, followed by a header row naming at least a material
+ * and a sheet count column. Sections are taken from a cutlist column when
+ * present, otherwise from blank-line separated blocks, optionally headed by a
+ * single-cell line naming the section.
+ */
+export function parseCutlistCsv(text: string): ParsedCutlistCsv {
+  const result: ParsedCutlistCsv = { customerName: '', jobName: '', sections: [], errors: [] };
+  const rows = parseCsvRows(text);
+
+  let header: ColumnMap | null = null;
+  let currentSection: ParsedSection | null = null;
+  let pendingSectionName: string | null = null;
+
+  const getSection = (name: string | null): ParsedSection => {
+    if (name) {
+      const existing = result.sections.find(section => normalize(section.name) === normalize(name));
+      if (existing) return existing;
+    } else if (currentSection) {
+      return currentSection;
+    }
+
+    const section: ParsedSection = {
+      name: name || pendingSectionName || `Cutlist ${result.sections.length + 1}`,
+      rows: [],
+    };
+    result.sections.push(section);
+    pendingSectionName = null;
+    return section;
+  };
+
+  rows.forEach((cells, index) => {
+    const line = index + 1;
+    const filled = cells.filter(cell => cell !== '');
+
+    if (filled.length === 0) {
+      currentSection = null;
+      return;
+    }
+
+    // Key/value metadata lines such as "Customer,Smith Residence"
+    if (filled.length === 2 && cells[0] !== '') {
+      const key = matchColumn(cells[0]);
+      if (key === 'customer' || key === 'job') {
+        if (key === 'customer') result.customerName = filled[1];
+        else result.jobName = filled[1];
+        return;
+      }
+    }
+
+    const headerColumns = detectHeader(cells);
+    if (headerColumns) {
+      header = headerColumns;
+      return;
+    }
+
+    if (filled.length === 1) {
+      pendingSectionName = filled[0];
+      currentSection = null;
+      return;
+    }
+
+    if (!header) {
+      result.errors.push(`Line ${line}: data found before a header row with material and sheet columns`);
+      return;
+    }
+
+    const columns: ColumnMap = header;
+    const cellAt = (key: ColumnKey) => (columns[key] !== undefined ? cells[columns[key]!] || '' : '');
+
+    const materialName = cellAt('material');
+    const sheetsValue = cellAt('sheets');
+    const totalSheets = Number(sheetsValue);
+
+    if (!materialName) {
+      result.errors.push(`Line ${line}: missing material name`);
+      return;
+    }
+    if (!Number.isInteger(totalSheets) || totalSheets < 1) {
+      result.errors.push(`Line ${line}: invalid sheet count "${sheetsValue}" for ${materialName}`);
+      return;
+    }
+
+    if (!result.customerName && cellAt('customer')) result.customerName = cellAt('customer');
+    if (!result.jobName && cellAt('job')) result.jobName = cellAt('job');
+
+    const section = getSection(cellAt('cutlist') || null);
+    if (!cellAt('cutlist')) currentSection = section;
+
+    // Optimizers list a material once per layout, so merge repeats within a section
+    const existingRow = section.rows.find(row => normalize(row.materialName) === normalize(materialName));
+    if (existingRow) {
+      existingRow.totalSheets += totalSheets;
+      existingRow.lines.push(line);
+    } else {
+      section.rows.push({ materialName, totalSheets, lines: [line] });
+    }
+  });
+
+  result.sections = result.sections.filter(section => section.rows.length > 0);
+  if (result.sections.length === 0 && result.errors.length === 0) {
+    result.errors.push('No material rows found in the file');
+  }
+
+  return result;
+}
+
+// Resolve material names against the selectable materials and flag the ones that do not match
+export function buildJobImportPreview(
+  parsed: ParsedCutlistCsv,
+  materials: { id: number; name: string }[]
+): JobImportPreview {
+  const materialsByName = new Map(materials.map(material => [normalize(material.name), material.id]));
+  const unmatched = new Set<string>();
+
+  const cutlists = parsed.sections.map(section => ({
+    name: section.name,
+    materials: section.rows.map((row): JobImportPreviewMaterial => {
+      const supplyId = materialsByName.get(normalize(row.materialName)) ?? null;
+      if (supplyId === null) unmatched.add(row.materialName);
+      return {
+        materialName: row.materialName,
+        totalSheets: row.totalSheets,
+        supplyId,
+        lines: row.lines,
+      };
+    }),
+  }));
+
+  return {
+    customerName: parsed.customerName,
+    jobName: parsed.jobName,
+    cutlists,
+    unmatchedMaterials: Array.from(unmatched),
+    errors: parsed.errors,
+  };
+}
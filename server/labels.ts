@@ -0,0 +1,146 @@
+import PDFDocument from "pdfkit";
+import bwipjs from "bwip-js/node";
+import type { LabelSymbology } from "@shared/schema";
+
+export interface Label {
+  code: string;
+  title: string;
+  subtitle?: string;
+}
+
+// Codes printed on labels; the prefix says what the number points at.
+// Sheet codes carry the one-based number printed as "Sheet N of M", so a code typed from
+// the label matches; parsing turns it back into the zero-based index of jobMaterials.sheetStatuses.
+export const supplyLabelCode = (supplyId: number) => `SUP-${supplyId}`;
+export const locationLabelCode = (locationId: number) => `LOC-${locationId}`;
+export const sheetLabelCode = (materialId: number, sheetIndex: number) => `SHT-${materialId}-${sheetIndex + 1}`;
+
+export type ParsedLabelCode =
+  | { kind: 'supply'; supplyId: number }
+  | { kind: 'location'; locationId: number }
+  | { kind: 'sheet'; materialId: number; sheetIndex: number };
+
+// Scanners send whatever was printed, sometimes in lower case or with a trailing newline.
+// Numbers are capped at nine digits so they always fit the integer columns they are looked up in.
+export function parseLabelCode(code: string): ParsedLabelCode | null {
+  const match = /^(SUP|LOC|SHT)-(\d{1,9})(?:-(\d{1,9}))?$/.exec(code.trim().toUpperCase());
+  if (!match) return null;
+
+  const [, prefix, id, sheetNumber] = match;
+  if (prefix === 'SHT') {
+    return sheetNumber === undefined || parseInt(sheetNumber) < 1
+      ? null
+      : { kind: 'sheet', materialId: parseInt(id), sheetIndex: parseInt(sheetNumber) - 1 };
+  }
+  if (sheetNumber !== undefined) return null;
+  return prefix === 'SUP'
+    ? { kind: 'supply', supplyId: parseInt(id) }
+    : { kind: 'location', locationId: parseInt(id) };
+}
+
+// Letter sheet of 30 address labels (3 x 10, 2.625" x 1"), the common Avery 5160 layout
+const PAGE = { width: 612, height: 792 };
+const LABEL = { width: 189, height: 72 };
+const GRID = { columns: 3, rows: 10, left: 13.5, top: 36, gap: 9 };
+const LABELS_PER_PAGE = GRID.columns * GRID.rows;
+const PADDING = 6;
+
+function labelOrigin(index: number) {
+  const slot = index % LABELS_PER_PAGE;
+  const column = slot % GRID.columns;
+  const row = Math.floor(slot / GRID.columns);
+  return {
+    x: GRID.left + column * (LABEL.width + GRID.gap),
+    y: GRID.top + row * LABEL.height,
+  };
+}
+
+// QR codes sit square on the left with the text beside them; Code 128 runs across
+// the top of the label with the text underneath
+function symbolBox(symbology: LabelSymbology) {
+  const size = LABEL.height - PADDING * 2;
+  return symbology === 'qr'
+    ? { x: PADDING, y: PADDING, width: size, height: size }
+    : { x: PADDING, y: PADDING, width: LABEL.width - PADDING * 2, height: 30 };
+}
+
+function textBox(symbology: LabelSymbology) {
+  const symbol = symbolBox(symbology);
+  return symbology === 'qr'
+    ? { x: symbol.x + symbol.width + PADDING, y: PADDING, width: LABEL.width - symbol.width - PADDING * 3 }
+    : { x: PADDING, y: symbol.y + symbol.height + 3, width: LABEL.width - PADDING * 2 };
+}
+
+function barcodeOptions(code: string, symbology: LabelSymbology) {
+  return symbology === 'qr'
+    ? { bcid: 'qrcode', text: code, eclevel: 'M' }
+    : { bcid: 'code128', text: code, height: 10 };
+}
+
+// Lay labels out on as many letter pages as needed. The document is already ended;
+// pipe it to the response to send it.
+export async function renderLabelSheetPdf(labels: Label[], symbology: LabelSymbology): Promise<PDFKit.PDFDocument> {
+  // Barcodes are rendered up front since bwip-js works asynchronously and pdfkit does not
+  const images = await Promise.all(labels.map(label => bwipjs.toBuffer({ ...barcodeOptions(label.code, symbology), scale: 4 })));
+
+  const doc = new PDFDocument({ size: 'LETTER', margin: 0, info: { Title: 'Labels' } });
+  const symbol = symbolBox(symbology);
+  const text = textBox(symbology);
+
+  labels.forEach((label, index) => {
+    if (index > 0 && index % LABELS_PER_PAGE === 0) doc.addPage();
+    const { x, y } = labelOrigin(index);
+
+    doc.image(images[index], x + symbol.x, y + symbol.y, { fit: [symbol.width, symbol.height], align: 'center', valign: 'center' });
+
+    const lines = symbology === 'qr' ? 2 : 1;
+    doc.font('Helvetica-Bold').fontSize(9)
+      .text(label.title, x + text.x, y + text.y, { width: text.width, height: 11 * lines, ellipsis: true });
+    if (label.subtitle) {
+      doc.font('Helvetica').fontSize(8)
+        .text(label.subtitle, x + text.x, doc.y, { width: text.width, height: 10, ellipsis: true });
+    }
+    doc.font('Courier').fontSize(7)
+      .text(label.code, x + text.x, doc.y + 1, { width: text.width, lineBreak: false });
+  });
+
+  doc.end();
+  return doc;
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const truncate = (value: string, length: number) => value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+// The same layout as a single SVG, with each page of 30 labels stacked below the last
+export function renderLabelSheetSvg(labels: Label[], symbology: LabelSymbology): string {
+  const pages = Math.max(1, Math.ceil(labels.length / LABELS_PER_PAGE));
+  const symbol = symbolBox(symbology);
+  const text = textBox(symbology);
+  const characters = Math.floor(text.width / 5);
+
+  const body = labels.map((label, index) => {
+    const origin = labelOrigin(index);
+    const x = origin.x;
+    const y = origin.y + Math.floor(index / LABELS_PER_PAGE) * PAGE.height;
+
+    // Place the barcode's own <svg> inside the label by giving it a position and size
+    const barcode = bwipjs.toSVG(barcodeOptions(label.code, symbology))
+      .replace(/<svg ([^>]*)xmlns="[^"]*"([^>]*)>/, `<svg x="${x + symbol.x}" y="${y + symbol.y}" width="${symbol.width}" height="${symbol.height}" $1$2>`);
+
+    const lines = [
+      `<text x="${x + text.x}" y="${y + text.y + 9}" font-family="Helvetica, Arial, sans-serif" font-size="9" font-weight="bold">${escapeXml(truncate(label.title, characters))}</text>`,
+      label.subtitle
+        ? `<text x="${x + text.x}" y="${y + text.y + 20}" font-family="Helvetica, Arial, sans-serif" font-size="8">${escapeXml(truncate(label.subtitle, characters))}</text>`
+        : '',
+      `<text x="${x + text.x}" y="${y + text.y + (label.subtitle ? 30 : 20)}" font-family="Courier, monospace" font-size="7">${escapeXml(label.code)}</text>`,
+    ];
+    return `<g>${barcode}${lines.join('')}</g>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE.width}" height="${PAGE.height * pages}" viewBox="0 0 ${PAGE.width} ${PAGE.height * pages}">${body.join('')}</svg>`;
+}
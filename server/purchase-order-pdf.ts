@@ -0,0 +1,133 @@
+import PDFDocument from "pdfkit";
+import type { PurchaseOrderWithItems, Vendor } from "@shared/schema";
+
+const PAGE_MARGIN = 50;
+const ROW_HEIGHT = 20;
+
+// Column x offsets and widths for the line item table (letter page, 512pt of usable width)
+const COLUMNS = {
+  item: { x: PAGE_MARGIN, width: 190 },
+  vendor: { x: PAGE_MARGIN + 195, width: 120 },
+  quantity: { x: PAGE_MARGIN + 320, width: 50 },
+  price: { x: PAGE_MARGIN + 375, width: 65 },
+  total: { x: PAGE_MARGIN + 445, width: 67 },
+};
+
+// Prices are stored in cents
+const formatDollars = (cents: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(cents / 100);
+
+const formatDate = (date: Date | string) => new Date(date).toLocaleDateString('en-US');
+
+const formatStatus = (status: string) => {
+  const label = status.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+function drawVendorBlock(doc: PDFKit.PDFDocument, vendor: Vendor, x: number, y: number, width: number) {
+  doc.font('Helvetica-Bold').fontSize(10).text(vendor.name, x, y, { width });
+  doc.font('Helvetica').fontSize(9);
+  const lines = [vendor.contactInfo, vendor.address, vendor.phone, vendor.email].filter(Boolean) as string[];
+  for (const line of lines) {
+    doc.text(line, { width });
+  }
+  return doc.y;
+}
+
+function drawTableHeader(doc: PDFKit.PDFDocument, y: number) {
+  doc.font('Helvetica-Bold').fontSize(9);
+  doc.text('Item', COLUMNS.item.x, y, { width: COLUMNS.item.width });
+  doc.text('Vendor', COLUMNS.vendor.x, y, { width: COLUMNS.vendor.width });
+  doc.text('Qty', COLUMNS.quantity.x, y, { width: COLUMNS.quantity.width, align: 'right' });
+  doc.text('Unit Price', COLUMNS.price.x, y, { width: COLUMNS.price.width, align: 'right' });
+  doc.text('Total', COLUMNS.total.x, y, { width: COLUMNS.total.width, align: 'right' });
+  doc.moveTo(PAGE_MARGIN, y + 14).lineTo(doc.page.width - PAGE_MARGIN, y + 14).stroke();
+  return y + ROW_HEIGHT;
+}
+
+// Lay out a purchase order as a letter-size PDF. The document is already ended;
+// pipe it to the response to send it.
+export function renderPurchaseOrderPdf(purchaseOrder: PurchaseOrderWithItems): PDFKit.PDFDocument {
+  const doc = new PDFDocument({ size: 'LETTER', margin: PAGE_MARGIN, info: { Title: purchaseOrder.poNumber } });
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const pageBottom = () => doc.page.height - PAGE_MARGIN;
+
+  // Title block
+  doc.font('Helvetica-Bold').fontSize(20).text('PURCHASE ORDER', PAGE_MARGIN, PAGE_MARGIN);
+  doc.font('Helvetica').fontSize(10);
+  const detailsY = PAGE_MARGIN;
+  const detailsX = PAGE_MARGIN + contentWidth / 2;
+  const details = [
+    ['PO Number', purchaseOrder.poNumber],
+    ['Date', formatDate(purchaseOrder.dateOrdered)],
+    ['Status', formatStatus(purchaseOrder.status)],
+    ['Prepared by', purchaseOrder.createdByUser?.username ?? ''],
+  ];
+  details.forEach(([label, value], index) => {
+    const y = detailsY + index * 14;
+    doc.font('Helvetica-Bold').text(`${label}:`, detailsX, y, { width: 80 });
+    doc.font('Helvetica').text(value, detailsX + 80, y, { width: contentWidth / 2 - 80 });
+  });
+
+  // One block per vendor on the order, side by side
+  let y = detailsY + details.length * 14 + 20;
+  doc.font('Helvetica-Bold').fontSize(11).text('Vendor', PAGE_MARGIN, y);
+  y += 16;
+  const vendors = Array.from(new Map(purchaseOrder.items.map(item => [item.vendor.id, item.vendor])).values());
+  const blockWidth = contentWidth / 2 - 10;
+  let blockBottom = y;
+  vendors.forEach((vendor, index) => {
+    const column = index % 2;
+    if (index > 0 && column === 0) y = blockBottom + 10;
+    const bottom = drawVendorBlock(doc, vendor, PAGE_MARGIN + column * (blockWidth + 20), y, blockWidth);
+    blockBottom = Math.max(blockBottom, bottom);
+  });
+
+  // Line items
+  y = drawTableHeader(doc, blockBottom + 25);
+  doc.font('Helvetica').fontSize(9);
+  for (const item of purchaseOrder.items) {
+    const nameHeight = doc.heightOfString(item.supply.name, { width: COLUMNS.item.width });
+    const rowHeight = Math.max(ROW_HEIGHT, nameHeight + 6);
+    if (y + rowHeight > pageBottom()) {
+      doc.addPage();
+      y = drawTableHeader(doc, PAGE_MARGIN);
+      doc.font('Helvetica').fontSize(9);
+    }
+
+    doc.text(item.supply.name, COLUMNS.item.x, y, { width: COLUMNS.item.width });
+    doc.text(item.vendor.name, COLUMNS.vendor.x, y, { width: COLUMNS.vendor.width });
+    doc.text(String(item.quantity), COLUMNS.quantity.x, y, { width: COLUMNS.quantity.width, align: 'right' });
+    doc.text(formatDollars(item.pricePerUnit), COLUMNS.price.x, y, { width: COLUMNS.price.width, align: 'right' });
+    doc.text(formatDollars(item.totalPrice), COLUMNS.total.x, y, { width: COLUMNS.total.width, align: 'right' });
+    y += rowHeight;
+  }
+
+  // Totals
+  if (y + 60 > pageBottom()) {
+    doc.addPage();
+    y = PAGE_MARGIN;
+  }
+  doc.moveTo(COLUMNS.price.x, y).lineTo(doc.page.width - PAGE_MARGIN, y).stroke();
+  const totalUnits = purchaseOrder.items.reduce((sum, item) => sum + item.quantity, 0);
+  doc.font('Helvetica').fontSize(9)
+    .text('Units', COLUMNS.price.x, y + 6, { width: COLUMNS.price.width, align: 'right' })
+    .text(String(totalUnits), COLUMNS.total.x, y + 6, { width: COLUMNS.total.width, align: 'right' });
+  doc.font('Helvetica-Bold').fontSize(11)
+    .text('Total', COLUMNS.price.x, y + 22, { width: COLUMNS.price.width, align: 'right' })
+    .text(formatDollars(purchaseOrder.totalAmount), COLUMNS.total.x - 20, y + 22, { width: COLUMNS.total.width + 20, align: 'right' });
+  y += 50;
+
+  if (purchaseOrder.additionalComments) {
+    const commentsHeight = doc.font('Helvetica').fontSize(9).heightOfString(purchaseOrder.additionalComments, { width: contentWidth });
+    if (y + commentsHeight + 20 > pageBottom()) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+    doc.font('Helvetica-Bold').fontSize(10).text('Comments', PAGE_MARGIN, y);
+    doc.font('Helvetica').fontSize(9).text(purchaseOrder.additionalComments, PAGE_MARGIN, y + 14, { width: contentWidth });
+  }
+
+  doc.end();
+  return doc;
+}
@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import session from "express-session";
@@ -9,7 +9,11 @@ import path from "path";
 import fs from "fs";
 
 import { storage } from "./storage";
-import { createJobSchema, loginSchema, insertUserSchema, insertColorSchema, insertColorGroupSchema, insertSupplySchema, insertLocationSchema, insertVendorSchema, insertPurchaseOrderSchema, insertPurchaseOrderItemSchema } from "@shared/schema";
+import { parseCutlistCsv, buildJobImportPreview } from "./cutlist-import";
+import { renderPurchaseOrderPdf } from "./purchase-order-pdf";
+import { renderSupplyLedgerCsv } from "./supply-ledger-csv";
+import { renderLabelSheetPdf, renderLabelSheetSvg, parseLabelCode, supplyLabelCode, locationLabelCode, sheetLabelCode, type Label } from "./labels";
+import { createJobSchema, importJobSchema, loginSchema, insertUserSchema, insertColorSchema, insertColorGroupSchema, insertSupplySchema, insertLocationSchema, deleteLocationSchema, insertVendorSchema, insertVendorSupplySchema, deleteVendorSchema, insertPurchaseOrderSchema, insertPurchaseOrderItemSchema, appSettingsSchema, reorderPurchaseOrdersSchema, receivePurchaseOrderSchema, updatePurchaseOrderSchema, updatePurchaseOrderStatusSchema, purchaseAnalyticsFilterSchema, supplyCheckInOutSchema, transferSupplyStockSchema, supplyLedgerFilterSchema, supplyQuantityUpdateSchema, supplyAllocationSchema, createInventoryCountSchema, addInventoryCountLineSchema, recordInventoryCountSchema, labelSheetQuerySchema, reportDateRangeSchema, insertRecutReasonSchema, addRecutSchema, updateSheetStatusSchema, type LabelSymbology, type ScanResult, purchaseOrderTransitions, receivableStatuses, type PurchaseOrderStatus } from "@shared/schema";
 import { pool } from "./db";
 import "./types";
 
@@ -46,6 +50,21 @@ const upload = multer({
   }
 });
 
+// Cutlist CSV uploads are parsed in memory and never written to disk
+const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 1024 * 1024, // 1MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'text/csv' || file.mimetype === 'application/vnd.ms-excel' || file.originalname.toLowerCase().endsWith('.csv')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV files are allowed'));
+    }
+  }
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Session configuration
   const PgSession = ConnectPgSimple(session);
@@ -209,11 +228,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Job routes
   app.get("/api/jobs", requireAuth, async (req, res) => {
     try {
-      const { search, status } = req.query;
-      console.log('Fetching jobs with search:', search, 'status:', status);
+      const { search, status, archived } = req.query;
+      console.log('Fetching jobs with search:', search, 'status:', status, 'archived:', archived);
       const jobs = await storage.getAllJobs(
         search as string, 
-        status as string
+        status as string,
+        archived === 'true'
       );
       console.log('Found jobs:', jobs.length);
       res.json(jobs);
@@ -287,6 +307,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
+  // Parse an optimizer cutlist CSV and match its materials without creating anything
+  app.post("/api/jobs/import/preview", requireAuth, csvUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const parsed = parseCutlistCsv(req.file.buffer.toString('utf8'));
+      // Match against the same supplies the job modal offers
+      const materials = await storage.getAllSupplies();
+      const preview = buildJobImportPreview(parsed, materials);
+
+      res.json(preview);
+    } catch (error) {
+      console.error('Cutlist import preview error:', error);
+      res.status(500).json({ message: "Failed to read cutlist file" });
+    }
+  });
+
+  app.post("/api/jobs/import", requireAuth, async (req, res) => {
+    try {
+      const jobData = importJobSchema.parse(req.body);
+      const job = await storage.importJob(jobData);
+      
+      broadcastToClients({ type: 'job_created', data: job });
+      
+      res.json(job);
+    } catch (error) {
+      console.error('Cutlist import error:', error);
+      res.status(400).json({ message: "Invalid job data" });
+    }
+  });
+
   app.post("/api/jobs/:id/pause", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -321,21 +374,100 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Purge every archived job that has been in the trash longer than the retention period
+  app.post("/api/jobs/trash/purge", requireAdmin, async (req, res) => {
+    try {
+      const { jobTrashRetentionDays } = await storage.getAppSettings();
+      const archivedBefore = new Date(Date.now() - jobTrashRetentionDays * 24 * 60 * 60 * 1000);
+      
+      const purged = await storage.purgeArchivedJobs(archivedBefore);
+      
+      broadcastToClients({ type: 'job_deleted', data: { purged } });
+      
+      res.json({ message: `${purged} archived job(s) purged`, purged });
+    } catch (error) {
+      console.error('Purge trash error:', error);
+      res.status(500).json({ message: "Failed to purge archived jobs" });
+    }
+  });
+
+  // Deleting a job moves it to the trash; its cut history stays in the dashboard numbers
   app.delete("/api/jobs/:id", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.deletedAt) {
+        return res.json({ message: "Job is already in the trash" });
+      }
       
-      await storage.deleteJob(id);
+      await storage.archiveJob(id, req.session.user?.id);
       
       broadcastToClients({ type: 'job_deleted', data: { id } });
       
-      res.json({ message: "Job deleted successfully" });
+      res.json({ message: "Job moved to trash" });
     } catch (error) {
       console.error('Delete job error:', error);
       res.status(500).json({ message: "Failed to delete job" });
     }
   });
 
+  app.post("/api/jobs/:id/restore", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const archived = await storage.getJob(id);
+      if (!archived) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (!archived.deletedAt) {
+        return res.status(409).json({ message: "Job is not in the trash" });
+      }
+      
+      await storage.restoreJob(id);
+      
+      const job = await storage.getJob(id);
+      broadcastToClients({ type: 'job_restored', data: job });
+      
+      res.json({ message: "Job restored successfully", job });
+    } catch (error) {
+      console.error('Restore job error:', error);
+      res.status(500).json({ message: "Failed to restore job" });
+    }
+  });
+
+  // Permanently erase a single archived job once its retention period has passed
+  app.delete("/api/jobs/:id/purge", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (!job.deletedAt) {
+        return res.status(400).json({ message: "Only archived jobs can be purged" });
+      }
+
+      const { jobTrashRetentionDays } = await storage.getAppSettings();
+      const purgeAllowedAt = new Date(job.deletedAt).getTime() + jobTrashRetentionDays * 24 * 60 * 60 * 1000;
+      if (Date.now() < purgeAllowedAt) {
+        return res.status(400).json({ 
+          message: `Job can be purged after ${new Date(purgeAllowedAt).toLocaleDateString()}` 
+        });
+      }
+      
+      await storage.deleteJob(id);
+      
+      broadcastToClients({ type: 'job_deleted', data: { id } });
+      
+      res.json({ message: "Job purged permanently" });
+    } catch (error) {
+      console.error('Purge job error:', error);
+      res.status(500).json({ message: "Failed to purge job" });
+    }
+  });
+
   app.put("/api/materials/:id/progress", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -371,10 +503,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Update individual sheet status
   app.post("/api/materials/:materialId/sheets/:sheetIndex", requireAuth, async (req, res) => {
+    const parsed = updateSheetStatusSchema.safeParse({ ...req.body, sheetIndex: req.params.sheetIndex });
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid sheet status" });
+    }
+
     try {
       const materialId = parseInt(req.params.materialId);
-      const sheetIndex = parseInt(req.params.sheetIndex);
-      const { status } = req.body;
+      const { sheetIndex, status } = parsed.data;
       const userId = req.session.user?.id;
       
       console.log('Updating sheet status:', { materialId, sheetIndex, status, userId });
@@ -386,14 +522,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({ message: "Sheet status updated" });
     } catch (error) {
       console.error('Update sheet status error:', error);
-      res.status(500).json({ message: "Failed to update sheet status" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update sheet status" });
     }
   });
 
   app.put("/api/materials/:id/sheet-status", requireAuth, async (req, res) => {
+    const parsed = updateSheetStatusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid sheet status" });
+    }
+
     try {
       const id = parseInt(req.params.id);
-      const { sheetIndex, status } = req.body;
+      const { sheetIndex, status } = parsed.data;
       const userId = req.session.user?.id;
       
       await storage.updateSheetStatus(id, sheetIndex, status, userId);
@@ -402,7 +543,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json({ message: "Sheet status updated" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update sheet status" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update sheet status" });
     }
   });
 
@@ -410,6 +551,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const materialId = parseInt(req.params.id);
       const sheetIndex = parseInt(req.params.sheetIndex);
+      const material = await storage.getJobMaterial(materialId);
+      if (!material || !(sheetIndex >= 0 && sheetIndex < material.totalSheets)) {
+        return res.status(404).json({ message: "Sheet not found" });
+      }
       
       await storage.deleteSheet(materialId, sheetIndex);
       
@@ -422,20 +567,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Recut reason codes
+  app.get("/api/recut-reasons", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getRecutReasons());
+    } catch (error) {
+      console.error('Get recut reasons error:', error);
+      res.status(500).json({ message: "Failed to fetch recut reasons" });
+    }
+  });
+
+  app.post("/api/recut-reasons", requireAdmin, async (req, res) => {
+    const parsed = insertRecutReasonSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid recut reason" });
+    }
+
+    try {
+      res.json(await storage.createRecutReason(parsed.data));
+    } catch (error) {
+      console.error('Create recut reason error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create recut reason" });
+    }
+  });
+
+  app.put("/api/recut-reasons/:id", requireAdmin, async (req, res) => {
+    const parsed = insertRecutReasonSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid recut reason" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (!await storage.getRecutReason(id)) {
+        return res.status(404).json({ message: "Recut reason not found" });
+      }
+
+      res.json(await storage.updateRecutReason(id, parsed.data));
+    } catch (error) {
+      console.error('Update recut reason error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update recut reason" });
+    }
+  });
+
+  // Reasons already used by recuts are kept for the report; deactivate them instead
+  app.delete("/api/recut-reasons/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const reason = await storage.getRecutReason(id);
+      if (!reason) {
+        return res.status(404).json({ message: "Recut reason not found" });
+      }
+      if (reason.recutCount > 0) {
+        return res.status(409).json({ message: "This reason is used by existing recuts; deactivate it instead" });
+      }
+
+      await storage.deleteRecutReason(id);
+      res.json({ message: "Recut reason deleted" });
+    } catch (error) {
+      console.error('Delete recut reason error:', error);
+      res.status(500).json({ message: "Failed to delete recut reason" });
+    }
+  });
+
   // Add recut entry
   app.post("/api/materials/:id/recuts", requireAuth, async (req, res) => {
+    const parsed = addRecutSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid recut entry" });
+    }
+
     try {
       const materialId = parseInt(req.params.id);
-      const { quantity, reason } = req.body;
-      const userId = (req as any).user?.id;
-      
-      if (!quantity || quantity < 1) {
-        return res.status(400).json({ message: 'Invalid recut quantity' });
+      const { quantity, reasonId, note } = parsed.data;
+      const userId = req.session.user?.id;
+
+      const reason = await storage.getRecutReason(reasonId);
+      if (!reason || !reason.isActive) {
+        return res.status(400).json({ message: 'Choose an active recut reason' });
       }
       
-      await storage.addRecutEntry(materialId, quantity, reason, userId);
+      await storage.addRecutEntry(materialId, quantity, reasonId, note || undefined, userId);
       
-      broadcastToClients({ type: 'recut_added', data: { materialId, quantity, reason } });
+      broadcastToClients({ type: 'recut_added', data: { materialId, quantity, reasonId } });
       
       res.json({ message: 'Recut entry added successfully' });
     } catch (error) {
@@ -460,13 +674,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/jobs/:id/materials", requireAuth, async (req, res) => {
     try {
       const jobId = parseInt(req.params.id);
-      const { colorId, totalSheets } = req.body;
+      const { supplyId, totalSheets } = req.body;
       
-      if (!colorId || !totalSheets || totalSheets < 1) {
-        return res.status(400).json({ message: "Color ID and valid sheet count required" });
+      if (!supplyId || !totalSheets || totalSheets < 1) {
+        return res.status(400).json({ message: "Supply ID and valid sheet count required" });
       }
       
-      await storage.addMaterialToJob(jobId, colorId, totalSheets);
+      await storage.addMaterialToJob(jobId, supplyId, totalSheets);
       
       broadcastToClients({ type: 'job_updated', data: { jobId } });
       
@@ -511,9 +725,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Update recut sheet status
   app.put("/api/recuts/:id/sheet-status", requireAuth, async (req, res) => {
+    const parsed = updateSheetStatusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid sheet status" });
+    }
+
     try {
       const recutId = parseInt(req.params.id);
-      const { sheetIndex, status } = req.body;
+      const { sheetIndex, status } = parsed.data;
       const userId = req.session.user?.id;
       
       await storage.updateRecutSheetStatus(recutId, sheetIndex, status, userId);
@@ -523,7 +742,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({ message: "Recut sheet status updated" });
     } catch (error) {
       console.error('Update recut sheet status error:', error);
-      res.status(500).json({ message: "Failed to update recut sheet status" });
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update recut sheet status" });
+    }
+  });
+
+  // Sheet activity for a job, newest first
+  app.get("/api/jobs/:id/sheet-activity", requireAuth, async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const job = await storage.getJob(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      res.json(await storage.getSheetActivity(jobId));
+    } catch (error) {
+      console.error('Get sheet activity error:', error);
+      res.status(500).json({ message: "Failed to fetch sheet activity" });
+    }
+  });
+
+  // Revert a sheet change, restoring the status the sheet had before it
+  app.post("/api/sheet-activity/:id/revert", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const entry = await storage.getSheetActivityEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Sheet change not found" });
+      }
+      if (!entry.isLatest) {
+        return res.status(409).json({ message: "Only the latest change to a sheet can be reverted" });
+      }
+
+      await storage.revertSheetChange(id, req.session.user?.id);
+
+      if (entry.isRecut) {
+        broadcastToClients({ type: 'recut_sheet_status_updated', data: { recutId: entry.recutId, sheetIndex: entry.sheetIndex, status: entry.previousStatus } });
+      } else {
+        broadcastToClients({ type: 'sheet_status_updated', data: { materialId: entry.materialId, sheetIndex: entry.sheetIndex, status: entry.previousStatus } });
+      }
+
+      res.json({ message: "Sheet change reverted" });
+    } catch (error) {
+      console.error('Revert sheet change error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to revert sheet change" });
     }
   });
 
@@ -562,7 +824,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Colors API (redirected to supplies for backward compatibility)
+  // Colors API - read-only view of supplies kept for older clients; manage materials through /api/supplies
   app.get("/api/colors", requireAuth, async (req, res) => {
     try {
       const supplies = await storage.getAllSupplies();
@@ -584,66 +846,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/colors", requireAuth, async (req, res) => {
-    try {
-      const colorData = req.body;
-      // Transform color data to supply format
-      const supplyData = {
-        name: colorData.name,
-        hexColor: colorData.hexColor,
-        pieceSize: 'sheet',
-        quantityOnHand: 0,
-        locationId: colorData.groupId,
-        texture: colorData.texture,
-        defaultVendor: '',
-        defaultVendorPrice: undefined
-      };
-      const supply = await storage.createSupply(supplyData);
-      // Transform back to color format
-      const color = {
-        id: supply.id,
-        name: supply.name,
-        hexColor: supply.hexColor,
-        groupId: supply.locationId,
-        texture: supply.texture,
-        createdAt: supply.createdAt,
-        updatedAt: supply.updatedAt
-      };
-      res.json(color);
-    } catch (error) {
-      console.error("Error creating color:", error);
-      res.status(500).json({ message: "Failed to create color" });
-    }
+  // The list only answers GET; single colors no longer exist, so their routes are gone
+  app.all("/api/colors", requireAuth, (req, res) => {
+    res.set('Allow', 'GET').status(405).json({ message: "Colors are read-only, use /api/supplies to manage materials" });
   });
 
-  app.put("/api/colors/:id", requireAuth, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const colorData = req.body;
-      // Transform color data to supply format
-      const supplyData = {
-        name: colorData.name,
-        hexColor: colorData.hexColor,
-        locationId: colorData.groupId,
-        texture: colorData.texture
-      };
-      await storage.updateSupply(id, supplyData);
-      res.json({ message: "Color updated successfully" });
-    } catch (error) {
-      console.error("Error updating color:", error);
-      res.status(500).json({ message: "Failed to update color" });
-    }
-  });
-
-  app.delete("/api/colors/:id", requireAuth, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      await storage.deleteSupply(id);
-      res.json({ message: "Color deleted successfully" });
-    } catch (error) {
-      console.error("Error deleting color:", error);
-      res.status(500).json({ message: "Failed to delete color" });
-    }
+  app.all("/api/colors/:id", requireAuth, (req, res) => {
+    res.status(410).json({ message: "Colors have been replaced by supplies, use /api/supplies/:id instead" });
   });
 
   // Color group routes
@@ -705,6 +914,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Supplies whose free stock has dropped below their minimum quantity
+  app.get("/api/supplies/reorder", requireAuth, async (req, res) => {
+    try {
+      const items = await storage.getSuppliesToReorder();
+      res.json(items);
+    } catch (error) {
+      console.error('Reorder report error:', error);
+      res.status(500).json({ message: "Failed to fetch reorder report" });
+    }
+  });
+
+  // Per-location stock rows, for every supply or just one (?supplyId=)
+  app.get("/api/supplies/stock", requireAuth, async (req, res) => {
+    try {
+      const supplyId = req.query.supplyId ? parseInt(req.query.supplyId as string) : undefined;
+      const stock = await storage.getSupplyStock(supplyId);
+      res.json(stock);
+    } catch (error) {
+      console.error('Supply stock error:', error);
+      res.status(500).json({ message: "Failed to fetch supply stock" });
+    }
+  });
+
   app.post("/api/supplies", requireAuth, async (req, res) => {
     try {
       console.log('Creating supply with data:', req.body);
@@ -722,7 +954,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const id = parseInt(req.params.id);
       console.log('Updating supply', id, 'with data:', req.body);
       const supplyData = insertSupplySchema.partial().parse(req.body);
-      await storage.updateSupply(id, supplyData);
+      await storage.updateSupply(id, supplyData, req.session.user?.id);
       res.json({ message: "Supply updated successfully" });
     } catch (error) {
       console.error('Update supply error:', error);
@@ -733,6 +965,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/supplies/:id", requireAuth, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      if (!await storage.getSupply(id)) {
+        return res.status(404).json({ message: "Supply not found" });
+      }
+      if (await storage.isSupplyOnPostedCount(id)) {
+        return res.status(409).json({ message: "Supply is part of a posted inventory count and cannot be deleted" });
+      }
+
       await storage.deleteSupply(id);
       res.json({ message: "Supply deleted successfully" });
     } catch (error) {
@@ -741,28 +980,413 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.post("/api/supplies/:id/quantity", requireAuth, async (req, res) => {
+    const parsed = supplyQuantityUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid quantity update data" });
+    }
+
     try {
       const id = parseInt(req.params.id);
-      const { quantity, type, description, jobId } = req.body;
+      const supply = await storage.getSupply(id);
+      if (!supply) {
+        return res.status(404).json({ message: "Supply not found" });
+      }
+
+      const { quantity, type, description, jobId, allowNegative } = parsed.data;
       const userId = req.session.user?.id;
-      
-      await storage.updateSupplyQuantity(id, quantity, type, description, jobId, userId);
+
+      await storage.updateSupplyQuantity(id, quantity, type, description, jobId, userId, allowNegative);
       res.json({ message: "Supply quantity updated successfully" });
     } catch (error) {
-      res.status(400).json({ message: "Invalid quantity update data" });
+      console.error('Supply quantity error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Invalid quantity update data" });
     }
   });
 
   app.post("/api/supplies/:id/allocate", requireAuth, async (req, res) => {
+    const parsed = supplyAllocationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid allocation data" });
+    }
+
     try {
       const id = parseInt(req.params.id);
-      const { quantity, jobId } = req.body;
+      const supply = await storage.getSupply(id);
+      if (!supply) {
+        return res.status(404).json({ message: "Supply not found" });
+      }
+
+      const { quantity, jobId } = parsed.data;
       const userId = req.session.user?.id;
-      
+
       await storage.allocateSupplyForJob(id, quantity, jobId, userId);
       res.json({ message: "Supply allocated successfully" });
     } catch (error) {
-      res.status(400).json({ message: "Invalid allocation data" });
+      console.error('Supply allocation error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Invalid allocation data" });
+    }
+  });
+
+  // Move stock between locations; the total on hand is unchanged
+  app.post("/api/supplies/:id/transfer", requireAuth, async (req, res) => {
+    const parsed = transferSupplyStockSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid transfer data" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      const supply = await storage.getSupply(id);
+      if (!supply) {
+        return res.status(404).json({ message: "Supply not found" });
+      }
+
+      const stock = await storage.transferSupplyStock(id, parsed.data, req.session.user?.id);
+      res.json(stock);
+    } catch (error) {
+      console.error('Supply transfer error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to transfer stock" });
+    }
+  });
+
+  app.get("/api/supplies/:id/transactions", requireAuth, async (req, res) => {
+    const parsed = supplyLedgerFilterSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid ledger filter" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      const supply = await storage.getSupply(id);
+      if (!supply) {
+        return res.status(404).json({ message: "Supply not found" });
+      }
+
+      const transactions = await storage.getSupplyTransactions({ ...parsed.data, supplyId: id });
+      res.json(transactions);
+    } catch (error) {
+      console.error('Supply transactions error:', error);
+      res.status(500).json({ message: "Failed to fetch supply transactions" });
+    }
+  });
+
+  // Ledger of every stock movement across all supplies
+  app.get("/api/supply-transactions", requireAuth, async (req, res) => {
+    const parsed = supplyLedgerFilterSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid ledger filter" });
+    }
+
+    try {
+      const transactions = await storage.getSupplyTransactions(parsed.data);
+      res.json(transactions);
+    } catch (error) {
+      console.error('Supply ledger error:', error);
+      res.status(500).json({ message: "Failed to fetch supply ledger" });
+    }
+  });
+
+  // Same filters as the ledger, downloaded as CSV
+  app.get("/api/supply-transactions/export", requireAuth, async (req, res) => {
+    const parsed = supplyLedgerFilterSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid ledger filter" });
+    }
+
+    try {
+      const transactions = await storage.getSupplyTransactions(parsed.data);
+      const filename = `supply-ledger-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(renderSupplyLedgerCsv(transactions));
+    } catch (error) {
+      console.error('Supply ledger export error:', error);
+      res.status(500).json({ message: "Failed to export supply ledger" });
+    }
+  });
+
+  // Inventory count routes
+  app.get("/api/inventory-counts", requireAuth, async (req, res) => {
+    try {
+      const counts = await storage.getInventoryCounts();
+      res.json(counts);
+    } catch (error) {
+      console.error('Inventory counts error:', error);
+      res.status(500).json({ message: "Failed to fetch inventory counts" });
+    }
+  });
+
+  app.get("/api/inventory-counts/:id", requireAuth, async (req, res) => {
+    try {
+      const count = await storage.getInventoryCount(parseInt(req.params.id));
+      if (!count) {
+        return res.status(404).json({ message: "Inventory count not found" });
+      }
+      res.json(count);
+    } catch (error) {
+      console.error('Inventory count error:', error);
+      res.status(500).json({ message: "Failed to fetch inventory count" });
+    }
+  });
+
+  app.post("/api/inventory-counts", requireAuth, async (req, res) => {
+    const parsed = createInventoryCountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid inventory count" });
+    }
+
+    try {
+      const count = await storage.createInventoryCount(parsed.data, req.session.user!.id);
+      res.json(count);
+    } catch (error) {
+      console.error('Create inventory count error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to start inventory count" });
+    }
+  });
+
+  app.post("/api/inventory-counts/:id/lines", requireAuth, async (req, res) => {
+    const parsed = addInventoryCountLineSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid count line" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      const count = await storage.getInventoryCount(id);
+      if (!count) {
+        return res.status(404).json({ message: "Inventory count not found" });
+      }
+      if (count.status !== 'open') {
+        return res.status(409).json({ message: "Only open counts can be changed" });
+      }
+
+      const line = await storage.addInventoryCountLine(id, parsed.data.supplyId, parsed.data.locationId);
+      res.json(line);
+    } catch (error) {
+      console.error('Add inventory count line error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to add count line" });
+    }
+  });
+
+  // Save counted quantities; the tablet sends whatever has been entered so far
+  app.put("/api/inventory-counts/:id/lines", requireAuth, async (req, res) => {
+    const parsed = recordInventoryCountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid counted quantities" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      const count = await storage.getInventoryCount(id);
+      if (!count) {
+        return res.status(404).json({ message: "Inventory count not found" });
+      }
+      if (count.status !== 'open') {
+        return res.status(409).json({ message: "Only open counts can be changed" });
+      }
+
+      await storage.recordInventoryCount(id, parsed.data, req.session.user?.id);
+      res.json(await storage.getInventoryCount(id));
+    } catch (error) {
+      console.error('Record inventory count error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to save counted quantities" });
+    }
+  });
+
+  // Posting approves the count and adjusts stock, so it needs an admin
+  app.post("/api/inventory-counts/:id/post", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const count = await storage.getInventoryCount(id);
+      if (!count) {
+        return res.status(404).json({ message: "Inventory count not found" });
+      }
+      if (count.status !== 'open') {
+        return res.status(409).json({ message: "Only open counts can be posted" });
+      }
+
+      await storage.postInventoryCount(id, req.session.user!.id);
+      res.json(await storage.getInventoryCount(id));
+    } catch (error) {
+      console.error('Post inventory count error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to post inventory count" });
+    }
+  });
+
+  app.post("/api/inventory-counts/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const count = await storage.getInventoryCount(id);
+      if (!count) {
+        return res.status(404).json({ message: "Inventory count not found" });
+      }
+      if (count.status !== 'open') {
+        return res.status(409).json({ message: "Only open counts can be cancelled" });
+      }
+
+      await storage.cancelInventoryCount(id);
+      res.json({ message: "Inventory count cancelled" });
+    } catch (error) {
+      console.error('Cancel inventory count error:', error);
+      res.status(500).json({ message: "Failed to cancel inventory count" });
+    }
+  });
+
+  // Label sheet routes - printable barcodes for the floor; /api/scan resolves what they encode
+  const sendLabelSheet = async (res: Response, labels: Label[], format: 'pdf' | 'svg', symbology: LabelSymbology, filename: string) => {
+    if (format === 'svg') {
+      res.setHeader('Content-Type', 'image/svg+xml');
+      res.setHeader('Content-Disposition', `inline; filename="${filename}.svg"`);
+      res.send(renderLabelSheetSvg(labels, symbology));
+      return;
+    }
+
+    const doc = await renderLabelSheetPdf(labels, symbology);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${filename}.pdf"`);
+    doc.pipe(res);
+  };
+
+  app.get("/api/labels/supplies", requireAuth, async (req, res) => {
+    const parsed = labelSheetQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid label request" });
+    }
+
+    try {
+      const { ids, format, symbology } = parsed.data;
+      const supplies = (await storage.getAllSupplies()).filter(supply => !ids || ids.includes(supply.id));
+      if (supplies.length === 0) {
+        return res.status(404).json({ message: "No supplies to label" });
+      }
+
+      const labels = supplies.map(supply => ({
+        code: supplyLabelCode(supply.id),
+        title: supply.name,
+        subtitle: [supply.pieceSize, supply.location?.name].filter(Boolean).join(' • '),
+      }));
+      await sendLabelSheet(res, labels, format, symbology, 'supply-labels');
+    } catch (error) {
+      console.error('Supply labels error:', error);
+      res.status(500).json({ message: "Failed to generate supply labels" });
+    }
+  });
+
+  app.get("/api/labels/locations", requireAuth, async (req, res) => {
+    const parsed = labelSheetQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid label request" });
+    }
+
+    try {
+      const { ids, format, symbology } = parsed.data;
+      const locations = (await storage.getAllLocations()).filter(location => !ids || ids.includes(location.id));
+      if (locations.length === 0) {
+        return res.status(404).json({ message: "No locations to label" });
+      }
+
+      const labels = locations.map(location => ({
+        code: locationLabelCode(location.id),
+        title: location.name,
+        subtitle: location.description || undefined,
+      }));
+      await sendLabelSheet(res, labels, format, symbology, 'location-labels');
+    } catch (error) {
+      console.error('Location labels error:', error);
+      res.status(500).json({ message: "Failed to generate location labels" });
+    }
+  });
+
+  // One label per sheet of each material on the job; ids narrows it to some materials
+  app.get("/api/labels/jobs/:id/sheets", requireAuth, async (req, res) => {
+    const parsed = labelSheetQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid label request" });
+    }
+
+    try {
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const { ids, format, symbology } = parsed.data;
+      const labels: Label[] = [];
+      for (const cutlist of job.cutlists) {
+        for (const material of cutlist.materials) {
+          if (ids && !ids.includes(material.id)) continue;
+          for (let sheetIndex = 0; sheetIndex < material.totalSheets; sheetIndex++) {
+            labels.push({
+              code: sheetLabelCode(material.id, sheetIndex),
+              title: `${job.jobNumber} ${job.customerName}`,
+              subtitle: `${material.supply.name} • Sheet ${sheetIndex + 1} of ${material.totalSheets}`,
+            });
+          }
+        }
+      }
+      if (labels.length === 0) {
+        return res.status(404).json({ message: "No sheets to label" });
+      }
+
+      await sendLabelSheet(res, labels, format, symbology, `${job.jobNumber}-sheet-labels`);
+    } catch (error) {
+      console.error('Sheet labels error:', error);
+      res.status(500).json({ message: "Failed to generate sheet labels" });
+    }
+  });
+
+  // Resolve a scanned label to the supply, location or sheet it was printed for
+  app.get("/api/scan/:code", requireAuth, async (req, res) => {
+    const code = req.params.code.trim().toUpperCase();
+    const parsed = parseLabelCode(code);
+    if (!parsed) {
+      return res.status(400).json({ message: "Unrecognised label code" });
+    }
+
+    try {
+      let result: ScanResult;
+      if (parsed.kind === 'supply') {
+        const supply = await storage.getSupply(parsed.supplyId);
+        if (!supply) {
+          return res.status(404).json({ message: "Supply not found" });
+        }
+        result = { kind: 'supply', code, supply, stock: await storage.getSupplyStock(supply.id) };
+      } else if (parsed.kind === 'location') {
+        const location = await storage.getLocation(parsed.locationId);
+        if (!location) {
+          return res.status(404).json({ message: "Location not found" });
+        }
+        const stock = (await storage.getSupplyStock()).filter(row => row.locationId === location.id);
+        result = { kind: 'location', code, location, stock };
+      } else {
+        const material = await storage.getJobMaterial(parsed.materialId);
+        if (!material || parsed.sheetIndex >= material.totalSheets) {
+          return res.status(404).json({ message: "Sheet not found" });
+        }
+        const status = material.sheetStatuses?.[parsed.sheetIndex] ?? 'pending';
+        result = { kind: 'sheet', code, material, sheetIndex: parsed.sheetIndex, status };
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Scan error:', error);
+      res.status(500).json({ message: "Failed to resolve scanned code" });
+    }
+  });
+
+  // Check stock in or out by hand from the Check-In / Check-Out form
+  app.post("/api/supplies/check-in-out", requireAuth, async (req, res) => {
+    const parsed = supplyCheckInOutSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid check-in/check-out data" });
+    }
+
+    try {
+      const supply = await storage.checkInOutSupply(parsed.data, req.session.user?.id);
+      res.json(supply);
+    } catch (error) {
+      console.error('Check-in/check-out error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to record stock movement" });
     }
   });
 
@@ -787,23 +1411,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.put("/api/locations/:id", requireAuth, async (req, res) => {
+    const parsed = insertLocationSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid location data" });
+    }
+
     try {
       const id = parseInt(req.params.id);
-      const { name } = req.body;
-      await storage.updateLocation(id, name);
-      res.json({ message: "Location updated successfully" });
+      if (!await storage.getLocation(id)) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+
+      const location = await storage.updateLocation(id, parsed.data);
+      res.json(location);
     } catch (error) {
+      console.error('Update location error:', error);
       res.status(400).json({ message: "Invalid location data" });
     }
   });
 
+  // Locations that still hold supplies need ?reassignToLocationId=... to move them first
   app.delete("/api/locations/:id", requireAuth, async (req, res) => {
+    const parsed = deleteLocationSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid location to reassign to" });
+    }
+
     try {
       const id = parseInt(req.params.id);
-      await storage.deleteLocation(id);
+      const { reassignToLocationId } = parsed.data;
+      const location = await storage.getLocation(id);
+      if (!location) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+
+      if (!reassignToLocationId) {
+        if (location.itemCount > 0) {
+          return res.status(409).json({
+            message: `Location still holds ${location.itemCount} supplies; choose a location to move them to`,
+            itemCount: location.itemCount
+          });
+        }
+      } else if (reassignToLocationId === id || !await storage.getLocation(reassignToLocationId)) {
+        return res.status(400).json({ message: "Choose a different existing location to reassign to" });
+      }
+
+      await storage.deleteLocation(id, reassignToLocationId);
       res.json({ message: "Location deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete location" });
+      console.error('Delete location error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to delete location" });
     }
   });
 
@@ -827,6 +1484,127 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put("/api/vendors/:id", requireAuth, async (req, res) => {
+    const parsed = insertVendorSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid vendor data" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      if (!await storage.getVendor(id)) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+
+      const vendor = await storage.updateVendor(id, parsed.data);
+      res.json(vendor);
+    } catch (error) {
+      console.error('Update vendor error:', error);
+      res.status(500).json({ message: "Failed to update vendor" });
+    }
+  });
+
+  // Vendors still in use need ?reassignToVendorId=... to move their supplies and order lines first
+  app.delete("/api/vendors/:id", requireAuth, async (req, res) => {
+    const parsed = deleteVendorSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid vendor to reassign to" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      const { reassignToVendorId } = parsed.data;
+      if (!await storage.getVendor(id)) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+
+      if (!reassignToVendorId) {
+        const usage = await storage.getVendorUsage(id);
+        if (usage.supplies > 0 || usage.purchaseOrderItems > 0) {
+          return res.status(409).json({
+            message: `Vendor is used by ${usage.supplies} supplies and ${usage.purchaseOrderItems} purchase order lines; choose a vendor to reassign them to`,
+            usage
+          });
+        }
+      } else if (reassignToVendorId === id || !await storage.getVendor(reassignToVendorId)) {
+        return res.status(400).json({ message: "Choose a different existing vendor to reassign to" });
+      }
+
+      await storage.deleteVendor(id, reassignToVendorId);
+      res.json({ message: "Vendor deleted successfully" });
+    } catch (error) {
+      console.error('Delete vendor error:', error);
+      res.status(500).json({ message: "Failed to delete vendor" });
+    }
+  });
+
+  // Vendor supply catalog: what each vendor sells, with SKU, price and lead time
+  app.get("/api/vendors/:id/supplies", requireAuth, async (req, res) => {
+    try {
+      const catalog = await storage.getVendorSupplies({ vendorId: parseInt(req.params.id) });
+      res.json(catalog);
+    } catch (error) {
+      console.error('Get vendor supplies error:', error);
+      res.status(500).json({ message: "Failed to fetch vendor supplies" });
+    }
+  });
+
+  app.get("/api/supplies/:id/vendors", requireAuth, async (req, res) => {
+    try {
+      const catalog = await storage.getVendorSupplies({ supplyId: parseInt(req.params.id) });
+      res.json(catalog);
+    } catch (error) {
+      console.error('Get supply vendors error:', error);
+      res.status(500).json({ message: "Failed to fetch supply vendors" });
+    }
+  });
+
+  app.post("/api/vendors/:id/supplies", requireAuth, async (req, res) => {
+    const parsed = insertVendorSupplySchema.safeParse({ ...req.body, vendorId: parseInt(req.params.id) });
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid vendor supply data" });
+    }
+
+    try {
+      const existing = await storage.getVendorSupplies(parsed.data);
+      if (existing.length > 0) {
+        return res.status(409).json({ message: "This vendor already has a price for that supply" });
+      }
+
+      const vendorSupply = await storage.createVendorSupply(parsed.data);
+      res.json(vendorSupply);
+    } catch (error) {
+      console.error('Create vendor supply error:', error);
+      res.status(500).json({ message: "Failed to add vendor supply" });
+    }
+  });
+
+  app.put("/api/vendor-supplies/:id", requireAuth, async (req, res) => {
+    // The vendor and supply of an entry are fixed; only its terms change
+    const parsed = insertVendorSupplySchema.omit({ vendorId: true, supplyId: true }).partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid vendor supply data" });
+    }
+
+    try {
+      const vendorSupply = await storage.updateVendorSupply(parseInt(req.params.id), parsed.data);
+      res.json(vendorSupply);
+    } catch (error) {
+      console.error('Update vendor supply error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update vendor supply" });
+    }
+  });
+
+  app.delete("/api/vendor-supplies/:id", requireAuth, async (req, res) => {
+    try {
+      await storage.deleteVendorSupply(parseInt(req.params.id));
+      res.json({ message: "Vendor supply deleted successfully" });
+    } catch (error) {
+      console.error('Delete vendor supply error:', error);
+      res.status(500).json({ message: "Failed to delete vendor supply" });
+    }
+  });
+
   // Purchase order routes
   app.get("/api/purchase-orders", requireAuth, async (req, res) => {
     try {
@@ -841,16 +1619,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Price history per supply and vendor, and spend per month, from placed orders
+  app.get("/api/purchase-orders/analytics", requireAuth, async (req, res) => {
+    const parsed = purchaseAnalyticsFilterSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid analytics filter" });
+    }
+
+    try {
+      const analytics = await storage.getPurchaseAnalytics(parsed.data);
+      res.json(analytics);
+    } catch (error) {
+      console.error('Purchase analytics error:', error);
+      res.status(500).json({ message: "Failed to fetch purchase analytics" });
+    }
+  });
+
   app.post("/api/purchase-orders", requireAuth, async (req, res) => {
     try {
       const { orderData, items } = req.body;
       
-      // Validate order data
-      const validatedOrderData = insertPurchaseOrderSchema.parse(orderData);
-      const validatedItems = items.map((item: any) => insertPurchaseOrderItemSchema.parse(item));
-      
-      // Add created by user
-      validatedOrderData.createdBy = req.session.user!.id;
+      // Validate order data; new orders always start as drafts created by the current user
+      const validatedOrderData = insertPurchaseOrderSchema.parse({
+        ...orderData,
+        status: 'draft',
+        createdBy: req.session.user!.id
+      });
+      const validatedItems = items.map((item: any) => insertPurchaseOrderItemSchema.omit({ purchaseOrderId: true }).parse(item));
       
       const purchaseOrder = await storage.createPurchaseOrder(validatedOrderData, validatedItems);
       res.json(purchaseOrder);
@@ -860,14 +1655,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Create one draft purchase order per vendor from the reorder report
+  app.post("/api/purchase-orders/from-reorder", requireAuth, async (req, res) => {
+    const parsed = reorderPurchaseOrdersSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid order quantities" });
+    }
+
+    try {
+      const result = await storage.createReorderPurchaseOrders(req.session.user!.id, parsed.data.quantities, parsed.data.supplyIds);
+      res.json(result);
+    } catch (error) {
+      console.error('Create reorder purchase orders error:', error);
+      res.status(500).json({ message: "Failed to create purchase orders" });
+    }
+  });
+
+  // Receive all outstanding stock, or the given quantity per line for a partial delivery
   app.put("/api/purchase-orders/:id/receive", requireAuth, async (req, res) => {
+    const parsed = receivePurchaseOrderSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid receipt data" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      const receipt = parsed.data;
+
+      const existing = await storage.getPurchaseOrder(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      if (existing.status === 'received') {
+        return res.status(409).json({ message: "Purchase order has already been received" });
+      }
+      if (!receivableStatuses.includes(existing.status)) {
+        return res.status(409).json({ message: `Cannot receive a ${existing.status} purchase order` });
+      }
+
+      const purchaseOrder = await storage.receivePurchaseOrder(id, receipt, req.session.user?.id);
+      res.json(purchaseOrder);
+    } catch (error) {
+      console.error('Receive purchase order error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Invalid data" });
+    }
+  });
+
+  // Replace the lines and comments of a draft purchase order
+  app.put("/api/purchase-orders/:id", requireAuth, async (req, res) => {
+    const parsed = updatePurchaseOrderSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid purchase order data" });
+    }
+
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getPurchaseOrder(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      if (existing.status !== 'draft') {
+        return res.status(409).json({ message: "Only draft purchase orders can be edited" });
+      }
+
+      const purchaseOrder = await storage.updatePurchaseOrder(id, parsed.data);
+      res.json(purchaseOrder);
+    } catch (error) {
+      console.error('Update purchase order error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Invalid data" });
+    }
+  });
+
+  app.delete("/api/purchase-orders/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getPurchaseOrder(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      if (existing.status !== 'draft') {
+        return res.status(409).json({ message: "Only draft purchase orders can be deleted; cancel it instead" });
+      }
+
+      await storage.deletePurchaseOrder(id);
+      res.json({ message: "Purchase order deleted successfully" });
+    } catch (error) {
+      console.error('Delete purchase order error:', error);
+      res.status(500).json({ message: "Failed to delete purchase order" });
+    }
+  });
+
+  // Send (ordered) or cancel a purchase order; receiving goes through /receive
+  app.post("/api/purchase-orders/:id/status", requireAuth, async (req, res) => {
+    const parsed = updatePurchaseOrderStatusSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+
     try {
       const id = parseInt(req.params.id);
-      const { dateReceived } = req.body;
-      await storage.updatePurchaseOrderReceived(id, new Date(dateReceived));
-      res.json({ message: "Purchase order marked as received" });
+      const { status, note } = parsed.data;
+
+      const existing = await storage.getPurchaseOrder(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      if (!purchaseOrderTransitions[existing.status as PurchaseOrderStatus]?.includes(status)) {
+        return res.status(409).json({ message: `Cannot change a ${existing.status} purchase order to ${status}` });
+      }
+
+      const purchaseOrder = await storage.updatePurchaseOrderStatus(id, status, req.session.user?.id, note);
+      res.json(purchaseOrder);
     } catch (error) {
-      res.status(400).json({ message: "Invalid data" });
+      console.error('Update purchase order status error:', error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Invalid data" });
+    }
+  });
+
+  // Printable purchase order to send to the vendor
+  app.get("/api/purchase-orders/:id/pdf", requireAuth, async (req, res) => {
+    try {
+      const purchaseOrder = await storage.getPurchaseOrder(parseInt(req.params.id));
+      if (!purchaseOrder) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${purchaseOrder.poNumber}.pdf"`);
+      renderPurchaseOrderPdf(purchaseOrder).pipe(res);
+    } catch (error) {
+      console.error('Purchase order PDF error:', error);
+      res.status(500).json({ message: "Failed to generate purchase order PDF" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id/history", requireAuth, async (req, res) => {
+    try {
+      const history = await storage.getPurchaseOrderStatusHistory(parseInt(req.params.id));
+      res.json(history);
+    } catch (error) {
+      console.error('Get purchase order history error:', error);
+      res.status(500).json({ message: "Failed to fetch status history" });
     }
   });
 
@@ -973,6 +1901,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
+  // Application settings
+  app.get("/api/settings", requireAuth, async (req, res) => {
+    try {
+      const settings = await storage.getAppSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/settings", requireAdmin, async (req, res) => {
+    try {
+      const settingsData = appSettingsSchema.partial().parse(req.body);
+      const settings = await storage.updateAppSettings(settingsData, req.session.user?.id);
+      res.json(settings);
+    } catch (error) {
+      console.error('Update settings error:', error);
+      res.status(400).json({ message: "Invalid settings data" });
+    }
+  });
+
+  // Reports
+  app.get("/api/reports/operators", requireAdmin, async (req, res) => {
+    const parsed = reportDateRangeSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid report filter" });
+    }
+
+    try {
+      res.json(await storage.getOperatorReport(parsed.data));
+    } catch (error) {
+      console.error('Operator report error:', error);
+      res.status(500).json({ message: "Failed to fetch operator report" });
+    }
+  });
+
+  app.get("/api/reports/recuts", requireAdmin, async (req, res) => {
+    const parsed = reportDateRangeSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid report filter" });
+    }
+
+    try {
+      res.json(await storage.getRecutReport(parsed.data));
+    } catch (error) {
+      console.error('Recut report error:', error);
+      res.status(500).json({ message: "Failed to fetch recut report" });
+    }
+  });
+
   // Dashboard stats
   app.get("/api/dashboard/stats", requireAuth, async (req, res) => {
     try {
@@ -1,17 +1,75 @@
 import { 
   users, jobs, cutlists, jobMaterials, colors, colorGroups, jobTimeLogs, recutEntries, sheetCutLogs,
-  locations, supplies, supplyTransactions, vendors, purchaseOrders, purchaseOrderItems,
+  locations, supplies, supplyTransactions, supplyStock, vendors, purchaseOrders, purchaseOrderItems, purchaseOrderStatusHistory, vendorSupplies, appSettings, numberSequences,
+  inventoryCounts, inventoryCountLines,
+  defaultAppSettings, type AppSettings,
   type User, type InsertUser, type Job, type JobWithMaterials, 
   type Color, type ColorGroup, type InsertColor, type InsertColorGroup,
-  type JobMaterial, type InsertJobMaterial, type CreateJob,
+  type JobMaterial, type InsertJobMaterial, type CreateJob, type ImportJob,
   type ColorWithGroup, type JobTimeLog, type Cutlist, type InsertCutlist,
   type CutlistWithMaterials, type JobWithCutlists, type RecutEntry,
-  type Location, type InsertLocation, type Supply, type InsertSupply,
-  type SupplyWithLocation, type SupplyTransaction, type InsertSupplyTransaction,
-  type Vendor, type InsertVendor, type PurchaseOrderWithItems, type InsertPurchaseOrder, type InsertPurchaseOrderItem
+  type Location, type InsertLocation, type LocationWithItemCount, type Supply, type InsertSupply,
+  type SupplyWithLocation, type SupplyReorderItem, type SupplyTransaction, type InsertSupplyTransaction,
+  type Vendor, type InsertVendor, type PurchaseOrder, type PurchaseOrderWithItems, type InsertPurchaseOrder, type InsertPurchaseOrderItem,
+  type ReorderPurchaseOrdersResult, type ReceivePurchaseOrder, type UpdatePurchaseOrder,
+  type PurchaseOrderStatus, type PurchaseOrderStatusHistoryEntry, purchaseOrderTransitions, receivableStatuses,
+  type VendorSupply, type InsertVendorSupply, type VendorSupplyWithDetails, type VendorUsage,
+  type PurchaseAnalytics, type PurchaseAnalyticsFilter, type PurchasePriceHistory, type SupplyCheckInOut,
+  type SupplyStockWithLocation, type TransferSupplyStock,
+  type SupplyLedgerEntry, type SupplyLedgerFilter, type SupplyStock,
+  type InventoryCount, type InventoryCountLine, type InventoryCountSummary, type InventoryCountWithLines,
+  type CreateInventoryCount, type RecordInventoryCount, type JobMaterialWithJob, type SheetActivityEntry,
+  type ReportDateRange, type OperatorProductivity, recutReasons, type RecutReason, type InsertRecutReason,
+  type RecutReasonWithUsage, type RecutReport, type RecutReportRow
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, or, ilike, sql, inArray, gte, lte } from "drizzle-orm";
+import { eq, desc, and, or, ilike, sql, inArray, ne, gt, gte, lte, isNull, isNotNull, type SQL } from "drizzle-orm";
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Free stock is always on hand minus allocated. It goes below zero when jobs have
+// reserved more than is on the shelf, which the reorder report counts as a shortfall.
+const availableStock = (quantityOnHand: number, allocated: number) => quantityOnHand - allocated;
+
+// What the system holds for a supply at one location. Stock not yet placed anywhere
+// is taken to be at the supply's home location.
+function expectedStockAt(supply: Pick<Supply, 'id' | 'locationId' | 'quantityOnHand'>, stock: SupplyStock[], locationId: number): number {
+  const rows = stock.filter(row => row.supplyId === supply.id);
+  const atLocation = rows.find(row => row.locationId === locationId)?.quantity ?? 0;
+  if (supply.locationId !== locationId) return atLocation;
+
+  const placed = rows.reduce((sum, row) => sum + row.quantity, 0);
+  return atLocation + Math.max(0, supply.quantityOnHand - placed);
+}
+
+// Report ranges are inclusive, so a date-only end date is taken to mean the end of that day
+function inclusiveToDate(toDate: Date): Date {
+  const end = new Date(toDate);
+  if (end.getUTCHours() === 0 && end.getUTCMinutes() === 0 && end.getUTCSeconds() === 0) {
+    end.setUTCHours(23, 59, 59, 999);
+  }
+  return end;
+}
+
+// The operator responsible for a recut: whoever last cut an original sheet of the material
+// before the recut was logged, or whoever logged it when nothing had been cut yet
+const recutCausedBy = sql<number | null>`coalesce((
+  select ${sheetCutLogs.userId} from ${sheetCutLogs}
+  where ${sheetCutLogs.materialId} = ${recutEntries.materialId}
+    and ${sheetCutLogs.isRecut} = false
+    and ${sheetCutLogs.status} = 'cut'
+    and ${sheetCutLogs.cutAt} <= ${recutEntries.createdAt}
+  order by ${sheetCutLogs.cutAt} desc
+  limit 1
+), ${recutEntries.userId})`;
+
+// Identifies the sheet a cut log is about. Original and recut sheets share sheet indexes,
+// so recut sheets are keyed by their recut entry instead of the material.
+const sheetLogKey = (log: Pick<typeof sheetCutLogs.$inferSelect, 'isRecut' | 'recutId' | 'materialId' | 'sheetIndex'>) =>
+  log.isRecut ? `recut-${log.recutId}-${log.sheetIndex}` : `material-${log.materialId}-${log.sheetIndex}`;
+
+// Gaps between cuts longer than this are breaks or shift changes rather than cutting time
+const MAX_CUT_GAP_SECONDS = 30 * 60;
 
 export interface IStorage {
   // User management
@@ -26,8 +84,9 @@ export interface IStorage {
 
   // Job management
   createJob(jobData: CreateJob): Promise<JobWithMaterials>;
+  importJob(jobData: ImportJob): Promise<JobWithMaterials>;
   getJob(id: number): Promise<JobWithMaterials | undefined>;
-  getAllJobs(search?: string, status?: string): Promise<JobWithMaterials[]>;
+  getAllJobs(search?: string, status?: string, archived?: boolean): Promise<JobWithMaterials[]>;
   updateJobStatus(id: number, status: string): Promise<void>;
   startJobTimer(jobId: number, userId?: number): Promise<void>;
   stopJobTimer(jobId: number): Promise<void>;
@@ -36,27 +95,41 @@ export interface IStorage {
   resumeJob(id: number): Promise<void>;
   completeJob(id: number): Promise<void>;
   deleteJob(id: number): Promise<void>;
+  archiveJob(id: number, userId?: number): Promise<void>;
+  restoreJob(id: number): Promise<void>;
+  purgeArchivedJobs(archivedBefore: Date): Promise<number>;
   updateMaterialProgress(materialId: number, completedSheets: number): Promise<void>;
   updateSheetStatus(materialId: number, sheetIndex: number, status: string, userId?: number): Promise<void>;
   deleteSheet(materialId: number, sheetIndex: number): Promise<void>;
   addSheetsToMaterial(materialId: number, additionalSheets: number, isRecut?: boolean): Promise<void>;
-  addMaterialToJob(jobId: number, colorId: number, totalSheets: number): Promise<void>;
+  addMaterialToJob(jobId: number, supplyId: number, totalSheets: number): Promise<void>;
   deleteMaterial(materialId: number): Promise<void>;
   deleteRecutEntry(recutId: number): Promise<void>;
   
+  // Recut reasons
+  getRecutReasons(): Promise<RecutReasonWithUsage[]>;
+  getRecutReason(id: number): Promise<RecutReasonWithUsage | undefined>;
+  createRecutReason(reason: InsertRecutReason): Promise<RecutReason>;
+  updateRecutReason(id: number, reason: Partial<InsertRecutReason>): Promise<RecutReason>;
+  deleteRecutReason(id: number): Promise<void>;
+
   // Recut management
-  addRecutEntry(materialId: number, quantity: number, reason?: string, userId?: number): Promise<void>;
+  addRecutEntry(materialId: number, quantity: number, reasonId: number, note?: string, userId?: number): Promise<void>;
   getRecutEntries(materialId: number): Promise<any[]>;
   updateRecutSheetStatus(recutId: number, sheetIndex: number, status: string, userId?: number): Promise<void>;
   
   // Sheet cutting tracking
   logSheetCut(materialId: number, sheetIndex: number, status: string, isRecut?: boolean, recutId?: number, userId?: number): Promise<void>;
   getSheetCutLogs(materialId: number, fromDate?: Date, toDate?: Date): Promise<any[]>;
+  getSheetActivity(jobId: number): Promise<SheetActivityEntry[]>;
+  getSheetActivityEntry(logId: number): Promise<SheetActivityEntry | undefined>;
+  revertSheetChange(logId: number, userId?: number): Promise<SheetActivityEntry>;
 
   // Cutlist management
   createCutlists(jobId: number, count: number): Promise<Cutlist[]>;
   deleteCutlist(cutlistId: number): Promise<void>;
   getCutlistsForJob(jobId: number): Promise<CutlistWithMaterials[]>;
+  getJobMaterial(id: number): Promise<JobMaterialWithJob | undefined>;
 
   // Color management
   getAllColors(): Promise<ColorWithGroup[]>;
@@ -73,25 +146,67 @@ export interface IStorage {
 
   // Supply management (new)
   getAllSupplies(): Promise<SupplyWithLocation[]>;
+  getSupply(id: number): Promise<SupplyWithLocation | undefined>;
   createSupply(supply: InsertSupply): Promise<Supply>;
-  updateSupply(id: number, supply: Partial<InsertSupply>): Promise<void>;
+  updateSupply(id: number, supply: Partial<InsertSupply>, userId?: number): Promise<void>;
   deleteSupply(id: number): Promise<void>;
   searchSupplies(query: string): Promise<SupplyWithLocation[]>;
-  updateSupplyQuantity(id: number, quantity: number, type: 'receive' | 'use' | 'adjust', description?: string, jobId?: number, userId?: number): Promise<void>;
+  getSuppliesToReorder(): Promise<SupplyReorderItem[]>;
+  updateSupplyQuantity(id: number, quantity: number, type: 'receive' | 'use' | 'adjust', description?: string, jobId?: number, userId?: number, allowNegative?: boolean): Promise<void>;
+  checkInOutSupply(movement: SupplyCheckInOut, userId?: number): Promise<SupplyWithLocation>;
+  getSupplyStock(supplyId?: number): Promise<SupplyStockWithLocation[]>;
+  transferSupplyStock(supplyId: number, transfer: TransferSupplyStock, userId?: number): Promise<SupplyStockWithLocation[]>;
+  getSupplyTransactions(filter: SupplyLedgerFilter): Promise<SupplyLedgerEntry[]>;
   allocateSupplyForJob(supplyId: number, quantity: number, jobId: number, userId?: number): Promise<void>;
 
   // Location management (new)
-  getAllLocations(): Promise<Location[]>;
+  getAllLocations(): Promise<LocationWithItemCount[]>;
+  getLocation(id: number): Promise<LocationWithItemCount | undefined>;
   createLocation(location: InsertLocation): Promise<Location>;
-  updateLocation(id: number, name: string): Promise<void>;
-  deleteLocation(id: number): Promise<void>;
+  updateLocation(id: number, location: Partial<InsertLocation>): Promise<Location>;
+  deleteLocation(id: number, reassignToLocationId?: number): Promise<void>;
+
+  // Inventory count management
+  getInventoryCounts(): Promise<InventoryCountSummary[]>;
+  getInventoryCount(id: number): Promise<InventoryCountWithLines | undefined>;
+  createInventoryCount(data: CreateInventoryCount, userId: number): Promise<InventoryCount>;
+  addInventoryCountLine(countId: number, supplyId: number, locationId: number): Promise<InventoryCountLine>;
+  recordInventoryCount(countId: number, data: RecordInventoryCount, userId?: number): Promise<void>;
+  postInventoryCount(countId: number, userId: number): Promise<void>;
+  cancelInventoryCount(countId: number): Promise<void>;
+  isSupplyOnPostedCount(supplyId: number): Promise<boolean>;
 
   // Purchase order management
   getAllPurchaseOrders(fromDate?: string, toDate?: string): Promise<PurchaseOrderWithItems[]>;
-  createPurchaseOrder(orderData: InsertPurchaseOrder, items: InsertPurchaseOrderItem[]): Promise<PurchaseOrderWithItems>;
-  updatePurchaseOrderReceived(id: number, dateReceived: Date): Promise<void>;
+  createPurchaseOrder(orderData: InsertPurchaseOrder, items: Omit<InsertPurchaseOrderItem, 'purchaseOrderId'>[]): Promise<PurchaseOrderWithItems>;
+  createReorderPurchaseOrders(userId: number, quantities?: Record<number, number>, supplyIds?: number[]): Promise<ReorderPurchaseOrdersResult>;
+  getPurchaseOrder(id: number): Promise<PurchaseOrderWithItems | undefined>;
+  receivePurchaseOrder(id: number, receipt: ReceivePurchaseOrder, userId?: number): Promise<PurchaseOrderWithItems>;
+  updatePurchaseOrder(id: number, data: UpdatePurchaseOrder): Promise<PurchaseOrderWithItems>;
+  deletePurchaseOrder(id: number): Promise<void>;
+  updatePurchaseOrderStatus(id: number, status: PurchaseOrderStatus, userId?: number, note?: string): Promise<PurchaseOrderWithItems>;
+  getPurchaseOrderStatusHistory(id: number): Promise<PurchaseOrderStatusHistoryEntry[]>;
+  getPurchaseAnalytics(filter: PurchaseAnalyticsFilter): Promise<PurchaseAnalytics>;
   getAllVendors(): Promise<Vendor[]>;
+  getVendor(id: number): Promise<Vendor | undefined>;
   createVendor(vendor: InsertVendor): Promise<Vendor>;
+  updateVendor(id: number, vendor: Partial<InsertVendor>): Promise<Vendor>;
+  getVendorUsage(id: number): Promise<VendorUsage>;
+  deleteVendor(id: number, reassignToVendorId?: number): Promise<void>;
+
+  // Vendor supply catalog
+  getVendorSupplies(filter: { vendorId?: number; supplyId?: number }): Promise<VendorSupplyWithDetails[]>;
+  createVendorSupply(vendorSupply: InsertVendorSupply): Promise<VendorSupply>;
+  updateVendorSupply(id: number, vendorSupply: Partial<InsertVendorSupply>): Promise<VendorSupply>;
+  deleteVendorSupply(id: number): Promise<void>;
+
+  // Application settings
+  getAppSettings(): Promise<AppSettings>;
+  updateAppSettings(settings: Partial<AppSettings>, userId?: number): Promise<AppSettings>;
+
+  // Reports
+  getOperatorReport(filter: ReportDateRange): Promise<OperatorProductivity[]>;
+  getRecutReport(filter: ReportDateRange): Promise<RecutReport>;
 
   // Dashboard stats
   getDashboardStats(sheetsFrom?: string, sheetsTo?: string, timeFrom?: string, timeTo?: string): Promise<{
@@ -100,6 +215,7 @@ export interface IStorage {
     avgJobTime: number;
     avgSheetTime: number;
     materialColors: number;
+    archivedJobs: number;
     jobsByStatus: { waiting: number; in_progress: number; done: number };
   }>;
 }
@@ -210,31 +326,67 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createJob(jobData: CreateJob): Promise<JobWithMaterials> {
-    const jobNumber = `JOB-${Date.now()}`;
-    
-    const [job] = await db.insert(jobs).values({
-      jobNumber,
+    // A manually created job starts with a single cutlist holding all materials
+    return this.importJob({
       customerName: jobData.customerName,
       jobName: jobData.jobName,
-    }).returning();
+      cutlists: [{ name: "Cutlist 1", materials: jobData.materials }],
+    });
+  }
 
-    // Create first cutlist
-    const [cutlist] = await db.insert(cutlists).values({
-      jobId: job.id,
-      name: "Cutlist 1",
-      orderIndex: 1,
-    }).returning();
+  // Atomically take the next number of a named counter for the given period
+  private async nextSequenceValue(tx: DbTransaction, name: string, period: string): Promise<number> {
+    const [sequence] = await tx.insert(numberSequences).values({
+      name,
+      period,
+      value: 1
+    }).onConflictDoUpdate({
+      target: [numberSequences.name, numberSequences.period],
+      set: { value: sql`${numberSequences.value} + 1` }
+    }).returning({ value: numberSequences.value });
+
+    return sequence.value;
+  }
 
-    // Insert materials into the first cutlist
-    const materialPromises = jobData.materials.map(material =>
-      db.insert(jobMaterials).values({
-        cutlistId: cutlist.id,
-        colorId: material.colorId,
-        totalSheets: material.totalSheets,
-      }).returning()
-    );
+  async importJob(jobData: ImportJob): Promise<JobWithMaterials> {
+    const { jobNumberPrefix, jobNumberPadding } = await this.getAppSettings();
+    const year = String(new Date().getFullYear());
+    
+    // Create the job, its cutlists and materials all-or-nothing
+    const job = await db.transaction(async (tx) => {
+      // Job numbers run per year, e.g. 2026-0142
+      const sequence = await this.nextSequenceValue(tx, 'job', year);
+      const jobNumber = `${jobNumberPrefix}${year}-${String(sequence).padStart(jobNumberPadding, '0')}`;
+
+      const [job] = await tx.insert(jobs).values({
+        jobNumber,
+        customerName: jobData.customerName,
+        jobName: jobData.jobName,
+      }).returning();
+
+      for (let index = 0; index < jobData.cutlists.length; index++) {
+        const cutlistData = jobData.cutlists[index];
+        const [cutlist] = await tx.insert(cutlists).values({
+          jobId: job.id,
+          name: cutlistData.name,
+          orderIndex: index + 1,
+        }).returning();
+
+        // Insert materials into the cutlist
+        for (const material of cutlistData.materials) {
+          await tx.insert(jobMaterials).values({
+            cutlistId: cutlist.id,
+            supplyId: material.supplyId,
+            totalSheets: material.totalSheets,
+          });
 
-    await Promise.all(materialPromises);
+          // Reserve the sheets so the supply's available count reflects this job
+          await this.allocateSupplyForJob(material.supplyId, material.totalSheets, job.id, undefined, tx);
+        }
+      }
+
+      return job;
+    });
 
     return this.getJob(job.id) as Promise<JobWithMaterials>;
   }
@@ -250,7 +402,7 @@ export class DatabaseStorage implements IStorage {
       .where(eq(cutlists.jobId, id))
       .orderBy(cutlists.orderIndex);
 
-    // For each cutlist, get materials with colors and recut entries
+    // For each cutlist, get materials with their supplies and recut entries
     const cutlistsWithMaterials = await Promise.all(
       jobCutlists.map(async (cutlist) => {
         const materials = await db
@@ -258,21 +410,15 @@ export class DatabaseStorage implements IStorage {
             id: jobMaterials.id,
             cutlistId: jobMaterials.cutlistId,
             colorId: jobMaterials.colorId,
+            supplyId: jobMaterials.supplyId,
             totalSheets: jobMaterials.totalSheets,
             completedSheets: jobMaterials.completedSheets,
             sheetStatuses: jobMaterials.sheetStatuses,
             createdAt: jobMaterials.createdAt,
-            color: {
-              id: colors.id,
-              name: colors.name,
-              hexColor: colors.hexColor,
-              groupId: colors.groupId,
-              texture: colors.texture,
-              createdAt: colors.createdAt,
-            }
+            supply: supplies
           })
           .from(jobMaterials)
-          .innerJoin(colors, eq(jobMaterials.colorId, colors.id))
+          .innerJoin(supplies, eq(jobMaterials.supplyId, supplies.id))
           .where(eq(jobMaterials.cutlistId, cutlist.id));
 
         // For each material, get recut entries
@@ -321,8 +467,9 @@ export class DatabaseStorage implements IStorage {
     return jobWithMaterials;
   }
 
-  async getAllJobs(search?: string, status?: string): Promise<JobWithMaterials[]> {
-    let whereConditions = [];
+  async getAllJobs(search?: string, status?: string, archived: boolean = false): Promise<JobWithMaterials[]> {
+    // Archived jobs only show up in the trash view
+    let whereConditions: (SQL | undefined)[] = [archived ? isNotNull(jobs.deletedAt) : isNull(jobs.deletedAt)];
     
     if (search) {
       whereConditions.push(
@@ -339,8 +486,8 @@ export class DatabaseStorage implements IStorage {
     }
 
     const jobsList = await db.select().from(jobs)
-      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
-      .orderBy(desc(jobs.createdAt));
+      .where(and(...whereConditions))
+      .orderBy(archived ? desc(jobs.deletedAt) : desc(jobs.createdAt));
 
     // For each job, get cutlists and materials with automatic status calculation
     const jobsWithData = await Promise.all(
@@ -533,10 +680,124 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteCutlist(cutlistId: number): Promise<void> {
-    // Delete materials first (cascade)
-    await db.delete(jobMaterials).where(eq(jobMaterials.cutlistId, cutlistId));
-    // Delete cutlist
-    await db.delete(cutlists).where(eq(cutlists.id, cutlistId));
+    await db.transaction(async (tx) => {
+      // Delete materials first (cascade)
+      const materials = await tx.select({ id: jobMaterials.id }).from(jobMaterials)
+        .where(eq(jobMaterials.cutlistId, cutlistId));
+      await this.deleteMaterialsCascade(tx, materials.map(m => m.id));
+      // Delete cutlist
+      await tx.delete(cutlists).where(eq(cutlists.id, cutlistId));
+    });
+  }
+
+  // Delete materials along with the sheet cut logs and recut entries that reference them
+  private async deleteMaterialsCascade(tx: DbTransaction, materialIds: number[]): Promise<void> {
+    if (materialIds.length === 0) return;
+
+    // Hand back whatever the materials still had reserved
+    await this.reserveMaterialSheets(tx, materialIds, -1);
+
+    // Cut logs reference both materials and recut entries, so they go first
+    await tx.delete(sheetCutLogs).where(inArray(sheetCutLogs.materialId, materialIds));
+    await tx.delete(recutEntries).where(inArray(recutEntries.materialId, materialIds));
+    await tx.delete(jobMaterials).where(inArray(jobMaterials.id, materialIds));
+  }
+
+  // Sheets still waiting to be cut are the ones a material holds in reserve
+  private pendingSheetCount(material: { totalSheets: number; sheetStatuses: string[] | null }): number {
+    const statuses = material.sheetStatuses || [];
+    return statuses.filter(s => s === 'pending').length + Math.max(0, material.totalSheets - statuses.length);
+  }
+
+  // Reserve (1) or release (-1) the pending sheets of materials against their linked supplies,
+  // or just the given number of sheets when only part of a material changed.
+  // Jobs in the trash hold no reservation, so their materials are left alone.
+  private async reserveMaterialSheets(tx: DbTransaction, materialIds: number[], direction: 1 | -1, userId?: number, sheetCount?: number): Promise<void> {
+    if (materialIds.length === 0) return;
+
+    const materials = await tx.select({
+      supplyId: jobMaterials.supplyId,
+      totalSheets: jobMaterials.totalSheets,
+      sheetStatuses: jobMaterials.sheetStatuses,
+      jobId: cutlists.jobId,
+      deletedAt: jobs.deletedAt
+    }).from(jobMaterials)
+      .innerJoin(cutlists, eq(jobMaterials.cutlistId, cutlists.id))
+      .innerJoin(jobs, eq(cutlists.jobId, jobs.id))
+      .where(inArray(jobMaterials.id, materialIds));
+
+    for (const material of materials) {
+      const sheets = sheetCount ?? this.pendingSheetCount(material);
+      if (material.deletedAt || sheets === 0) continue;
+      await this.allocateSupplyForJob(material.supplyId, direction * sheets, material.jobId, userId, tx);
+    }
+  }
+
+  // Take a sheet out of stock when it is cut and put it back when the cut is undone.
+  // Pending sheets of the original material are reserved for the job, so any change
+  // to or from 'pending' also moves the reservation; recut sheets were never reserved
+  // and only move on-hand stock.
+  private async applySheetConsumption(
+    tx: DbTransaction,
+    supplyId: number,
+    jobId: number,
+    previousStatus: string,
+    status: string,
+    reserved: boolean,
+    description: string,
+    userId?: number
+  ): Promise<void> {
+    const wasCut = previousStatus === 'cut';
+    const isCut = status === 'cut';
+    const reservationChange = reserved
+      ? (status === 'pending' ? 1 : 0) - (previousStatus === 'pending' ? 1 : 0)
+      : 0;
+
+    if (wasCut === isCut) {
+      // Skipping a sheet (or un-skipping it) only moves the reservation
+      if (reservationChange !== 0) {
+        await this.allocateSupplyForJob(supplyId, reservationChange, jobId, userId, tx);
+      }
+      return;
+    }
+
+    const [supply] = await tx.select().from(supplies).where(eq(supplies.id, supplyId)).for('update');
+    if (!supply) return;
+
+    // A cut is recorded even when the count says the shelf is empty: the sheet was
+    // physically there, so it is the count that is wrong and on hand may go negative
+    const used = isCut ? 1 : -1;
+    const allocated = Math.max(0, supply.allocated + reservationChange);
+    const quantityOnHand = supply.quantityOnHand - used;
+
+    await tx.update(supplies).set({
+      quantityOnHand,
+      used: Math.max(0, supply.used + used),
+      allocated,
+      available: availableStock(quantityOnHand, allocated),
+      updatedAt: new Date()
+    }).where(eq(supplies.id, supplyId));
+    await this.shiftLocationStock(tx, supply, -used);
+
+    // Reversals are negative 'use' entries so the ledger nets out per job
+    await tx.insert(supplyTransactions).values({
+      supplyId,
+      type: 'use',
+      quantity: used,
+      description,
+      jobId,
+      userId
+    });
+  }
+
+  async getJobMaterial(id: number): Promise<JobMaterialWithJob | undefined> {
+    const [row] = await db.select({ material: jobMaterials, supply: supplies, job: jobs })
+      .from(jobMaterials)
+      .innerJoin(supplies, eq(jobMaterials.supplyId, supplies.id))
+      .innerJoin(cutlists, eq(jobMaterials.cutlistId, cutlists.id))
+      .innerJoin(jobs, eq(cutlists.jobId, jobs.id))
+      .where(eq(jobMaterials.id, id));
+    return row ? { ...row.material, supply: row.supply, job: row.job } : undefined;
   }
 
   async getCutlistsForJob(jobId: number): Promise<CutlistWithMaterials[]> {
@@ -553,21 +814,24 @@ export class DatabaseStorage implements IStorage {
               'id', jm.id,
               'cutlistId', jm.cutlist_id,
               'colorId', jm.color_id,
+              'supplyId', jm.supply_id,
               'totalSheets', jm.total_sheets,
               'completedSheets', jm.completed_sheets,
               'sheetStatuses', jm.sheet_statuses,
               'createdAt', jm.created_at,
-              'color', json_build_object(
-                'id', c.id,
-                'name', c.name,
-                'hexColor', c.hex_color,
-                'groupId', c.group_id,
-                'createdAt', c.created_at
+              'supply', json_build_object(
+                'id', s.id,
+                'name', s.name,
+                'hexColor', s.hex_color,
+                'pieceSize', s.piece_size,
+                'texture', s.texture,
+                'locationId', s.location_id,
+                'createdAt', s.created_at
               )
             )
           ), '[]'::json)
           FROM job_materials jm
-          JOIN colors c ON jm.color_id = c.id
+          JOIN supplies s ON jm.supply_id = s.id
           WHERE jm.cutlist_id = cutlists.id
         )`
       })
@@ -579,75 +843,109 @@ export class DatabaseStorage implements IStorage {
   }
 
   async addSheetsToMaterial(materialId: number, additionalSheets: number, isRecut?: boolean): Promise<void> {
-    // Get current material data
-    const [material] = await db.select().from(jobMaterials).where(eq(jobMaterials.id, materialId));
-    if (!material) return;
+    await db.transaction(async (tx) => {
+      // Get current material data
+      const [material] = await tx.select().from(jobMaterials).where(eq(jobMaterials.id, materialId)).for('update');
+      if (!material) return;
 
-    // Get current sheet statuses
-    let sheetStatuses = material.sheetStatuses || [];
-    
-    // Add new pending sheets to the status array
-    for (let i = 0; i < additionalSheets; i++) {
-      sheetStatuses.push('pending');
-    }
+      // Get current sheet statuses
+      let sheetStatuses = material.sheetStatuses || [];
+      
+      // Add new pending sheets to the status array
+      for (let i = 0; i < additionalSheets; i++) {
+        sheetStatuses.push('pending');
+      }
 
-    // Update the material with new total sheets and statuses
-    await db.update(jobMaterials).set({
-      totalSheets: material.totalSheets + additionalSheets,
-      sheetStatuses
-    }).where(eq(jobMaterials.id, materialId));
+      // Update the material with new total sheets and statuses
+      await tx.update(jobMaterials).set({
+        totalSheets: material.totalSheets + additionalSheets,
+        sheetStatuses
+      }).where(eq(jobMaterials.id, materialId));
+
+      // New sheets start pending, so they are reserved straight away
+      await this.reserveMaterialSheets(tx, [materialId], 1, undefined, additionalSheets);
+    });
   }
 
-  async addMaterialToJob(jobId: number, colorId: number, totalSheets: number): Promise<void> {
+  async addMaterialToJob(jobId: number, supplyId: number, totalSheets: number): Promise<void> {
     // Get the job to find a cutlist to add the material to
     const job = await this.getJob(jobId);
     if (!job) {
       throw new Error('Job not found');
     }
 
-    // Use the first cutlist, or create one if none exists
-    let cutlistId = job.cutlists?.[0]?.id;
-    
-    if (!cutlistId) {
-      // Create a default cutlist for the job
-      const [cutlist] = await db.insert(cutlists).values({
-        jobId: jobId,
-        name: 'Main Cutlist',
-      }).returning();
-      cutlistId = cutlist.id;
-    }
+    await db.transaction(async (tx) => {
+      // Use the first cutlist, or create one if none exists
+      let cutlistId = job.cutlists?.[0]?.id;
+      
+      if (!cutlistId) {
+        // Create a default cutlist for the job
+        const [cutlist] = await tx.insert(cutlists).values({
+          jobId: jobId,
+          name: 'Main Cutlist',
+        }).returning();
+        cutlistId = cutlist.id;
+      }
 
-    // Create initial sheet statuses array
-    const initialStatuses = Array(totalSheets).fill('pending');
+      // Create initial sheet statuses array
+      const initialStatuses = Array(totalSheets).fill('pending');
 
-    // Add the new material to the cutlist
-    await db.insert(jobMaterials).values({
-      cutlistId: cutlistId,
-      colorId: colorId,
-      totalSheets: totalSheets,
-      completedSheets: 0,
-      sheetStatuses: initialStatuses,
+      // Add the new material to the cutlist
+      const [material] = await tx.insert(jobMaterials).values({
+        cutlistId: cutlistId,
+        supplyId: supplyId,
+        totalSheets: totalSheets,
+        completedSheets: 0,
+        sheetStatuses: initialStatuses,
+      }).returning();
+
+      await this.reserveMaterialSheets(tx, [material.id], 1);
     });
   }
 
   async deleteMaterial(materialId: number): Promise<void> {
-    // First delete all recut entries for this material
-    await db.delete(recutEntries).where(eq(recutEntries.materialId, materialId));
-    
-    // Then delete the material itself
-    await db.delete(jobMaterials).where(eq(jobMaterials.id, materialId));
+    await db.transaction(async (tx) => {
+      await this.deleteMaterialsCascade(tx, [materialId]);
+    });
   }
 
+  // Recut sheets that were already cut give their stock back, as if the cuts were undone
   async deleteRecutEntry(recutId: number): Promise<void> {
-    await db.delete(recutEntries).where(eq(recutEntries.id, recutId));
+    await db.transaction(async (tx) => {
+      const [recut] = await tx.select({
+        sheetStatuses: recutEntries.sheetStatuses,
+        supplyId: jobMaterials.supplyId,
+        jobId: cutlists.jobId
+      }).from(recutEntries)
+        .innerJoin(jobMaterials, eq(recutEntries.materialId, jobMaterials.id))
+        .innerJoin(cutlists, eq(jobMaterials.cutlistId, cutlists.id))
+        .where(eq(recutEntries.id, recutId))
+        .for('update', { of: recutEntries });
+      if (!recut) return;
+
+      const statuses = recut.sheetStatuses || [];
+      for (let index = 0; index < statuses.length; index++) {
+        if (statuses[index] !== 'cut') continue;
+        await this.applySheetConsumption(
+          tx, recut.supplyId, recut.jobId, 'cut', 'deleted', false,
+          `Deleted cut recut sheet ${index + 1} for job ${recut.jobId}`
+        );
+      }
+
+      await tx.delete(sheetCutLogs).where(eq(sheetCutLogs.recutId, recutId));
+      await tx.delete(recutEntries).where(eq(recutEntries.id, recutId));
+    });
   }
 
   async updateSheetStatus(materialId: number, sheetIndex: number, status: string, userId?: number): Promise<void> {
     // Use a transaction to prevent race conditions
     return await db.transaction(async (tx) => {
       // First, get the current material data with a lock
-      const [material] = await tx.select().from(jobMaterials).where(eq(jobMaterials.id, materialId));
+      const [material] = await tx.select().from(jobMaterials).where(eq(jobMaterials.id, materialId)).for('update');
       if (!material) return;
+      if (sheetIndex < 0 || sheetIndex >= material.totalSheets) {
+        throw new Error(`Sheet ${sheetIndex + 1} is past the ${material.totalSheets} sheets of this material`);
+      }
 
       // Initialize arrays
       let sheetStatuses = material.sheetStatuses || [];
@@ -658,7 +956,8 @@ export class DatabaseStorage implements IStorage {
       }
       
       // Only update if the status is actually different to prevent unnecessary updates
-      if (sheetStatuses[sheetIndex] === status) {
+      const previousStatus = sheetStatuses[sheetIndex];
+      if (previousStatus === status) {
         return; // No change needed
       }
       
@@ -694,6 +993,13 @@ export class DatabaseStorage implements IStorage {
       
       if (cutlistData.length > 0) {
         const jobId = cutlistData[0].jobId;
+
+        await this.applySheetConsumption(
+          tx, material.supplyId, jobId, previousStatus, status, true,
+          `${status === 'cut' ? 'Cut' : 'Reverted cut of'} sheet ${sheetIndex + 1} for job ${jobId}`,
+          userId
+        );
+
         const job = await this.getJob(jobId);
         if (job) {
           const newStatus = await this.calculateJobStatus(job);
@@ -707,37 +1013,99 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteSheet(materialId: number, sheetIndex: number): Promise<void> {
-    // Get current material data
-    const [material] = await db.select().from(jobMaterials).where(eq(jobMaterials.id, materialId));
-    if (!material) return;
+    await db.transaction(async (tx) => {
+      // Get current material data
+      const [material] = await tx.select().from(jobMaterials).where(eq(jobMaterials.id, materialId)).for('update');
+      if (!material) throw new Error('Material not found');
+      if (!Number.isInteger(sheetIndex) || sheetIndex < 0 || sheetIndex >= material.totalSheets) {
+        throw new Error('Sheet not found');
+      }
 
-    // Get current sheet statuses
-    let sheetStatuses = material.sheetStatuses || [];
-    
-    // Remove the sheet at the specified index
-    if (sheetIndex >= 0 && sheetIndex < sheetStatuses.length) {
-      sheetStatuses.splice(sheetIndex, 1);
+      // Sheets past the end of the statuses array have not been touched yet, so they are pending
+      let sheetStatuses = material.sheetStatuses || [];
+      while (sheetStatuses.length < material.totalSheets) {
+        sheetStatuses.push('pending');
+      }
+      
+      // Remove the sheet, giving back its reservation if it was still pending
+      // or the stock it used if it was already cut
+      const [removedStatus] = sheetStatuses.splice(sheetIndex, 1);
+      if (removedStatus === 'pending') {
+        await this.reserveMaterialSheets(tx, [materialId], -1, undefined, 1);
+      } else if (removedStatus === 'cut') {
+        const [cutlist] = await tx.select({ jobId: cutlists.jobId }).from(cutlists).where(eq(cutlists.id, material.cutlistId!));
+        await this.applySheetConsumption(
+          tx, material.supplyId, cutlist.jobId, 'cut', 'deleted', false,
+          `Deleted cut sheet ${sheetIndex + 1} for job ${cutlist.jobId}`
+        );
+      }
+      
+      // Recalculate completed sheets
+      const completedSheets = sheetStatuses.filter(s => s === 'cut').length;
+      
+      // Update the material with new total sheets and statuses
+      await tx.update(jobMaterials).set({
+        totalSheets: material.totalSheets - 1,
+        sheetStatuses,
+        completedSheets
+      }).where(eq(jobMaterials.id, materialId));
+    });
+  }
+
+  private recutReasonsWithUsage(where?: SQL) {
+    return db.select({
+      reason: recutReasons,
+      recutCount: sql<number>`count(${recutEntries.id})::int`,
+    })
+      .from(recutReasons)
+      .leftJoin(recutEntries, eq(recutEntries.reasonId, recutReasons.id))
+      .where(where)
+      .groupBy(recutReasons.id)
+      .orderBy(recutReasons.name);
+  }
+
+  async getRecutReasons(): Promise<RecutReasonWithUsage[]> {
+    const rows = await this.recutReasonsWithUsage();
+    return rows.map(({ reason, recutCount }) => ({ ...reason, recutCount }));
+  }
+
+  async getRecutReason(id: number): Promise<RecutReasonWithUsage | undefined> {
+    const [row] = await this.recutReasonsWithUsage(eq(recutReasons.id, id));
+    return row ? { ...row.reason, recutCount: row.recutCount } : undefined;
+  }
+
+  async createRecutReason(reason: InsertRecutReason): Promise<RecutReason> {
+    const [existing] = await db.select({ id: recutReasons.id }).from(recutReasons).where(eq(recutReasons.code, reason.code));
+    if (existing) throw new Error(`Reason code ${reason.code} is already in use`);
+
+    const [created] = await db.insert(recutReasons).values(reason).returning();
+    return created;
+  }
+
+  async updateRecutReason(id: number, reason: Partial<InsertRecutReason>): Promise<RecutReason> {
+    if (reason.code) {
+      const [existing] = await db.select({ id: recutReasons.id }).from(recutReasons).where(eq(recutReasons.code, reason.code));
+      if (existing && existing.id !== id) throw new Error(`Reason code ${reason.code} is already in use`);
     }
-    
-    // Recalculate completed sheets
-    const completedSheets = sheetStatuses.filter(s => s === 'cut').length;
-    
-    // Update the material with new total sheets and statuses
-    await db.update(jobMaterials).set({
-      totalSheets: material.totalSheets - 1,
-      sheetStatuses,
-      completedSheets
-    }).where(eq(jobMaterials.id, materialId));
+
+    const [updated] = await db.update(recutReasons).set({ ...reason, updatedAt: new Date() }).where(eq(recutReasons.id, id)).returning();
+    if (!updated) throw new Error('Recut reason not found');
+    return updated;
   }
 
-  async addRecutEntry(materialId: number, quantity: number, reason?: string, userId?: number): Promise<void> {
+  async deleteRecutReason(id: number): Promise<void> {
+    await db.delete(recutReasons).where(eq(recutReasons.id, id));
+  }
+
+  async addRecutEntry(materialId: number, quantity: number, reasonId: number, note?: string, userId?: number): Promise<void> {
     // Initialize sheet statuses as all pending
     const sheetStatuses = Array(quantity).fill('pending');
     
     await db.insert(recutEntries).values({
       materialId,
       quantity,
-      reason,
+      reasonId,
+      reason: note,
       sheetStatuses,
       completedSheets: 0,
       userId
@@ -748,6 +1116,8 @@ export class DatabaseStorage implements IStorage {
     const entries = await db.select({
       id: recutEntries.id,
       quantity: recutEntries.quantity,
+      reasonId: recutEntries.reasonId,
+      reasonName: recutReasons.name,
       reason: recutEntries.reason,
       sheetStatuses: recutEntries.sheetStatuses,
       completedSheets: recutEntries.completedSheets,
@@ -759,6 +1129,7 @@ export class DatabaseStorage implements IStorage {
     })
     .from(recutEntries)
     .leftJoin(users, eq(recutEntries.userId, users.id))
+    .leftJoin(recutReasons, eq(recutEntries.reasonId, recutReasons.id))
     .where(eq(recutEntries.materialId, materialId))
     .orderBy(desc(recutEntries.createdAt));
     
@@ -766,59 +1137,73 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateRecutSheetStatus(recutId: number, sheetIndex: number, status: string, userId?: number): Promise<void> {
-    // Get current recut entry
-    const [recutEntry] = await db.select().from(recutEntries).where(eq(recutEntries.id, recutId));
-    if (!recutEntry) return;
+    await db.transaction(async (tx) => {
+      // Get current recut entry with a lock
+      const [recutEntry] = await tx.select().from(recutEntries).where(eq(recutEntries.id, recutId)).for('update');
+      if (!recutEntry) return;
+      if (sheetIndex < 0 || sheetIndex >= recutEntry.quantity) {
+        throw new Error(`Sheet ${sheetIndex + 1} is past the ${recutEntry.quantity} sheets of this recut`);
+      }
 
-    // Get current sheet statuses
-    let sheetStatuses = recutEntry.sheetStatuses || [];
-    
-    // Ensure array is long enough
-    while (sheetStatuses.length <= sheetIndex) {
-      sheetStatuses.push('pending');
-    }
-    
-    // Update the status
-    sheetStatuses[sheetIndex] = status;
-    
-    // Recalculate completed sheets
-    const completedSheets = sheetStatuses.filter(s => s === 'cut').length;
-    
-    // Update the recut entry
-    await db.update(recutEntries).set({
-      sheetStatuses,
-      completedSheets
-    }).where(eq(recutEntries.id, recutId));
+      // Get current sheet statuses
+      let sheetStatuses = recutEntry.sheetStatuses || [];
+      
+      // Ensure array is long enough
+      while (sheetStatuses.length <= sheetIndex) {
+        sheetStatuses.push('pending');
+      }
+      
+      // Update the status
+      const previousStatus = sheetStatuses[sheetIndex];
+      sheetStatuses[sheetIndex] = status;
+      
+      // Recalculate completed sheets
+      const completedSheets = sheetStatuses.filter(s => s === 'cut').length;
+      
+      // Update the recut entry
+      await tx.update(recutEntries).set({
+        sheetStatuses,
+        completedSheets
+      }).where(eq(recutEntries.id, recutId));
 
-    // Log the recut sheet cutting activity
-    await db.insert(sheetCutLogs).values({
-      materialId: recutEntry.materialId,
-      sheetIndex,
-      status,
-      isRecut: true,
-      recutId,
-      userId
-    });
+      // Log the recut sheet cutting activity
+      await tx.insert(sheetCutLogs).values({
+        materialId: recutEntry.materialId,
+        sheetIndex,
+        status,
+        isRecut: true,
+        recutId,
+        userId
+      });
 
-    // Get the job and update its automatic status
-    const jobData = await db.select({
-      jobId: cutlists.jobId
-    }).from(recutEntries)
-    .innerJoin(jobMaterials, eq(recutEntries.materialId, jobMaterials.id))
-    .innerJoin(cutlists, eq(jobMaterials.cutlistId, cutlists.id))
-    .where(eq(recutEntries.id, recutId));
-    
-    if (jobData.length > 0) {
-      const jobId = jobData[0].jobId;
-      const job = await this.getJob(jobId);
-      if (job) {
-        const newStatus = await this.calculateJobStatus(job);
-        await db.update(jobs).set({
-          status: newStatus,
-          updatedAt: new Date()
-        }).where(eq(jobs.id, jobId));
+      // Get the job and update its automatic status
+      const jobData = await tx.select({
+        jobId: cutlists.jobId,
+        supplyId: jobMaterials.supplyId
+      }).from(recutEntries)
+      .innerJoin(jobMaterials, eq(recutEntries.materialId, jobMaterials.id))
+      .innerJoin(cutlists, eq(jobMaterials.cutlistId, cutlists.id))
+      .where(eq(recutEntries.id, recutId));
+      
+      if (jobData.length > 0) {
+        const { jobId, supplyId } = jobData[0];
+
+        await this.applySheetConsumption(
+          tx, supplyId, jobId, previousStatus, status, false,
+          `${status === 'cut' ? 'Cut' : 'Reverted cut of'} recut sheet ${sheetIndex + 1} for job ${jobId}`,
+          userId
+        );
+
+        const job = await this.getJob(jobId);
+        if (job) {
+          const newStatus = await this.calculateJobStatus(job);
+          await tx.update(jobs).set({
+            status: newStatus,
+            updatedAt: new Date()
+          }).where(eq(jobs.id, jobId));
+        }
       }
-    }
+    });
   }
 
   async logSheetCut(materialId: number, sheetIndex: number, status: string, isRecut: boolean = false, recutId?: number, userId?: number): Promise<void> {
@@ -847,38 +1232,153 @@ export class DatabaseStorage implements IStorage {
       .orderBy(sheetCutLogs.cutAt);
   }
 
+  // Cut log entries oldest first, each with the status its sheet had before the change. Original
+  // and recut sheets are tracked separately since they share sheet indexes.
+  private async sheetActivity(where: SQL): Promise<SheetActivityEntry[]> {
+    const rows = await db.select({
+      log: sheetCutLogs,
+      jobId: cutlists.jobId,
+      supplyName: supplies.name,
+      username: users.username,
+    })
+      .from(sheetCutLogs)
+      .innerJoin(jobMaterials, eq(sheetCutLogs.materialId, jobMaterials.id))
+      .innerJoin(cutlists, eq(jobMaterials.cutlistId, cutlists.id))
+      .leftJoin(supplies, eq(jobMaterials.supplyId, supplies.id))
+      .leftJoin(users, eq(sheetCutLogs.userId, users.id))
+      .where(where)
+      .orderBy(sheetCutLogs.cutAt, sheetCutLogs.id);
+
+    const statuses = new Map<string, string>();
+    const latest = new Map<string, number>();
+    const entries = rows.map(({ log, ...details }) => {
+      const key = sheetLogKey(log);
+      const previousStatus = statuses.get(key) ?? 'pending';
+      statuses.set(key, log.status);
+      latest.set(key, log.id);
+      return { ...log, ...details, previousStatus, isLatest: false };
+    });
+
+    return entries.map(entry => ({ ...entry, isLatest: latest.get(sheetLogKey(entry)) === entry.id }));
+  }
+
+  async getSheetActivity(jobId: number): Promise<SheetActivityEntry[]> {
+    return (await this.sheetActivity(eq(cutlists.jobId, jobId))).reverse();
+  }
+
+  async getSheetActivityEntry(logId: number): Promise<SheetActivityEntry | undefined> {
+    const [log] = await db.select().from(sheetCutLogs).where(eq(sheetCutLogs.id, logId));
+    if (!log) return undefined;
+
+    const entries = await this.sheetActivity(eq(sheetCutLogs.materialId, log.materialId));
+    return entries.find(entry => entry.id === logId);
+  }
+
+  // Undo a sheet change by setting the sheet back to its previous status. This goes through the
+  // normal status update so it is logged, moves stock back and recalculates the job status.
+  async revertSheetChange(logId: number, userId?: number): Promise<SheetActivityEntry> {
+    const entry = await this.getSheetActivityEntry(logId);
+    if (!entry) throw new Error('Sheet change not found');
+    if (!entry.isLatest) throw new Error('Only the latest change to a sheet can be reverted');
+
+    // Deleting a sheet shifts the indexes after it, so make sure the log still describes the sheet
+    const [current] = entry.isRecut
+      ? await db.select({ sheetStatuses: recutEntries.sheetStatuses }).from(recutEntries).where(eq(recutEntries.id, entry.recutId!))
+      : await db.select({ sheetStatuses: jobMaterials.sheetStatuses }).from(jobMaterials).where(eq(jobMaterials.id, entry.materialId));
+    if ((current?.sheetStatuses?.[entry.sheetIndex] ?? 'pending') !== entry.status) {
+      throw new Error(`Sheet ${entry.sheetIndex + 1} has changed since this entry`);
+    }
+
+    if (entry.isRecut) {
+      await this.updateRecutSheetStatus(entry.recutId!, entry.sheetIndex, entry.previousStatus, userId);
+    } else {
+      await this.updateSheetStatus(entry.materialId, entry.sheetIndex, entry.previousStatus, userId);
+    }
+    return entry;
+  }
+
   async deleteJob(jobId: number): Promise<void> {
-    // Delete in proper order due to foreign key constraints
-    
-    // First delete recut entries
-    await db.delete(recutEntries).where(
-      inArray(recutEntries.materialId, 
-        db.select({ id: jobMaterials.id }).from(jobMaterials).where(
-          inArray(jobMaterials.cutlistId, 
-            db.select({ id: cutlists.id }).from(cutlists).where(eq(cutlists.jobId, jobId))
-          )
-        )
-      )
-    );
-    
-    // Then delete job materials (which cascade from cutlists)
-    await db.delete(jobMaterials).where(
-      inArray(jobMaterials.cutlistId, 
-        db.select({ id: cutlists.id }).from(cutlists).where(eq(cutlists.jobId, jobId))
-      )
-    );
-    
-    // Delete cutlists
-    await db.delete(cutlists).where(eq(cutlists.jobId, jobId));
-    
-    // Delete job time logs
-    await db.delete(jobTimeLogs).where(eq(jobTimeLogs.jobId, jobId));
-    
-    // Finally delete the job
-    await db.delete(jobs).where(eq(jobs.id, jobId));
+    // Delete in proper order due to foreign key constraints, all-or-nothing
+    await db.transaction(async (tx) => {
+      const jobCutlists = await tx.select({ id: cutlists.id }).from(cutlists).where(eq(cutlists.jobId, jobId));
+      const cutlistIds = jobCutlists.map(c => c.id);
+
+      if (cutlistIds.length > 0) {
+        const materials = await tx.select({ id: jobMaterials.id }).from(jobMaterials)
+          .where(inArray(jobMaterials.cutlistId, cutlistIds));
+        await this.deleteMaterialsCascade(tx, materials.map(m => m.id));
+      }
+      
+      // Delete cutlists
+      await tx.delete(cutlists).where(eq(cutlists.jobId, jobId));
+      
+      // Delete job time logs
+      await tx.delete(jobTimeLogs).where(eq(jobTimeLogs.jobId, jobId));
+
+      // Keep the inventory history, just detach it from the job
+      await tx.update(supplyTransactions).set({ jobId: null }).where(eq(supplyTransactions.jobId, jobId));
+      
+      // Finally delete the job
+      await tx.delete(jobs).where(eq(jobs.id, jobId));
+    });
+  }
+
+
+
+  async archiveJob(id: number, userId?: number): Promise<void> {
+    // Close any running timer so an archived job does not keep accruing time
+    await this.stopJobTimer(id);
+
+    await db.transaction(async (tx) => {
+      const [job] = await tx.select({ deletedAt: jobs.deletedAt }).from(jobs).where(eq(jobs.id, id)).for('update');
+      if (!job) throw new Error('Job not found');
+      // Already in the trash: its sheets were released and its retention clock is running
+      if (job.deletedAt) return;
+
+      // A job in the trash gives its reserved sheets back until it is restored
+      await this.reserveMaterialSheets(tx, await this.getJobMaterialIds(tx, id), -1, userId);
+
+      await tx.update(jobs).set({
+        deletedAt: new Date(),
+        deletedBy: userId,
+        updatedAt: new Date()
+      }).where(eq(jobs.id, id));
+    });
+  }
+
+  async restoreJob(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [job] = await tx.select({ deletedAt: jobs.deletedAt }).from(jobs).where(eq(jobs.id, id)).for('update');
+      if (!job) throw new Error('Job not found');
+      if (!job.deletedAt) throw new Error('Job is not in the trash');
+
+      await tx.update(jobs).set({
+        deletedAt: null,
+        deletedBy: null,
+        updatedAt: new Date()
+      }).where(eq(jobs.id, id));
+
+      await this.reserveMaterialSheets(tx, await this.getJobMaterialIds(tx, id), 1);
+    });
+  }
+
+  private async getJobMaterialIds(tx: DbTransaction, jobId: number): Promise<number[]> {
+    const materials = await tx.select({ id: jobMaterials.id }).from(jobMaterials)
+      .innerJoin(cutlists, eq(jobMaterials.cutlistId, cutlists.id))
+      .where(eq(cutlists.jobId, jobId));
+    return materials.map(m => m.id);
   }
 
+  async purgeArchivedJobs(archivedBefore: Date): Promise<number> {
+    const expiredJobs = await db.select({ id: jobs.id }).from(jobs)
+      .where(and(isNotNull(jobs.deletedAt), lte(jobs.deletedAt, archivedBefore)));
 
+    for (const job of expiredJobs) {
+      await this.deleteJob(job.id);
+    }
+
+    return expiredJobs.length;
+  }
 
   async getAllColors(): Promise<ColorWithGroup[]> {
     return await db.query.colors.findMany({
@@ -925,26 +1425,210 @@ export class DatabaseStorage implements IStorage {
     await db.delete(colorGroups).where(eq(colorGroups.id, id));
   }
 
-  async getDashboardStats(sheetsFrom?: string, sheetsTo?: string, timeFrom?: string, timeTo?: string) {
-    // Count jobs by status
-    const statusCounts = await db.select({
-      status: jobs.status,
-      count: sql<number>`count(*)`
-    }).from(jobs).groupBy(jobs.status);
-
-    const jobsByStatus = {
-      waiting: 0,
-      in_progress: 0,
-      paused: 0,
-      done: 0
+  // Sheets cut, skipped and sent back for recut per operator, busiest first. Only the last
+  // change to each sheet counts, so a cut that was undone or reverted (even after the end of
+  // the range) is not credited to anyone.
+  async getOperatorReport(filter: ReportDateRange): Promise<OperatorProductivity[]> {
+    const recutConditions: SQL[] = [];
+    if (filter.fromDate) recutConditions.push(gte(recutEntries.createdAt, filter.fromDate));
+    if (filter.toDate) recutConditions.push(lte(recutEntries.createdAt, inclusiveToDate(filter.toDate)));
+
+    // Later changes decide whether a change in the range still stands, so read to the present
+    const allLogs = await db.select({
+      materialId: sheetCutLogs.materialId,
+      recutId: sheetCutLogs.recutId,
+      sheetIndex: sheetCutLogs.sheetIndex,
+      userId: sheetCutLogs.userId,
+      status: sheetCutLogs.status,
+      isRecut: sheetCutLogs.isRecut,
+      cutAt: sheetCutLogs.cutAt,
+    })
+      .from(sheetCutLogs)
+      .where(filter.fromDate ? gte(sheetCutLogs.cutAt, filter.fromDate) : undefined)
+      .orderBy(sheetCutLogs.cutAt, sheetCutLogs.id);
+
+    const lastChanges = new Map<string, typeof allLogs[number]>();
+    for (const log of allLogs) lastChanges.set(sheetLogKey(log), log);
+
+    const toDate = filter.toDate ? inclusiveToDate(filter.toDate) : null;
+    const logs = Array.from(lastChanges.values())
+      .filter(log => (log.status === 'cut' || log.status === 'skip') && (!toDate || log.cutAt <= toDate))
+      .sort((a, b) => a.cutAt.getTime() - b.cutAt.getTime());
+
+    const recuts = await db.select({ userId: recutCausedBy, quantity: recutEntries.quantity })
+      .from(recutEntries)
+      .where(recutConditions.length > 0 ? and(...recutConditions) : undefined);
+
+    const usernames = new Map((await db.select({ id: users.id, username: users.username }).from(users)).map(u => [u.id, u.username]));
+
+    const report = new Map<number | null, OperatorProductivity & { lastCutAt?: Date; gapSeconds: number; gaps: number }>();
+    const operator = (userId: number | null) => {
+      let row = report.get(userId);
+      if (!row) {
+        row = {
+          userId,
+          username: userId ? usernames.get(userId) ?? null : null,
+          sheetsCut: 0,
+          recutSheetsCut: 0,
+          skips: 0,
+          recutsCaused: 0,
+          recutSheetsCaused: 0,
+          avgSecondsBetweenCuts: null,
+          gapSeconds: 0,
+          gaps: 0,
+        };
+        report.set(userId, row);
+      }
+      return row;
     };
 
-    statusCounts.forEach(({ status, count }) => {
-      if (status === 'waiting') jobsByStatus.waiting = Number(count);
-      else if (status === 'in_progress') jobsByStatus.in_progress = Number(count);
-      else if (status === 'paused') jobsByStatus.paused = Number(count);
-      else if (status === 'done') jobsByStatus.done = Number(count);
-    });
+    for (const log of logs) {
+      const row = operator(log.userId);
+      if (log.status === 'skip') {
+        row.skips++;
+        continue;
+      }
+
+      if (log.isRecut) row.recutSheetsCut++;
+      else row.sheetsCut++;
+
+      if (row.lastCutAt) {
+        const gap = (log.cutAt.getTime() - row.lastCutAt.getTime()) / 1000;
+        if (gap <= MAX_CUT_GAP_SECONDS) {
+          row.gapSeconds += gap;
+          row.gaps++;
+        }
+      }
+      row.lastCutAt = log.cutAt;
+    }
+
+    for (const recut of recuts) {
+      const row = operator(recut.userId);
+      row.recutsCaused++;
+      row.recutSheetsCaused += recut.quantity;
+    }
+
+    return Array.from(report.values())
+      .map(({ lastCutAt, gapSeconds, gaps, ...row }) => ({
+        ...row,
+        avgSecondsBetweenCuts: gaps > 0 ? Math.round(gapSeconds / gaps) : null,
+      }))
+      .sort((a, b) => (b.sheetsCut + b.recutSheetsCut) - (a.sheetsCut + a.recutSheetsCut));
+  }
+
+  // Recut sheets broken down by cause, material, job and responsible operator. Sheets are
+  // costed at the preferred vendor's catalog price, falling back to the supply's default price.
+  // A price of 0 means none was entered, so those sheets count as unpriced.
+  async getRecutReport(filter: ReportDateRange): Promise<RecutReport> {
+    const conditions: SQL[] = [];
+    if (filter.fromDate) conditions.push(gte(recutEntries.createdAt, filter.fromDate));
+    if (filter.toDate) conditions.push(lte(recutEntries.createdAt, inclusiveToDate(filter.toDate)));
+
+    const recuts = await db.select({
+      quantity: recutEntries.quantity,
+      createdAt: recutEntries.createdAt,
+      reasonId: recutEntries.reasonId,
+      reasonName: recutReasons.name,
+      supplyId: supplies.id,
+      supplyName: supplies.name,
+      vendorId: supplies.vendorId,
+      defaultVendorPrice: supplies.defaultVendorPrice,
+      jobId: jobs.id,
+      jobNumber: jobs.jobNumber,
+      customerName: jobs.customerName,
+      operatorId: recutCausedBy,
+    })
+      .from(recutEntries)
+      .innerJoin(jobMaterials, eq(recutEntries.materialId, jobMaterials.id))
+      .innerJoin(cutlists, eq(jobMaterials.cutlistId, cutlists.id))
+      .innerJoin(jobs, eq(cutlists.jobId, jobs.id))
+      .innerJoin(supplies, eq(jobMaterials.supplyId, supplies.id))
+      .leftJoin(recutReasons, eq(recutEntries.reasonId, recutReasons.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(recutEntries.createdAt);
+
+    const catalogPrices = new Map<string, number>();
+    const catalog = await db.select().from(vendorSupplies);
+    for (const entry of catalog) {
+      catalogPrices.set(`${entry.vendorId}:${entry.supplyId}`, entry.price);
+    }
+
+    const usernames = new Map((await db.select({ id: users.id, username: users.username }).from(users)).map(u => [u.id, u.username]));
+
+    const emptyRow = (id: number | null, label: string): RecutReportRow => ({ id, label, recuts: 0, sheets: 0, cost: 0, unpricedSheets: 0 });
+    const totals = emptyRow(null, 'Total');
+    const groups = {
+      byReason: new Map<number | null, RecutReportRow>(),
+      byMaterial: new Map<number | null, RecutReportRow>(),
+      byJob: new Map<number | null, RecutReportRow>(),
+      byOperator: new Map<number | null, RecutReportRow>(),
+    };
+    const overTime = new Map<string, RecutReport['overTime'][number]>();
+
+    for (const recut of recuts) {
+      const price = (recut.vendorId && catalogPrices.get(`${recut.vendorId}:${recut.supplyId}`)) || recut.defaultVendorPrice || null;
+      const groupings: [Map<number | null, RecutReportRow>, number | null, string][] = [
+        [groups.byReason, recut.reasonId, recut.reasonName ?? 'Unspecified'],
+        [groups.byMaterial, recut.supplyId, recut.supplyName],
+        [groups.byJob, recut.jobId, `${recut.jobNumber} - ${recut.customerName}`],
+        [groups.byOperator, recut.operatorId, (recut.operatorId && usernames.get(recut.operatorId)) || 'Unknown'],
+      ];
+
+      const rows = [totals, ...groupings.map(([group, id, label]) => {
+        if (!group.has(id)) group.set(id, emptyRow(id, label));
+        return group.get(id)!;
+      })];
+      for (const row of rows) {
+        row.recuts++;
+        row.sheets += recut.quantity;
+        if (price === null) row.unpricedSheets += recut.quantity;
+        else row.cost += price * recut.quantity;
+      }
+
+      const date = recut.createdAt.toISOString().slice(0, 10);
+      const key = `${date}:${recut.reasonId}`;
+      const point = overTime.get(key) ?? { date, reasonId: recut.reasonId, sheets: 0 };
+      point.sheets += recut.quantity;
+      overTime.set(key, point);
+    }
+
+    const sorted = (group: Map<number | null, RecutReportRow>) => Array.from(group.values()).sort((a, b) => b.sheets - a.sheets);
+    const { id, label, ...totalCounts } = totals;
+
+    return {
+      totals: totalCounts,
+      byReason: sorted(groups.byReason),
+      byMaterial: sorted(groups.byMaterial),
+      byJob: sorted(groups.byJob),
+      byOperator: sorted(groups.byOperator),
+      overTime: Array.from(overTime.values()),
+    };
+  }
+
+  async getDashboardStats(sheetsFrom?: string, sheetsTo?: string, timeFrom?: string, timeTo?: string) {
+    // Count jobs by status (archived jobs are counted separately)
+    const statusCounts = await db.select({
+      status: jobs.status,
+      count: sql<number>`count(*)`
+    }).from(jobs).where(isNull(jobs.deletedAt)).groupBy(jobs.status);
+
+    const [archivedResult] = await db.select({
+      count: sql<number>`count(*)`
+    }).from(jobs).where(isNotNull(jobs.deletedAt));
+
+    const jobsByStatus = {
+      waiting: 0,
+      in_progress: 0,
+      paused: 0,
+      done: 0
+    };
+
+    statusCounts.forEach(({ status, count }) => {
+      if (status === 'waiting') jobsByStatus.waiting = Number(count);
+      else if (status === 'in_progress') jobsByStatus.in_progress = Number(count);
+      else if (status === 'paused') jobsByStatus.paused = Number(count);
+      else if (status === 'done') jobsByStatus.done = Number(count);
+    });
 
     // Count sheets cut using the new sheet cut logs (with date filtering if provided)
     let sheetsCutResult;
@@ -1106,11 +1790,6 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    // Count material colors
-    const colorCountResult = await db.select({
-      count: sql<number>`count(*)`
-    }).from(colors);
-
     const materialsTotal = Number(sheetsCutResult[0]?.totalSheets) || 0;
     const recutsTotal = Number(recutSheetsCutResult[0]?.totalRecutSheets) || 0;
     const totalSheetsCut = materialsTotal + recutsTotal;
@@ -1132,6 +1811,7 @@ export class DatabaseStorage implements IStorage {
       avgJobTime: avgTimeResult[0]?.avgDuration || 0,
       avgSheetTime: avgSheetTime || 0,
       materialColors: (await db.select({ count: sql<number>`count(*)` }).from(supplies))[0]?.count || 0,
+      archivedJobs: Number(archivedResult?.count) || 0,
       jobsByStatus
     };
   }
@@ -1146,17 +1826,65 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  async getSupply(id: number): Promise<SupplyWithLocation | undefined> {
+    return await db.query.supplies.findFirst({
+      where: eq(supplies.id, id),
+      with: {
+        location: true
+      }
+    });
+  }
+
   async createSupply(supply: InsertSupply): Promise<Supply> {
-    const result = await db.insert(supplies).values(supply).returning();
-    return result[0];
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(supplies).values({
+        ...supply,
+        available: availableStock(supply.quantityOnHand ?? 0, 0)
+      }).returning();
+      // Opening stock starts out at the supply's home location
+      await this.shiftLocationStock(tx, { ...created, quantityOnHand: 0 }, created.quantityOnHand);
+      return created;
+    });
   }
 
-  async updateSupply(id: number, supply: Partial<InsertSupply>): Promise<void> {
-    await db.update(supplies).set(supply).where(eq(supplies.id, id));
+  async updateSupply(id: number, supply: Partial<InsertSupply>, userId?: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(supplies).where(eq(supplies.id, id)).for('update');
+      if (!existing) return;
+
+      await tx.update(supplies).set({
+        ...supply,
+        available: availableStock(supply.quantityOnHand ?? existing.quantityOnHand, existing.allocated),
+        updatedAt: new Date()
+      }).where(eq(supplies.id, id));
+
+      // Editing the quantity on hand directly adds or removes stock at the home location,
+      // and is booked as an 'adjust' like any other correction to the count
+      if (supply.quantityOnHand !== undefined && supply.quantityOnHand !== existing.quantityOnHand) {
+        await this.shiftLocationStock(tx, { ...existing, locationId: supply.locationId ?? existing.locationId }, supply.quantityOnHand - existing.quantityOnHand);
+        await tx.insert(supplyTransactions).values({
+          supplyId: id,
+          type: 'adjust',
+          quantity: supply.quantityOnHand,
+          description: `Quantity on hand edited from ${existing.quantityOnHand}`,
+          userId
+        });
+      }
+    });
   }
 
+  // Supplies on a posted inventory count cannot be deleted; see isSupplyOnPostedCount
   async deleteSupply(id: number): Promise<void> {
-    await db.delete(supplies).where(eq(supplies.id, id));
+    await db.transaction(async (tx) => {
+      // Vendor prices and location rows only describe the supply, so they go with it
+      await tx.delete(vendorSupplies).where(eq(vendorSupplies.supplyId, id));
+      await tx.delete(supplyStock).where(eq(supplyStock.supplyId, id));
+      // Lines of counts that never reached the ledger are working data
+      const unposted = tx.select({ id: inventoryCounts.id }).from(inventoryCounts).where(ne(inventoryCounts.status, 'posted'));
+      await tx.delete(inventoryCountLines)
+        .where(and(eq(inventoryCountLines.supplyId, id), inArray(inventoryCountLines.countId, unposted)));
+      await tx.delete(supplies).where(eq(supplies.id, id));
+    });
   }
 
   async searchSupplies(query: string): Promise<SupplyWithLocation[]> {
@@ -1169,78 +1897,373 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async updateSupplyQuantity(id: number, quantity: number, type: 'receive' | 'use' | 'adjust', description?: string, jobId?: number, userId?: number): Promise<void> {
-    const supply = await db.select().from(supplies).where(eq(supplies.id, id));
-    if (!supply[0]) throw new Error('Supply not found');
+  async getSuppliesToReorder(): Promise<SupplyReorderItem[]> {
+    const candidates = await db.query.supplies.findMany({
+      where: (s, { gt }) => gt(s.minimumQuantity, 0),
+      with: {
+        location: true
+      },
+      orderBy: supplies.name
+    });
 
-    const currentSupply = supply[0];
-    let newQuantityOnHand = currentSupply.quantityOnHand;
-    let newAvailable = currentSupply.available;
-
-    // Update quantities based on transaction type
-    switch (type) {
-      case 'receive':
-        newQuantityOnHand += quantity;
-        newAvailable += quantity;
-        break;
-      case 'use':
-        newQuantityOnHand -= quantity;
-        newAvailable -= quantity;
-        break;
-      case 'adjust':
-        newQuantityOnHand = quantity;
-        newAvailable = quantity - currentSupply.allocated;
-        break;
+    // Free stock is what is on hand and not already promised to jobs
+    return candidates
+      .map(supply => {
+        const shortfall = supply.minimumQuantity - (supply.quantityOnHand - supply.allocated);
+        return {
+          ...supply,
+          shortfall,
+          // Order at least the reorder quantity, and always enough to get back to the minimum
+          quantityToOrder: Math.max(supply.reorderQuantity, shortfall),
+        };
+      })
+      .filter(supply => supply.shortfall > 0);
+  }
+
+  // Manual stock movements: 'receive' and 'use' move the count by the quantity given,
+  // 'adjust' sets it outright. Taking on hand below zero is refused unless allowNegative.
+  async updateSupplyQuantity(id: number, quantity: number, type: 'receive' | 'use' | 'adjust', description?: string, jobId?: number, userId?: number, allowNegative = false): Promise<void> {
+    if (!Number.isInteger(quantity) || quantity < 0 || (type !== 'adjust' && quantity === 0)) {
+      throw new Error('Quantity must be a positive whole number');
     }
 
-    // Ensure available doesn't go negative
-    newAvailable = Math.max(0, newAvailable);
+    await db.transaction(async (tx) => {
+      const [supply] = await tx.select().from(supplies).where(eq(supplies.id, id)).for('update');
+      if (!supply) throw new Error('Supply not found');
 
-    // Update supply quantities
-    await db.update(supplies).set({
-      quantityOnHand: newQuantityOnHand,
-      available: newAvailable
-    }).where(eq(supplies.id, id));
+      const quantityOnHand = type === 'adjust'
+        ? quantity
+        : supply.quantityOnHand + (type === 'receive' ? quantity : -quantity);
+      if (quantityOnHand < 0 && !allowNegative) {
+        throw new Error(`Only ${supply.quantityOnHand} ${supply.name} on hand`);
+      }
 
-    // Create transaction record
-    await db.insert(supplyTransactions).values({
-      supplyId: id,
-      type,
-      quantity,
-      description,
-      jobId,
-      userId
+      await tx.update(supplies).set({
+        quantityOnHand,
+        used: type === 'use' ? supply.used + quantity : supply.used,
+        available: availableStock(quantityOnHand, supply.allocated),
+        updatedAt: new Date()
+      }).where(eq(supplies.id, id));
+      await this.shiftLocationStock(tx, supply, quantityOnHand - supply.quantityOnHand);
+
+      await tx.insert(supplyTransactions).values({
+        supplyId: id,
+        type,
+        quantity,
+        description,
+        jobId,
+        userId
+      });
     });
   }
 
-  async allocateSupplyForJob(supplyId: number, quantity: number, jobId: number, userId?: number): Promise<void> {
-    const supply = await db.select().from(supplies).where(eq(supplies.id, supplyId));
+  // A negative quantity releases a reservation. Pass the caller's transaction
+  // to reserve stock together with the job changes that need it.
+  async allocateSupplyForJob(supplyId: number, quantity: number, jobId: number, userId?: number, tx: DbTransaction | typeof db = db): Promise<void> {
+    const supply = await tx.select().from(supplies).where(eq(supplies.id, supplyId)).for('update');
     if (!supply[0]) throw new Error('Supply not found');
 
+    // Releases never take the reservation below zero
     const currentSupply = supply[0];
-    const newAllocated = currentSupply.allocated + quantity;
-    const newAvailable = Math.max(0, currentSupply.available - quantity);
+    const newAllocated = Math.max(0, currentSupply.allocated + quantity);
 
     // Update supply allocation
-    await db.update(supplies).set({
+    await tx.update(supplies).set({
       allocated: newAllocated,
-      available: newAvailable
+      available: availableStock(currentSupply.quantityOnHand, newAllocated),
+      updatedAt: new Date()
     }).where(eq(supplies.id, supplyId));
 
     // Create allocation transaction
-    await db.insert(supplyTransactions).values({
+    await tx.insert(supplyTransactions).values({
       supplyId,
       type: 'allocate',
       quantity,
-      description: `Allocated for job ${jobId}`,
+      description: quantity < 0 ? `Released allocation for job ${jobId}` : `Allocated for job ${jobId}`,
       jobId,
       userId
     });
   }
 
+  // Stock pulled from or returned to the shelf by hand, optionally for a job. Check-outs
+  // cannot take more than is available, so stock reserved for other jobs stays on the shelf.
+  // With moveToLocationId the stock is also carried from the shelf to that location, as a
+  // pair of 'transfer' transactions: checked-in stock ends up there, and checked-out stock
+  // is used from there.
+  async checkInOutSupply(movement: SupplyCheckInOut, userId?: number): Promise<SupplyWithLocation> {
+    const { direction, supplyId, quantity, locationId, moveToLocationId, jobId, note } = movement;
+
+    await db.transaction(async (tx) => {
+      const [supply] = await tx.select().from(supplies).where(eq(supplies.id, supplyId)).for('update');
+      if (!supply) throw new Error('Supply not found');
+
+      if (jobId) {
+        const [job] = await tx.select({ id: jobs.id, deletedAt: jobs.deletedAt }).from(jobs).where(eq(jobs.id, jobId));
+        if (!job || job.deletedAt) throw new Error('Job not found');
+      }
+
+      const checkingOut = direction === 'check_out';
+      if (checkingOut && quantity > supply.available) {
+        throw new Error(`Only ${Math.max(0, supply.available)} ${supply.name} available to check out`);
+      }
+
+      const sourceLocationId = locationId ?? supply.locationId;
+      const targetLocationId = moveToLocationId && moveToLocationId !== sourceLocationId ? moveToLocationId : null;
+      const locationNames = new Map<number, string>();
+      for (const id of [sourceLocationId, targetLocationId]) {
+        if (!id) continue;
+        const [location] = await tx.select().from(locations).where(eq(locations.id, id));
+        if (!location) throw new Error('Location not found');
+        locationNames.set(id, location.name);
+      }
+
+      const suffix = note ? `: ${note}` : '';
+      const move = (current: Supply) => this.moveLocationStock(tx, current, {
+        fromLocationId: sourceLocationId,
+        toLocationId: targetLocationId!,
+        quantity,
+        note,
+      }, userId);
+
+      // Checked-out stock is carried to the target first and used from there
+      if (checkingOut && targetLocationId) await move(supply);
+
+      const bookedAt = checkingOut && targetLocationId ? targetLocationId : sourceLocationId;
+      const quantityOnHand = supply.quantityOnHand + (checkingOut ? -quantity : quantity);
+      await tx.update(supplies).set({
+        quantityOnHand,
+        used: checkingOut ? supply.used + quantity : supply.used,
+        available: availableStock(quantityOnHand, supply.allocated),
+        updatedAt: new Date()
+      }).where(eq(supplies.id, supplyId));
+      await this.shiftLocationStock(tx, supply, checkingOut ? -quantity : quantity, checkingOut && targetLocationId ? targetLocationId : locationId);
+
+      await tx.insert(supplyTransactions).values({
+        supplyId,
+        type: checkingOut ? 'use' : 'receive',
+        quantity,
+        description: bookedAt
+          ? `${checkingOut ? 'Checked out from' : 'Checked in to'} ${locationNames.get(bookedAt)}${suffix}`
+          : `${checkingOut ? 'Checked out' : 'Checked in'}${suffix}`,
+        jobId,
+        locationId: bookedAt,
+        userId
+      });
+
+      // Checked-in stock lands on the shelf and is then carried to the target
+      if (!checkingOut && targetLocationId) await move({ ...supply, quantityOnHand });
+    });
+
+    return await this.getSupply(supplyId) as SupplyWithLocation;
+  }
+
+  // Keep the per-location rows in step with a change to a supply's quantity on hand.
+  // Additions go to the given location, or the supply's home location. Removals from a
+  // named location must fit what is there (its stock row, plus unplaced stock when it is
+  // the home location). Without a location, removals come from the home location, then
+  // stock not yet placed, then whichever other locations hold the most. Pass the supply
+  // as it was before the change.
+  private async shiftLocationStock(tx: DbTransaction | typeof db, supply: Supply, delta: number, locationId?: number | null): Promise<void> {
+    if (delta === 0) return;
+
+    if (delta > 0) {
+      const target = locationId ?? supply.locationId;
+      if (!target) return;
+      await tx.insert(supplyStock)
+        .values({ supplyId: supply.id, locationId: target, quantity: delta })
+        .onConflictDoUpdate({
+          target: [supplyStock.supplyId, supplyStock.locationId],
+          set: { quantity: sql`${supplyStock.quantity} + ${delta}`, updatedAt: new Date() }
+        });
+      return;
+    }
+
+    const rows = await tx.select().from(supplyStock)
+      .where(and(eq(supplyStock.supplyId, supply.id), gt(supplyStock.quantity, 0)))
+      .orderBy(desc(supplyStock.quantity))
+      .for('update');
+    const unplaced = Math.max(0, supply.quantityOnHand - rows.reduce((sum, row) => sum + row.quantity, 0));
+
+    let remaining = -delta;
+    const take = async (row: typeof rows[number]) => {
+      const taken = Math.min(row.quantity, remaining);
+      if (taken === 0) return;
+      await tx.update(supplyStock)
+        .set({ quantity: row.quantity - taken, updatedAt: new Date() })
+        .where(eq(supplyStock.id, row.id));
+      remaining -= taken;
+    };
+
+    if (locationId) {
+      const row = rows.find(r => r.locationId === locationId);
+      const onShelf = (row?.quantity ?? 0) + (locationId === supply.locationId ? unplaced : 0);
+      if (remaining > onShelf) {
+        const [location] = await tx.select({ name: locations.name }).from(locations).where(eq(locations.id, locationId));
+        throw new Error(`Only ${onShelf} ${supply.name} at ${location?.name ?? 'that location'}`);
+      }
+      // Anything the row cannot cover comes from unplaced stock at the home location
+      if (row) await take(row);
+      return;
+    }
+
+    const home = rows.filter(row => row.locationId === supply.locationId);
+    const others = rows.filter(row => row.locationId !== supply.locationId);
+
+    for (const row of home) await take(row);
+    const fromUnplaced = Math.min(unplaced, remaining);
+    remaining -= fromUnplaced;
+    for (const row of others) await take(row);
+  }
+
+  async getSupplyStock(supplyId?: number): Promise<SupplyStockWithLocation[]> {
+    const rows = await db.select({ stock: supplyStock, locationName: locations.name })
+      .from(supplyStock)
+      .innerJoin(locations, eq(supplyStock.locationId, locations.id))
+      .where(and(
+        gt(supplyStock.quantity, 0),
+        supplyId ? eq(supplyStock.supplyId, supplyId) : undefined
+      ))
+      .orderBy(locations.name);
+    return rows.map(row => ({ ...row.stock, locationName: row.locationName }));
+  }
+
+  // Move stock between locations without changing the total on hand. The move is
+  // recorded as a pair of 'transfer' transactions that net to zero.
+  async transferSupplyStock(supplyId: number, transfer: TransferSupplyStock, userId?: number): Promise<SupplyStockWithLocation[]> {
+    if (transfer.fromLocationId === transfer.toLocationId) throw new Error('Choose two different locations');
+
+    await db.transaction(async (tx) => {
+      const [supply] = await tx.select().from(supplies).where(eq(supplies.id, supplyId)).for('update');
+      if (!supply) throw new Error('Supply not found');
+
+      await this.moveLocationStock(tx, supply, transfer, userId);
+    });
+
+    return await this.getSupplyStock(supplyId);
+  }
+
+  // The body of a transfer, for callers already holding the supply's lock. Without
+  // fromLocationId the stock comes from stock not yet placed at a location.
+  private async moveLocationStock(tx: DbTransaction, supply: Supply, transfer: TransferSupplyStock, userId?: number): Promise<void> {
+    const { fromLocationId, toLocationId, quantity, note } = transfer;
+    const supplyId = supply.id;
+
+    const [to] = await tx.select().from(locations).where(eq(locations.id, toLocationId));
+    if (!to) throw new Error('Location not found');
+
+    const rows = await tx.select().from(supplyStock).where(eq(supplyStock.supplyId, supplyId)).for('update');
+    const unplaced = supply.quantityOnHand - rows.reduce((sum, row) => sum + row.quantity, 0);
+    let fromName = 'unplaced stock';
+    if (fromLocationId) {
+      const [from] = await tx.select().from(locations).where(eq(locations.id, fromLocationId));
+      if (!from) throw new Error('Location not found');
+      fromName = from.name;
+
+      // Stock not yet placed anywhere counts as being at the home location
+      const fromRow = rows.find(row => row.locationId === fromLocationId);
+      const onShelf = (fromRow?.quantity ?? 0) + (fromLocationId === supply.locationId ? Math.max(0, unplaced) : 0);
+      if (quantity > onShelf) throw new Error(`Only ${onShelf} at ${from.name}`);
+      if (fromRow) {
+        await tx.update(supplyStock)
+          .set({ quantity: Math.max(0, fromRow.quantity - quantity), updatedAt: new Date() })
+          .where(eq(supplyStock.id, fromRow.id));
+      }
+    } else if (quantity > unplaced) {
+      throw new Error(`Only ${Math.max(0, unplaced)} not yet placed at a location`);
+    }
+
+    await tx.insert(supplyStock)
+      .values({ supplyId, locationId: toLocationId, quantity })
+      .onConflictDoUpdate({
+        target: [supplyStock.supplyId, supplyStock.locationId],
+        set: { quantity: sql`${supplyStock.quantity} + ${quantity}`, updatedAt: new Date() }
+      });
+
+    const suffix = note ? `: ${note}` : '';
+    await tx.insert(supplyTransactions).values([
+      {
+        supplyId,
+        type: 'transfer',
+        quantity: -quantity,
+        description: `Transferred to ${to.name}${suffix}`,
+        locationId: fromLocationId ?? null,
+        userId
+      },
+      {
+        supplyId,
+        type: 'transfer',
+        quantity,
+        description: `Transferred from ${fromName}${suffix}`,
+        locationId: toLocationId,
+        userId
+      }
+    ]);
+  }
+
+  // Newest first. A date-only toDate covers that whole day.
+  async getSupplyTransactions(filter: SupplyLedgerFilter): Promise<SupplyLedgerEntry[]> {
+    const conditions: SQL[] = [];
+    if (filter.type) conditions.push(eq(supplyTransactions.type, filter.type));
+    if (filter.supplyId) conditions.push(eq(supplyTransactions.supplyId, filter.supplyId));
+    if (filter.jobId) conditions.push(eq(supplyTransactions.jobId, filter.jobId));
+    if (filter.userId) conditions.push(eq(supplyTransactions.userId, filter.userId));
+    if (filter.fromDate) conditions.push(gte(supplyTransactions.createdAt, filter.fromDate));
+    if (filter.toDate) conditions.push(lte(supplyTransactions.createdAt, inclusiveToDate(filter.toDate)));
+
+    const rows = await db.select({
+      transaction: supplyTransactions,
+      supplyName: supplies.name,
+      jobNumber: jobs.jobNumber,
+      username: users.username,
+      locationName: locations.name,
+    })
+      .from(supplyTransactions)
+      .innerJoin(supplies, eq(supplyTransactions.supplyId, supplies.id))
+      .leftJoin(jobs, eq(supplyTransactions.jobId, jobs.id))
+      .leftJoin(users, eq(supplyTransactions.userId, users.id))
+      .leftJoin(locations, eq(supplyTransactions.locationId, locations.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(supplyTransactions.createdAt), desc(supplyTransactions.id));
+
+    return rows.map(row => ({
+      ...row.transaction,
+      supplyName: row.supplyName,
+      jobNumber: row.jobNumber,
+      username: row.username,
+      locationName: row.locationName,
+    }));
+  }
+
   // Location management methods
-  async getAllLocations(): Promise<Location[]> {
-    return await db.select().from(locations).orderBy(locations.name);
+  private locationsWithItemCounts(where?: SQL) {
+    return db.select({
+      id: locations.id,
+      name: locations.name,
+      description: locations.description,
+      active: locations.active,
+      createdAt: locations.createdAt,
+      // Supplies that call this location home or have stock sitting here
+      itemCount: sql<number>`(
+        SELECT count(*)::int FROM ${supplies}
+        WHERE ${supplies.locationId} = ${locations.id}
+          OR EXISTS (
+            SELECT 1 FROM ${supplyStock}
+            WHERE ${supplyStock.supplyId} = ${supplies.id} AND ${supplyStock.locationId} = ${locations.id} AND ${supplyStock.quantity} > 0
+          )
+      )`,
+    })
+      .from(locations)
+      .where(where)
+      .orderBy(locations.name);
+  }
+
+  async getAllLocations(): Promise<LocationWithItemCount[]> {
+    return await this.locationsWithItemCounts();
+  }
+
+  async getLocation(id: number): Promise<LocationWithItemCount | undefined> {
+    const [location] = await this.locationsWithItemCounts(eq(locations.id, id));
+    return location;
   }
 
   async createLocation(location: InsertLocation): Promise<Location> {
@@ -1248,12 +2271,301 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async updateLocation(id: number, name: string): Promise<void> {
-    await db.update(locations).set({ name }).where(eq(locations.id, id));
+  async updateLocation(id: number, location: Partial<InsertLocation>): Promise<Location> {
+    const [updated] = await db.update(locations).set(location).where(eq(locations.id, id)).returning();
+    if (!updated) throw new Error('Location not found');
+    return updated;
+  }
+
+  // A location that still holds supplies can only be deleted by moving them elsewhere,
+  // and one that appears in a posted inventory count cannot be deleted at all
+  async deleteLocation(id: number, reassignToLocationId?: number): Promise<void> {
+    if (reassignToLocationId === id) throw new Error('Cannot reassign a location to itself');
+
+    await db.transaction(async (tx) => {
+      // Posted counts are the record behind their ledger adjustments, so they keep their locations
+      const [posted] = await tx.select({ id: inventoryCountLines.id })
+        .from(inventoryCountLines)
+        .innerJoin(inventoryCounts, eq(inventoryCountLines.countId, inventoryCounts.id))
+        .where(and(eq(inventoryCountLines.locationId, id), eq(inventoryCounts.status, 'posted')))
+        .limit(1);
+      if (posted) throw new Error('Location is part of a posted inventory count; deactivate it instead');
+
+      if (reassignToLocationId) {
+        const [target] = await tx.select({ id: locations.id }).from(locations).where(eq(locations.id, reassignToLocationId));
+        if (!target) throw new Error('Location to reassign to not found');
+
+        await tx.update(supplies)
+          .set({ locationId: reassignToLocationId, updatedAt: new Date() })
+          .where(eq(supplies.locationId, id));
+
+        // Stock on the shelf moves with the supplies, merging into any existing rows
+        const stock = await tx.select().from(supplyStock).where(eq(supplyStock.locationId, id));
+        for (const row of stock) {
+          await tx.insert(supplyStock)
+            .values({ supplyId: row.supplyId, locationId: reassignToLocationId, quantity: row.quantity })
+            .onConflictDoUpdate({
+              target: [supplyStock.supplyId, supplyStock.locationId],
+              set: { quantity: sql`${supplyStock.quantity} + ${row.quantity}`, updatedAt: new Date() }
+            });
+        }
+        await tx.update(supplyTransactions)
+          .set({ locationId: reassignToLocationId })
+          .where(eq(supplyTransactions.locationId, id));
+      } else {
+        const [stored] = await tx.select({ id: supplies.id }).from(supplies).where(eq(supplies.locationId, id)).limit(1);
+        const [stocked] = await tx.select({ id: supplyStock.id }).from(supplyStock)
+          .where(and(eq(supplyStock.locationId, id), gt(supplyStock.quantity, 0))).limit(1);
+        if (stored || stocked) throw new Error('Location still holds supplies');
+
+        // The ledger keeps its entries, just without the location
+        await tx.update(supplyTransactions)
+          .set({ locationId: null })
+          .where(eq(supplyTransactions.locationId, id));
+      }
+
+      // Open and cancelled counts never reached the ledger, so they just drop the location
+      const unposted = tx.select({ id: inventoryCounts.id }).from(inventoryCounts).where(ne(inventoryCounts.status, 'posted'));
+      await tx.delete(inventoryCountLines)
+        .where(and(eq(inventoryCountLines.locationId, id), inArray(inventoryCountLines.countId, unposted)));
+      await tx.update(inventoryCounts)
+        .set({ locationIds: sql`array_remove(${inventoryCounts.locationIds}, ${id})` })
+        .where(and(ne(inventoryCounts.status, 'posted'), sql`${id} = ANY(${inventoryCounts.locationIds})`));
+
+      await tx.delete(supplyStock).where(eq(supplyStock.locationId, id));
+      await tx.delete(locations).where(eq(locations.id, id));
+    });
+  }
+
+  // Inventory count methods
+  private async inventoryCountSummaries(where?: SQL): Promise<InventoryCountSummary[]> {
+    const rows = await db.select({
+      count: inventoryCounts,
+      createdByUsername: users.username,
+      lineCount: sql<number>`(SELECT count(*)::int FROM ${inventoryCountLines} WHERE ${inventoryCountLines.countId} = ${inventoryCounts.id})`,
+      countedLineCount: sql<number>`(
+        SELECT count(*)::int FROM ${inventoryCountLines}
+        WHERE ${inventoryCountLines.countId} = ${inventoryCounts.id} AND ${inventoryCountLines.countedQuantity} IS NOT NULL
+      )`,
+    })
+      .from(inventoryCounts)
+      .innerJoin(users, eq(inventoryCounts.createdBy, users.id))
+      .where(where)
+      .orderBy(desc(inventoryCounts.createdAt));
+
+    const locationNames = new Map((await db.select({ id: locations.id, name: locations.name }).from(locations))
+      .map(location => [location.id, location.name]));
+
+    return rows.map(row => ({
+      ...row.count,
+      createdByUsername: row.createdByUsername,
+      locationNames: row.count.locationIds.map(id => locationNames.get(id) ?? `Location ${id}`),
+      lineCount: row.lineCount,
+      countedLineCount: row.countedLineCount,
+    }));
+  }
+
+  async getInventoryCounts(): Promise<InventoryCountSummary[]> {
+    return await this.inventoryCountSummaries();
+  }
+
+  // Expected quantities and variances are worked out against current stock, so they
+  // keep up with cuts and receipts made while the count is under way
+  async getInventoryCount(id: number): Promise<InventoryCountWithLines | undefined> {
+    const [summary] = await this.inventoryCountSummaries(eq(inventoryCounts.id, id));
+    if (!summary) return undefined;
+
+    const [postedBy] = summary.postedBy
+      ? await db.select({ username: users.username }).from(users).where(eq(users.id, summary.postedBy))
+      : [];
+
+    const rows = await db.select({
+      line: inventoryCountLines,
+      supply: {
+        id: supplies.id,
+        name: supplies.name,
+        pieceSize: supplies.pieceSize,
+        locationId: supplies.locationId,
+        quantityOnHand: supplies.quantityOnHand,
+      },
+      locationName: locations.name,
+      countedByUsername: users.username,
+    })
+      .from(inventoryCountLines)
+      .innerJoin(supplies, eq(inventoryCountLines.supplyId, supplies.id))
+      .innerJoin(locations, eq(inventoryCountLines.locationId, locations.id))
+      .leftJoin(users, eq(inventoryCountLines.countedBy, users.id))
+      .where(eq(inventoryCountLines.countId, id))
+      .orderBy(locations.name, supplies.name);
+
+    const supplyIds = Array.from(new Set(rows.map(row => row.supply.id)));
+    const stock = supplyIds.length > 0
+      ? await db.select().from(supplyStock).where(inArray(supplyStock.supplyId, supplyIds))
+      : [];
+
+    return {
+      ...summary,
+      postedByUsername: postedBy?.username ?? null,
+      lines: rows.map(row => {
+        const expectedQuantity = expectedStockAt(row.supply, stock, row.line.locationId);
+        return {
+          ...row.line,
+          supplyName: row.supply.name,
+          pieceSize: row.supply.pieceSize,
+          locationName: row.locationName,
+          expectedQuantity,
+          variance: row.line.countedQuantity === null ? null : row.line.countedQuantity - expectedQuantity,
+          countedByUsername: row.countedByUsername,
+        };
+      }),
+    };
+  }
+
+  // Starts with a line for every supply that calls one of the locations home or has stock there
+  async createInventoryCount(data: CreateInventoryCount, userId: number): Promise<InventoryCount> {
+    const locationIds = Array.from(new Set(data.locationIds));
+
+    return await db.transaction(async (tx) => {
+      const found = await tx.select({ id: locations.id }).from(locations).where(inArray(locations.id, locationIds));
+      if (found.length !== locationIds.length) throw new Error('Location not found');
+
+      const [count] = await tx.insert(inventoryCounts).values({
+        locationIds,
+        note: data.note,
+        createdBy: userId
+      }).returning();
+
+      const homed = await tx.select({ supplyId: supplies.id, locationId: supplies.locationId })
+        .from(supplies)
+        .where(inArray(supplies.locationId, locationIds));
+      const stocked = await tx.select({ supplyId: supplyStock.supplyId, locationId: supplyStock.locationId })
+        .from(supplyStock)
+        .where(and(inArray(supplyStock.locationId, locationIds), gt(supplyStock.quantity, 0)));
+
+      const lines = new Map<string, { supplyId: number; locationId: number }>();
+      for (const row of [...homed, ...stocked]) {
+        if (row.locationId) lines.set(`${row.supplyId}:${row.locationId}`, { supplyId: row.supplyId, locationId: row.locationId });
+      }
+      if (lines.size > 0) {
+        await tx.insert(inventoryCountLines).values(Array.from(lines.values()).map(line => ({ countId: count.id, ...line })));
+      }
+
+      return count;
+    });
+  }
+
+  async addInventoryCountLine(countId: number, supplyId: number, locationId: number): Promise<InventoryCountLine> {
+    const [count] = await db.select().from(inventoryCounts).where(eq(inventoryCounts.id, countId));
+    if (!count) throw new Error('Inventory count not found');
+    if (count.status !== 'open') throw new Error('Only open counts can be changed');
+    if (!count.locationIds.includes(locationId)) throw new Error('That location is not part of this count');
+
+    const [supply] = await db.select({ id: supplies.id }).from(supplies).where(eq(supplies.id, supplyId));
+    if (!supply) throw new Error('Supply not found');
+
+    const [existing] = await db.select().from(inventoryCountLines).where(and(
+      eq(inventoryCountLines.countId, countId),
+      eq(inventoryCountLines.supplyId, supplyId),
+      eq(inventoryCountLines.locationId, locationId)
+    ));
+    if (existing) return existing;
+
+    const [line] = await db.insert(inventoryCountLines).values({ countId, supplyId, locationId }).returning();
+    return line;
+  }
+
+  async recordInventoryCount(countId: number, data: RecordInventoryCount, userId?: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [count] = await tx.select().from(inventoryCounts).where(eq(inventoryCounts.id, countId)).for('update');
+      if (!count) throw new Error('Inventory count not found');
+      if (count.status !== 'open') throw new Error('Only open counts can be changed');
+
+      for (const entry of data.lines) {
+        const counted = entry.countedQuantity !== null;
+        const [updated] = await tx.update(inventoryCountLines).set({
+          countedQuantity: entry.countedQuantity,
+          countedBy: counted ? userId ?? null : null,
+          countedAt: counted ? new Date() : null
+        })
+          .where(and(eq(inventoryCountLines.id, entry.lineId), eq(inventoryCountLines.countId, countId)))
+          .returning({ id: inventoryCountLines.id });
+        if (!updated) throw new Error(`Line ${entry.lineId} is not part of this count`);
+      }
+    });
+  }
+
+  // Each counted line sets the stock at its location to what was found, and the
+  // supply's quantity on hand moves by the variance. Like any 'adjust', the transaction
+  // records the new quantity on hand; the location count and variance go in its description.
+  // It carries the counter's user id; postedBy records who approved it. Uncounted lines are skipped.
+  async postInventoryCount(countId: number, userId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [count] = await tx.select().from(inventoryCounts).where(eq(inventoryCounts.id, countId)).for('update');
+      if (!count) throw new Error('Inventory count not found');
+      if (count.status !== 'open') throw new Error('Only open counts can be posted');
+
+      const lines = await tx.select({ line: inventoryCountLines, locationName: locations.name })
+        .from(inventoryCountLines)
+        .innerJoin(locations, eq(inventoryCountLines.locationId, locations.id))
+        .where(and(eq(inventoryCountLines.countId, countId), isNotNull(inventoryCountLines.countedQuantity)))
+        .orderBy(inventoryCountLines.supplyId, inventoryCountLines.id);
+
+      for (const { line, locationName } of lines) {
+        const counted = line.countedQuantity!;
+        const [supply] = await tx.select().from(supplies).where(eq(supplies.id, line.supplyId)).for('update');
+        const stock = await tx.select().from(supplyStock).where(eq(supplyStock.supplyId, line.supplyId)).for('update');
+        const expected = expectedStockAt(supply, stock, line.locationId);
+        const variance = counted - expected;
+        if (variance === 0) continue;
+
+        await tx.insert(supplyStock)
+          .values({ supplyId: line.supplyId, locationId: line.locationId, quantity: counted })
+          .onConflictDoUpdate({
+            target: [supplyStock.supplyId, supplyStock.locationId],
+            set: { quantity: counted, updatedAt: new Date() }
+          });
+
+        const quantityOnHand = supply.quantityOnHand + variance;
+        await tx.update(supplies).set({
+          quantityOnHand,
+          available: availableStock(quantityOnHand, supply.allocated),
+          updatedAt: new Date()
+        }).where(eq(supplies.id, line.supplyId));
+
+        await tx.insert(supplyTransactions).values({
+          supplyId: line.supplyId,
+          type: 'adjust',
+          quantity: quantityOnHand,
+          description: `Inventory count #${count.id}: counted ${counted} at ${locationName}, expected ${expected} (${variance > 0 ? '+' : ''}${variance})`,
+          locationId: line.locationId,
+          userId: line.countedBy ?? userId
+        });
+      }
+
+      await tx.update(inventoryCounts).set({
+        status: 'posted',
+        postedBy: userId,
+        postedAt: new Date()
+      }).where(eq(inventoryCounts.id, countId));
+    });
+  }
+
+  // Posted counts are the record behind their ledger adjustments, so their supplies stay
+  async isSupplyOnPostedCount(supplyId: number): Promise<boolean> {
+    const [line] = await db.select({ id: inventoryCountLines.id })
+      .from(inventoryCountLines)
+      .innerJoin(inventoryCounts, eq(inventoryCountLines.countId, inventoryCounts.id))
+      .where(and(eq(inventoryCountLines.supplyId, supplyId), eq(inventoryCounts.status, 'posted')))
+      .limit(1);
+    return !!line;
   }
 
-  async deleteLocation(id: number): Promise<void> {
-    await db.delete(locations).where(eq(locations.id, id));
+  async cancelInventoryCount(countId: number): Promise<void> {
+    const [count] = await db.update(inventoryCounts)
+      .set({ status: 'cancelled' })
+      .where(and(eq(inventoryCounts.id, countId), eq(inventoryCounts.status, 'open')))
+      .returning({ id: inventoryCounts.id });
+    if (!count) throw new Error('Only open counts can be cancelled');
   }
 
   // Purchase order management methods
@@ -1285,39 +2597,53 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async createPurchaseOrder(orderData: InsertPurchaseOrder, items: InsertPurchaseOrderItem[]): Promise<PurchaseOrderWithItems> {
+  async createPurchaseOrder(orderData: InsertPurchaseOrder, items: Omit<InsertPurchaseOrderItem, 'purchaseOrderId'>[]): Promise<PurchaseOrderWithItems> {
+    const purchaseOrder = await db.transaction(async (tx) => this.insertPurchaseOrder(tx, orderData, items));
+
+    // Return the complete purchase order with items
+    return await this.getPurchaseOrder(purchaseOrder.id) as PurchaseOrderWithItems;
+  }
+
+  // Write an order with its lines and first history entry inside the caller's transaction
+  private async insertPurchaseOrder(tx: DbTransaction, orderData: InsertPurchaseOrder, items: Omit<InsertPurchaseOrderItem, 'purchaseOrderId'>[]): Promise<PurchaseOrder> {
+    // Calculate total amount
+    const totalAmount = items.reduce((sum, item) => sum + (item.quantity * item.pricePerUnit), 0);
+
     // Generate PO number (format: PO-YYYYMMDD-XXX)
     const today = new Date();
     const dateStr = today.toISOString().slice(0, 10).replace(/-/g, '');
-    const existingPOs = await db.select().from(purchaseOrders)
-      .where(sql`${purchaseOrders.poNumber} LIKE ${`PO-${dateStr}-%`}`);
-    
-    const poNumber = `PO-${dateStr}-${String(existingPOs.length + 1).padStart(3, '0')}`;
-    
-    // Calculate total amount
-    const totalAmount = items.reduce((sum, item) => sum + (item.quantity * item.pricePerUnit), 0);
+    const sequence = await this.nextSequenceValue(tx, 'purchase_order', dateStr);
+    const poNumber = `PO-${dateStr}-${String(sequence).padStart(3, '0')}`;
 
     // Create purchase order
-    const [purchaseOrder] = await db.insert(purchaseOrders).values({
+    const [purchaseOrder] = await tx.insert(purchaseOrders).values({
       ...orderData,
       poNumber,
       totalAmount
     }).returning();
 
     // Create purchase order items
-    const purchaseOrderItemsResult = await Promise.all(
-      items.map(item => 
-        db.insert(purchaseOrderItems).values({
-          ...item,
-          purchaseOrderId: purchaseOrder.id,
-          totalPrice: item.quantity * item.pricePerUnit
-        }).returning()
-      )
-    );
+    for (const item of items) {
+      await tx.insert(purchaseOrderItems).values({
+        ...item,
+        purchaseOrderId: purchaseOrder.id,
+        totalPrice: item.quantity * item.pricePerUnit
+      });
+    }
 
-    // Return the complete purchase order with items
+    await tx.insert(purchaseOrderStatusHistory).values({
+      purchaseOrderId: purchaseOrder.id,
+      toStatus: purchaseOrder.status,
+      note: 'Created',
+      changedBy: purchaseOrder.createdBy
+    });
+
+    return purchaseOrder;
+  }
+
+  async getPurchaseOrder(id: number): Promise<PurchaseOrderWithItems | undefined> {
     return await db.query.purchaseOrders.findFirst({
-      where: eq(purchaseOrders.id, purchaseOrder.id),
+      where: eq(purchaseOrders.id, id),
       with: {
         items: {
           with: {
@@ -1327,17 +2653,320 @@ export class DatabaseStorage implements IStorage {
         },
         createdByUser: true
       }
-    }) as PurchaseOrderWithItems;
+    });
+  }
+
+  // One draft purchase order per vendor for the given supplies on the reorder report, or all of them.
+  // Quantities default to the report's suggestion and can be overridden per supply.
+  async createReorderPurchaseOrders(userId: number, quantities: Record<number, number> = {}, supplyIds?: number[]): Promise<ReorderPurchaseOrdersResult> {
+    const reorderItems = (await this.getSuppliesToReorder())
+      .filter(supply => !supplyIds || supplyIds.includes(supply.id));
+    const result: ReorderPurchaseOrdersResult = { purchaseOrders: [], skipped: [] };
+
+    // Supplies already on an open order are covered until it is received
+    const openItems = await db.select({ supplyId: purchaseOrderItems.supplyId })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+      .where(inArray(purchaseOrders.status, ['draft', 'ordered', 'partially_received']));
+    const onOrder = new Set(openItems.map(item => item.supplyId));
+
+    // The preferred vendor's catalog price wins over the supply's default price
+    const catalogPrices = new Map<string, number>();
+    const catalog = await db.select().from(vendorSupplies);
+    for (const entry of catalog) {
+      catalogPrices.set(`${entry.vendorId}:${entry.supplyId}`, entry.price);
+    }
+
+    const itemsByVendor = new Map<number, Omit<InsertPurchaseOrderItem, 'purchaseOrderId'>[]>();
+    for (const supply of reorderItems) {
+      const quantity = quantities[supply.id] ?? supply.quantityToOrder;
+      const skip = (reason: string) => result.skipped.push({ supplyId: supply.id, name: supply.name, reason });
+
+      if (onOrder.has(supply.id)) {
+        skip('Already on an open purchase order');
+      } else if (!supply.vendorId) {
+        skip('No vendor assigned');
+      } else if (quantity < 1) {
+        skip('Nothing to order');
+      } else {
+        const vendorItems = itemsByVendor.get(supply.vendorId) || [];
+        vendorItems.push({
+          supplyId: supply.id,
+          vendorId: supply.vendorId,
+          quantity,
+          pricePerUnit: catalogPrices.get(`${supply.vendorId}:${supply.id}`) ?? supply.defaultVendorPrice ?? 0,
+        });
+        itemsByVendor.set(supply.vendorId, vendorItems);
+      }
+    }
+
+    // All the vendors' drafts are created together or not at all
+    const created = await db.transaction(async (tx) => {
+      const orders: PurchaseOrder[] = [];
+      for (const items of Array.from(itemsByVendor.values())) {
+        orders.push(await this.insertPurchaseOrder(tx, {
+          status: 'draft',
+          additionalComments: 'Generated from the reorder report',
+          createdBy: userId,
+        }, items));
+      }
+      return orders;
+    });
+
+    for (const purchaseOrder of created) {
+      result.purchaseOrders.push(await this.getPurchaseOrder(purchaseOrder.id) as PurchaseOrderWithItems);
+    }
+
+    return result;
+  }
+
+  // Book arriving stock against a purchase order. Each line can be received in several
+  // deliveries; the order is complete once every line has its full quantity.
+  async receivePurchaseOrder(id: number, receipt: ReceivePurchaseOrder, userId?: number): Promise<PurchaseOrderWithItems> {
+    await db.transaction(async (tx) => {
+      // Lock the order so two people receiving at once cannot both book the stock
+      const [purchaseOrder] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for('update');
+      if (!purchaseOrder) throw new Error('Purchase order not found');
+      if (purchaseOrder.status === 'received') throw new Error('Purchase order has already been received');
+      if (!receivableStatuses.includes(purchaseOrder.status)) {
+        throw new Error(`Cannot receive a ${purchaseOrder.status} purchase order`);
+      }
+
+      const items = await tx.select().from(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      const requested = new Map(receipt.items?.map(line => [line.itemId, line.quantity]));
+
+      const unknownItem = receipt.items?.find(line => !items.some(item => item.id === line.itemId));
+      if (unknownItem) throw new Error(`Line ${unknownItem.itemId} is not on this purchase order`);
+
+      let receivedTotal = 0;
+      for (const item of items) {
+        const outstanding = item.quantity - item.receivedQuantity;
+        const quantity = receipt.items ? requested.get(item.id) ?? 0 : outstanding;
+        if (quantity === 0) continue;
+        if (quantity > outstanding) {
+          throw new Error(`Cannot receive ${quantity} on a line with ${outstanding} outstanding`);
+        }
+
+        await tx.update(purchaseOrderItems).set({
+          receivedQuantity: item.receivedQuantity + quantity
+        }).where(eq(purchaseOrderItems.id, item.id));
+
+        const [supply] = await tx.select().from(supplies).where(eq(supplies.id, item.supplyId)).for('update');
+        const quantityOnHand = supply.quantityOnHand + quantity;
+        await tx.update(supplies).set({
+          quantityOnHand,
+          available: availableStock(quantityOnHand, supply.allocated),
+          updatedAt: new Date()
+        }).where(eq(supplies.id, item.supplyId));
+        await this.shiftLocationStock(tx, supply, quantity);
+
+        await tx.insert(supplyTransactions).values({
+          supplyId: item.supplyId,
+          type: 'receive',
+          quantity,
+          description: `Received on ${purchaseOrder.poNumber}`,
+          userId
+        });
+
+        receivedTotal += quantity;
+      }
+
+      if (receivedTotal === 0) throw new Error('Nothing to receive');
+
+      const remaining = await tx.select({ id: purchaseOrderItems.id }).from(purchaseOrderItems)
+        .where(and(
+          eq(purchaseOrderItems.purchaseOrderId, id),
+          sql`${purchaseOrderItems.receivedQuantity} < ${purchaseOrderItems.quantity}`
+        ));
+      const complete = remaining.length === 0;
+      const status = complete ? 'received' : 'partially_received';
+
+      await tx.update(purchaseOrders).set({
+        status,
+        dateReceived: complete ? receipt.dateReceived ?? new Date() : null,
+        updatedAt: new Date()
+      }).where(eq(purchaseOrders.id, id));
+
+      await tx.insert(purchaseOrderStatusHistory).values({
+        purchaseOrderId: id,
+        fromStatus: purchaseOrder.status,
+        toStatus: status,
+        note: `Received ${receivedTotal} unit${receivedTotal === 1 ? '' : 's'}`,
+        changedBy: userId
+      });
+    });
+
+    return await this.getPurchaseOrder(id) as PurchaseOrderWithItems;
+  }
+
+  // Lock an order and make sure it is still a draft before its lines are touched
+  private async lockDraftPurchaseOrder(tx: DbTransaction, id: number) {
+    const [purchaseOrder] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for('update');
+    if (!purchaseOrder) throw new Error('Purchase order not found');
+    if (purchaseOrder.status !== 'draft') throw new Error('Only draft purchase orders can be changed');
+    return purchaseOrder;
+  }
+
+  async updatePurchaseOrder(id: number, data: UpdatePurchaseOrder): Promise<PurchaseOrderWithItems> {
+    await db.transaction(async (tx) => {
+      await this.lockDraftPurchaseOrder(tx, id);
+
+      await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      for (const item of data.items) {
+        await tx.insert(purchaseOrderItems).values({
+          ...item,
+          purchaseOrderId: id,
+          totalPrice: item.quantity * item.pricePerUnit
+        });
+      }
+
+      await tx.update(purchaseOrders).set({
+        totalAmount: data.items.reduce((sum, item) => sum + (item.quantity * item.pricePerUnit), 0),
+        ...(data.additionalComments !== undefined && { additionalComments: data.additionalComments }),
+        updatedAt: new Date()
+      }).where(eq(purchaseOrders.id, id));
+    });
+
+    return await this.getPurchaseOrder(id) as PurchaseOrderWithItems;
+  }
+
+  // Drafts were never sent to a vendor, so they can be removed outright
+  async deletePurchaseOrder(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.lockDraftPurchaseOrder(tx, id);
+      await tx.delete(purchaseOrderStatusHistory).where(eq(purchaseOrderStatusHistory.purchaseOrderId, id));
+      await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      await tx.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+    });
   }
 
-  async updatePurchaseOrderReceived(id: number, dateReceived: Date): Promise<void> {
-    await db.update(purchaseOrders)
-      .set({ 
-        dateReceived, 
-        status: 'received',
+  async updatePurchaseOrderStatus(id: number, status: PurchaseOrderStatus, userId?: number, note?: string): Promise<PurchaseOrderWithItems> {
+    await db.transaction(async (tx) => {
+      const [purchaseOrder] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for('update');
+      if (!purchaseOrder) throw new Error('Purchase order not found');
+
+      const allowed = purchaseOrderTransitions[purchaseOrder.status as PurchaseOrderStatus] ?? [];
+      if (!allowed.includes(status)) {
+        throw new Error(`Cannot change a ${purchaseOrder.status} purchase order to ${status}`);
+      }
+
+      await tx.update(purchaseOrders).set({
+        status,
+        // The order date is when it was sent to the vendor, not when the draft was started
+        ...(status === 'ordered' && { dateOrdered: new Date() }),
         updatedAt: new Date()
-      })
-      .where(eq(purchaseOrders.id, id));
+      }).where(eq(purchaseOrders.id, id));
+
+      await tx.insert(purchaseOrderStatusHistory).values({
+        purchaseOrderId: id,
+        fromStatus: purchaseOrder.status,
+        toStatus: status,
+        note,
+        changedBy: userId
+      });
+    });
+
+    return await this.getPurchaseOrder(id) as PurchaseOrderWithItems;
+  }
+
+  async getPurchaseOrderStatusHistory(id: number): Promise<PurchaseOrderStatusHistoryEntry[]> {
+    return await db.select({
+      id: purchaseOrderStatusHistory.id,
+      purchaseOrderId: purchaseOrderStatusHistory.purchaseOrderId,
+      fromStatus: purchaseOrderStatusHistory.fromStatus,
+      toStatus: purchaseOrderStatusHistory.toStatus,
+      note: purchaseOrderStatusHistory.note,
+      changedBy: purchaseOrderStatusHistory.changedBy,
+      changedAt: purchaseOrderStatusHistory.changedAt,
+      changedByUsername: users.username
+    })
+      .from(purchaseOrderStatusHistory)
+      .leftJoin(users, eq(purchaseOrderStatusHistory.changedBy, users.id))
+      .where(eq(purchaseOrderStatusHistory.purchaseOrderId, id))
+      .orderBy(purchaseOrderStatusHistory.changedAt, purchaseOrderStatusHistory.id);
+  }
+
+  // Prices paid per supply and vendor, and spend per month, from orders that were placed.
+  // Drafts and cancelled orders never cost anything, so they are left out.
+  async getPurchaseAnalytics(filter: PurchaseAnalyticsFilter): Promise<PurchaseAnalytics> {
+    const conditions: SQL[] = [inArray(purchaseOrders.status, ['ordered', 'partially_received', 'received'])];
+    if (filter.supplyId) conditions.push(eq(purchaseOrderItems.supplyId, filter.supplyId));
+    if (filter.vendorId) conditions.push(eq(purchaseOrderItems.vendorId, filter.vendorId));
+    if (filter.fromDate) conditions.push(gte(purchaseOrders.dateOrdered, filter.fromDate));
+    if (filter.toDate) conditions.push(lte(purchaseOrders.dateOrdered, inclusiveToDate(filter.toDate)));
+
+    const lines = await db.select({
+      purchaseOrderId: purchaseOrderItems.purchaseOrderId,
+      supplyId: purchaseOrderItems.supplyId,
+      supplyName: supplies.name,
+      vendorId: purchaseOrderItems.vendorId,
+      vendorName: vendors.name,
+      quantity: purchaseOrderItems.quantity,
+      pricePerUnit: purchaseOrderItems.pricePerUnit,
+      totalPrice: purchaseOrderItems.totalPrice,
+      poNumber: purchaseOrders.poNumber,
+      dateOrdered: purchaseOrders.dateOrdered,
+    })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+      .innerJoin(supplies, eq(purchaseOrderItems.supplyId, supplies.id))
+      .innerJoin(vendors, eq(purchaseOrderItems.vendorId, vendors.id))
+      .where(and(...conditions))
+      .orderBy(purchaseOrders.dateOrdered, purchaseOrderItems.id);
+
+    const prices = new Map<string, PurchasePriceHistory>();
+    const monthly = new Map<string, PurchaseAnalytics['monthlySpend'][number]>();
+    // An order can list the same supply from the same vendor on several lines
+    const ordersSeen = new Map<string, Set<number>>();
+
+    // Lines arrive oldest first, so the last one seen is the latest price
+    for (const line of lines) {
+      const key = `${line.supplyId}:${line.vendorId}`;
+      const entry = prices.get(key) || {
+        supplyId: line.supplyId,
+        supplyName: line.supplyName,
+        vendorId: line.vendorId,
+        vendorName: line.vendorName,
+        orderCount: 0,
+        totalQuantity: 0,
+        totalSpend: 0,
+        averagePrice: 0,
+        lastPrice: line.pricePerUnit,
+        priceChange: null,
+        lastOrderedAt: line.dateOrdered.toISOString(),
+        history: [],
+      };
+      if (entry.history.length > 0) entry.priceChange = line.pricePerUnit - entry.lastPrice;
+      const orders = ordersSeen.get(key) || new Set<number>();
+      orders.add(line.purchaseOrderId);
+      ordersSeen.set(key, orders);
+      entry.orderCount = orders.size;
+      entry.totalQuantity += line.quantity;
+      entry.totalSpend += line.totalPrice;
+      entry.averagePrice = entry.totalQuantity > 0 ? Math.round(entry.totalSpend / entry.totalQuantity) : 0;
+      entry.lastPrice = line.pricePerUnit;
+      entry.lastOrderedAt = line.dateOrdered.toISOString();
+      entry.history.push({
+        date: line.dateOrdered.toISOString(),
+        poNumber: line.poNumber,
+        pricePerUnit: line.pricePerUnit,
+        quantity: line.quantity,
+      });
+      prices.set(key, entry);
+
+      const month = line.dateOrdered.toISOString().slice(0, 7);
+      const monthKey = `${month}:${line.vendorId}`;
+      const spend = monthly.get(monthKey) || { month, vendorId: line.vendorId, vendorName: line.vendorName, totalSpend: 0 };
+      spend.totalSpend += line.totalPrice;
+      monthly.set(monthKey, spend);
+    }
+
+    return {
+      prices: Array.from(prices.values())
+        .sort((a, b) => a.supplyName.localeCompare(b.supplyName) || a.vendorName.localeCompare(b.vendorName)),
+      monthlySpend: Array.from(monthly.values())
+        .sort((a, b) => a.month.localeCompare(b.month) || a.vendorName.localeCompare(b.vendorName)),
+    };
   }
 
   async getAllVendors(): Promise<Vendor[]> {
@@ -1352,10 +2981,146 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getVendor(id: number): Promise<Vendor | undefined> {
+    const [vendor] = await db.select().from(vendors).where(eq(vendors.id, id));
+    return vendor;
+  }
+
   async createVendor(vendor: InsertVendor): Promise<Vendor> {
     const result = await db.insert(vendors).values(vendor).returning();
     return result[0];
   }
+
+  async updateVendor(id: number, vendor: Partial<InsertVendor>): Promise<Vendor> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx.update(vendors)
+        .set({ ...vendor, updatedAt: new Date() })
+        .where(eq(vendors.id, id))
+        .returning();
+      if (!updated) throw new Error('Vendor not found');
+
+      // Supplies keep a copy of their default vendor's name
+      if (vendor.name !== undefined) {
+        await tx.update(supplies)
+          .set({ defaultVendor: updated.name, updatedAt: new Date() })
+          .where(eq(supplies.vendorId, id));
+      }
+
+      return updated;
+    });
+  }
+
+  async getVendorUsage(id: number): Promise<VendorUsage> {
+    const [supplyCount] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(supplies).where(eq(supplies.vendorId, id));
+    const [itemCount] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(purchaseOrderItems).where(eq(purchaseOrderItems.vendorId, id));
+    return { supplies: supplyCount.count, purchaseOrderItems: itemCount.count };
+  }
+
+  // A vendor still used by supplies or purchase orders can only be deleted by moving
+  // those references to another vendor. Its catalog entries are merged into that
+  // vendor's catalog where it has none for the supply, and dropped otherwise.
+  async deleteVendor(id: number, reassignToVendorId?: number): Promise<void> {
+    if (reassignToVendorId === id) throw new Error('Cannot reassign a vendor to itself');
+
+    await db.transaction(async (tx) => {
+      const [vendor] = await tx.select().from(vendors).where(eq(vendors.id, id)).for('update');
+      if (!vendor) throw new Error('Vendor not found');
+
+      if (reassignToVendorId) {
+        const [target] = await tx.select().from(vendors).where(eq(vendors.id, reassignToVendorId));
+        if (!target) throw new Error('Vendor to reassign to not found');
+
+        await tx.update(supplies)
+          .set({ vendorId: target.id, defaultVendor: target.name, updatedAt: new Date() })
+          .where(eq(supplies.vendorId, id));
+        await tx.update(purchaseOrderItems)
+          .set({ vendorId: target.id })
+          .where(eq(purchaseOrderItems.vendorId, id));
+        await tx.update(vendorSupplies)
+          .set({ vendorId: target.id, updatedAt: new Date() })
+          .where(and(
+            eq(vendorSupplies.vendorId, id),
+            sql`${vendorSupplies.supplyId} NOT IN (SELECT supply_id FROM vendor_supplies WHERE vendor_id = ${target.id})`
+          ));
+      } else {
+        const [referenced] = await tx.select({ id: supplies.id }).from(supplies).where(eq(supplies.vendorId, id)).limit(1);
+        const [ordered] = await tx.select({ id: purchaseOrderItems.id }).from(purchaseOrderItems).where(eq(purchaseOrderItems.vendorId, id)).limit(1);
+        if (referenced || ordered) {
+          throw new Error('Vendor is still used by supplies or purchase orders');
+        }
+      }
+
+      await tx.delete(vendorSupplies).where(eq(vendorSupplies.vendorId, id));
+      await tx.delete(vendors).where(eq(vendors.id, id));
+    });
+  }
+
+  async getVendorSupplies(filter: { vendorId?: number; supplyId?: number }): Promise<VendorSupplyWithDetails[]> {
+    const conditions = [];
+    if (filter.vendorId) conditions.push(eq(vendorSupplies.vendorId, filter.vendorId));
+    if (filter.supplyId) conditions.push(eq(vendorSupplies.supplyId, filter.supplyId));
+
+    const rows = await db.select({ vendorSupply: vendorSupplies, vendor: vendors, supply: supplies })
+      .from(vendorSupplies)
+      .innerJoin(vendors, eq(vendorSupplies.vendorId, vendors.id))
+      .innerJoin(supplies, eq(vendorSupplies.supplyId, supplies.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(supplies.name, vendors.name);
+
+    return rows.map(row => ({ ...row.vendorSupply, vendor: row.vendor, supply: row.supply }));
+  }
+
+  async createVendorSupply(vendorSupply: InsertVendorSupply): Promise<VendorSupply> {
+    const [created] = await db.insert(vendorSupplies).values(vendorSupply).returning();
+    return created;
+  }
+
+  async updateVendorSupply(id: number, vendorSupply: Partial<InsertVendorSupply>): Promise<VendorSupply> {
+    const [updated] = await db.update(vendorSupplies)
+      .set({ ...vendorSupply, updatedAt: new Date() })
+      .where(eq(vendorSupplies.id, id))
+      .returning();
+    if (!updated) throw new Error('Vendor supply not found');
+    return updated;
+  }
+
+  async deleteVendorSupply(id: number): Promise<void> {
+    await db.delete(vendorSupplies).where(eq(vendorSupplies.id, id));
+  }
+
+  // Application settings methods
+  async getAppSettings(): Promise<AppSettings> {
+    const rows = await db.select().from(appSettings);
+    const settings: AppSettings = { ...defaultAppSettings };
+
+    for (const row of rows) {
+      if (row.key in settings) {
+        (settings as Record<string, unknown>)[row.key] = JSON.parse(row.value);
+      }
+    }
+
+    return settings;
+  }
+
+  async updateAppSettings(settings: Partial<AppSettings>, userId?: number): Promise<AppSettings> {
+    for (const [key, value] of Object.entries(settings)) {
+      if (value === undefined) continue;
+
+      await db.insert(appSettings).values({
+        key,
+        value: JSON.stringify(value),
+        updatedBy: userId,
+        updatedAt: new Date()
+      }).onConflictDoUpdate({
+        target: appSettings.key,
+        set: { value: JSON.stringify(value), updatedBy: userId, updatedAt: new Date() }
+      });
+    }
+
+    return this.getAppSettings();
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,25 @@
+import type { SupplyLedgerEntry } from "@shared/schema";
+
+const HEADERS = ['Date', 'Supply', 'Type', 'Quantity', 'Location', 'Job', 'User', 'Description'];
+
+// Quote a field when it holds a delimiter, quote or line break, doubling embedded quotes
+function escapeField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Write ledger entries as CSV, one transaction per row in the order given
+export function renderSupplyLedgerCsv(entries: SupplyLedgerEntry[]): string {
+  const rows = entries.map(entry => [
+    new Date(entry.createdAt).toISOString(),
+    entry.supplyName,
+    entry.type,
+    entry.quantity,
+    entry.locationName,
+    entry.jobNumber,
+    entry.username,
+    entry.description,
+  ]);
+
+  return [HEADERS, ...rows].map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+}
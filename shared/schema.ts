@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, uuid, primaryKey, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -16,6 +16,8 @@ export const users = pgTable("users", {
 export const locations = pgTable("locations", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
+  description: text("description"),
+  active: boolean("active").notNull().default(true), // inactive locations are hidden when placing new supplies
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -27,10 +29,12 @@ export const supplies = pgTable("supplies", {
   pieceSize: text("piece_size").notNull().default("sheet"), // sheet, piece, pair, etc.
   quantityOnHand: integer("quantity_on_hand").notNull().default(0), // physical stock
   needed: integer("needed").notNull().default(0), // quantity needed for purchase orders
-  available: integer("available").notNull().default(0), // not allocated
+  available: integer("available").notNull().default(0), // on hand minus allocated; below zero when over-committed
   allocated: integer("allocated").notNull().default(0), // predicted need
   used: integer("used").notNull().default(0), // actual usage
-  locationId: integer("location_id").references(() => locations.id),
+  minimumQuantity: integer("minimum_quantity").notNull().default(0), // reorder when on hand minus allocated drops below this
+  reorderQuantity: integer("reorder_quantity").notNull().default(0), // default amount to buy when reordering
+  locationId: integer("location_id").references(() => locations.id), // home location; new stock lands here
             vendorId: integer("vendor_id").references(() => vendors.id), // Vendor ID reference
           defaultVendor: text("default_vendor"), // Default vendor name for this supply
           defaultVendorPrice: integer("default_vendor_price"), // Default price from vendor in cents
@@ -43,14 +47,53 @@ export const supplies = pgTable("supplies", {
 export const supplyTransactions = pgTable("supply_transactions", {
   id: serial("id").primaryKey(),
   supplyId: integer("supply_id").references(() => supplies.id).notNull(),
-  type: text("type").notNull(), // 'allocate', 'use', 'receive', 'adjust'
+  type: text("type").notNull(), // 'allocate', 'use', 'receive', 'adjust', 'transfer'
   quantity: integer("quantity").notNull(),
   description: text("description"),
   jobId: integer("job_id").references(() => jobs.id), // if related to a job
+  locationId: integer("location_id").references(() => locations.id), // where the stock moved, if known
   userId: integer("user_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Supply Stock table - how much of a supply sits at each location. The rows add up to
+// supplies.quantityOnHand; anything not covered by a row has not been placed yet.
+export const supplyStock = pgTable("supply_stock", {
+  id: serial("id").primaryKey(),
+  supplyId: integer("supply_id").references(() => supplies.id).notNull(),
+  locationId: integer("location_id").references(() => locations.id).notNull(),
+  quantity: integer("quantity").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("supply_stock_supply_location_unique").on(table.supplyId, table.locationId),
+]);
+
+// Inventory Counts table - a stock-take of one or more locations. Counted quantities are
+// entered line by line and posted together as 'adjust' transactions once approved.
+export const inventoryCounts = pgTable("inventory_counts", {
+  id: serial("id").primaryKey(),
+  status: text("status").notNull().default("open"), // 'open', 'posted', 'cancelled'
+  locationIds: integer("location_ids").array().notNull(), // locations being counted
+  note: text("note"),
+  createdBy: integer("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  postedBy: integer("posted_by").references(() => users.id), // who approved the adjustments
+  postedAt: timestamp("posted_at"),
+});
+
+// One line per supply and location in a count; countedQuantity stays null until counted
+export const inventoryCountLines = pgTable("inventory_count_lines", {
+  id: serial("id").primaryKey(),
+  countId: integer("count_id").references(() => inventoryCounts.id).notNull(),
+  supplyId: integer("supply_id").references(() => supplies.id).notNull(),
+  locationId: integer("location_id").references(() => locations.id).notNull(),
+  countedQuantity: integer("counted_quantity"),
+  countedBy: integer("counted_by").references(() => users.id),
+  countedAt: timestamp("counted_at"),
+}, (table) => [
+  unique("inventory_count_lines_count_supply_location_unique").on(table.countId, table.supplyId, table.locationId),
+]);
+
 // Vendors table
 export const vendors = pgTable("vendors", {
   id: serial("id").primaryKey(),
@@ -63,6 +106,21 @@ export const vendors = pgTable("vendors", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Vendor Supplies table - what each vendor sells a supply for. A supply can be
+// bought from several vendors; supplies.vendorId stays the preferred one.
+export const vendorSupplies = pgTable("vendor_supplies", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id").references(() => vendors.id).notNull(),
+  supplyId: integer("supply_id").references(() => supplies.id).notNull(),
+  sku: text("sku"), // vendor's part number
+  price: integer("price").notNull().default(0), // in cents
+  leadTimeDays: integer("lead_time_days"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("vendor_supplies_vendor_supply_unique").on(table.vendorId, table.supplyId),
+]);
+
 // Purchase Orders table
 export const purchaseOrders = pgTable("purchase_orders", {
   id: serial("id").primaryKey(),
@@ -70,7 +128,7 @@ export const purchaseOrders = pgTable("purchase_orders", {
   dateOrdered: timestamp("date_ordered").defaultNow().notNull(),
   dateReceived: timestamp("date_received"),
   totalAmount: integer("total_amount").notNull().default(0), // in cents
-  status: text("status").notNull().default("pending"), // pending, ordered, received
+  status: text("status").notNull().default("draft"), // draft, ordered, partially_received, received, cancelled
   additionalComments: text("additional_comments"),
   createdBy: integer("created_by").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -86,9 +144,21 @@ export const purchaseOrderItems = pgTable("purchase_order_items", {
   quantity: integer("quantity").notNull(),
   pricePerUnit: integer("price_per_unit").notNull(), // in cents
   totalPrice: integer("total_price").notNull(), // in cents
+  receivedQuantity: integer("received_quantity").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Purchase Order Status History table - one row per status change, oldest first
+export const purchaseOrderStatusHistory = pgTable("purchase_order_status_history", {
+  id: serial("id").primaryKey(),
+  purchaseOrderId: integer("purchase_order_id").references(() => purchaseOrders.id).notNull(),
+  fromStatus: text("from_status"), // null for the entry recorded when the order is created
+  toStatus: text("to_status").notNull(),
+  note: text("note"),
+  changedBy: integer("changed_by").references(() => users.id),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+});
+
 // Legacy tables (will be migrated and eventually removed)
 export const colorGroups = pgTable("color_groups", {
   id: serial("id").primaryKey(),
@@ -114,6 +184,8 @@ export const jobs = pgTable("jobs", {
   startTime: timestamp("start_time"),
   endTime: timestamp("end_time"),
   totalDuration: integer("total_duration"), // in seconds
+  deletedAt: timestamp("deleted_at"), // set when the job is moved to the trash
+  deletedBy: integer("deleted_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -129,7 +201,8 @@ export const cutlists = pgTable("cutlists", {
 export const jobMaterials = pgTable("job_materials", {
   id: serial("id").primaryKey(),
   cutlistId: integer("cutlist_id").references(() => cutlists.id),
-  colorId: integer("color_id").references(() => colors.id).notNull(),
+  colorId: integer("color_id").references(() => colors.id), // legacy, replaced by supplyId
+  supplyId: integer("supply_id").references(() => supplies.id).notNull(), // inventory row consumed when sheets are cut
   totalSheets: integer("total_sheets").notNull(),
   completedSheets: integer("completed_sheets").notNull().default(0),
   sheetStatuses: text("sheet_statuses").array().default([]), // Array of 'cut', 'skip', 'pending'
@@ -145,11 +218,23 @@ export const jobTimeLogs = pgTable("job_time_logs", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Admin-managed causes a recut can be filed under, e.g. machine fault or material defect.
+// Reasons in use are deactivated rather than deleted so past recuts keep their cause.
+export const recutReasons = pgTable("recut_reasons", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  name: text("name").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const recutEntries = pgTable("recut_entries", {
   id: serial("id").primaryKey(),
   materialId: integer("material_id").references(() => jobMaterials.id).notNull(),
   quantity: integer("quantity").notNull(),
-  reason: text("reason"), // Optional reason for the recut
+  reasonId: integer("reason_id").references(() => recutReasons.id), // Required for new recuts; older ones may have none
+  reason: text("reason"), // Optional note about the recut
   sheetStatuses: text("sheet_statuses").array().default([]), // Array of 'cut', 'skip', 'pending' for each recut sheet
   completedSheets: integer("completed_sheets").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -169,6 +254,24 @@ export const sheetCutLogs = pgTable("sheet_cut_logs", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Admin-managed application settings, stored as JSON-encoded values by key
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Counters for human-readable document numbers (job numbers per year, PO numbers per day).
+// Incremented with a single upsert so concurrent creations never share a number.
+export const numberSequences = pgTable("number_sequences", {
+  name: text("name").notNull(), // 'job', 'purchase_order'
+  period: text("period").notNull(), // e.g. '2026' or '20260315'
+  value: integer("value").notNull().default(0),
+}, (table) => [
+  primaryKey({ columns: [table.name, table.period] }),
+]);
+
 // Relations
 export const jobsRelations = relations(jobs, ({ many }) => ({
   cutlists: many(cutlists),
@@ -192,6 +295,10 @@ export const jobMaterialsRelations = relations(jobMaterials, ({ one, many }) =>
     fields: [jobMaterials.colorId],
     references: [colors.id],
   }),
+  supply: one(supplies, {
+    fields: [jobMaterials.supplyId],
+    references: [supplies.id],
+  }),
   recutEntries: many(recutEntries),
 }));
 
@@ -227,9 +334,17 @@ export const recutEntriesRelations = relations(recutEntries, ({ one, many }) =>
     fields: [recutEntries.userId],
     references: [users.id],
   }),
+  recutReason: one(recutReasons, {
+    fields: [recutEntries.reasonId],
+    references: [recutReasons.id],
+  }),
   sheetCutLogs: many(sheetCutLogs),
 }));
 
+export const recutReasonsRelations = relations(recutReasons, ({ many }) => ({
+  recutEntries: many(recutEntries),
+}));
+
 export const sheetCutLogsRelations = relations(sheetCutLogs, ({ one }) => ({
   material: one(jobMaterials, {
     fields: [sheetCutLogs.materialId],
@@ -248,6 +363,7 @@ export const sheetCutLogsRelations = relations(sheetCutLogs, ({ one }) => ({
 // New relations for supplies system
 export const locationsRelations = relations(locations, ({ many }) => ({
   supplies: many(supplies),
+  stock: many(supplyStock),
 }));
 
 export const suppliesRelations = relations(supplies, ({ one, many }) => ({
@@ -256,6 +372,41 @@ export const suppliesRelations = relations(supplies, ({ one, many }) => ({
     references: [locations.id],
   }),
   transactions: many(supplyTransactions),
+  stock: many(supplyStock),
+}));
+
+export const supplyStockRelations = relations(supplyStock, ({ one }) => ({
+  supply: one(supplies, {
+    fields: [supplyStock.supplyId],
+    references: [supplies.id],
+  }),
+  location: one(locations, {
+    fields: [supplyStock.locationId],
+    references: [locations.id],
+  }),
+}));
+
+export const inventoryCountsRelations = relations(inventoryCounts, ({ one, many }) => ({
+  createdByUser: one(users, {
+    fields: [inventoryCounts.createdBy],
+    references: [users.id],
+  }),
+  lines: many(inventoryCountLines),
+}));
+
+export const inventoryCountLinesRelations = relations(inventoryCountLines, ({ one }) => ({
+  count: one(inventoryCounts, {
+    fields: [inventoryCountLines.countId],
+    references: [inventoryCounts.id],
+  }),
+  supply: one(supplies, {
+    fields: [inventoryCountLines.supplyId],
+    references: [supplies.id],
+  }),
+  location: one(locations, {
+    fields: [inventoryCountLines.locationId],
+    references: [locations.id],
+  }),
 }));
 
 export const supplyTransactionsRelations = relations(supplyTransactions, ({ one }) => ({
@@ -276,10 +427,23 @@ export const supplyTransactionsRelations = relations(supplyTransactions, ({ one
 // Purchase order relations
 export const vendorsRelations = relations(vendors, ({ many }) => ({
   purchaseOrderItems: many(purchaseOrderItems),
+  vendorSupplies: many(vendorSupplies),
+}));
+
+export const vendorSuppliesRelations = relations(vendorSupplies, ({ one }) => ({
+  vendor: one(vendors, {
+    fields: [vendorSupplies.vendorId],
+    references: [vendors.id],
+  }),
+  supply: one(supplies, {
+    fields: [vendorSupplies.supplyId],
+    references: [supplies.id],
+  }),
 }));
 
 export const purchaseOrdersRelations = relations(purchaseOrders, ({ many, one }) => ({
   items: many(purchaseOrderItems),
+  statusHistory: many(purchaseOrderStatusHistory),
   createdByUser: one(users, {
     fields: [purchaseOrders.createdBy],
     references: [users.id],
@@ -301,6 +465,17 @@ export const purchaseOrderItemsRelations = relations(purchaseOrderItems, ({ one
   }),
 }));
 
+export const purchaseOrderStatusHistoryRelations = relations(purchaseOrderStatusHistory, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [purchaseOrderStatusHistory.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  changedByUser: one(users, {
+    fields: [purchaseOrderStatusHistory.changedBy],
+    references: [users.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -323,6 +498,8 @@ export const insertJobSchema = createInsertSchema(jobs).omit({
   createdAt: true,
   updatedAt: true,
   totalDuration: true,
+  deletedAt: true,
+  deletedBy: true,
 });
 
 export const insertCutlistSchema = createInsertSchema(cutlists).omit({
@@ -342,19 +519,53 @@ export const insertRecutEntrySchema = createInsertSchema(recutEntries).omit({
   createdAt: true,
 });
 
+export const insertRecutReasonSchema = createInsertSchema(recutReasons, {
+  code: (schema) => schema.trim().toUpperCase().min(1, "Code is required").max(20, "Code must be 20 characters or fewer"),
+  name: (schema) => schema.trim().min(1, "Name is required"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// A recut must be filed under a reason; the note adds detail
+export const addRecutSchema = z.object({
+  quantity: z.coerce.number().int().min(1, "Invalid recut quantity"),
+  reasonId: z.coerce.number({ required_error: "A recut reason is required", invalid_type_error: "A recut reason is required" }).int().positive("A recut reason is required"),
+  note: z.string().trim().max(500).optional(),
+});
+
 export const insertSheetCutLogSchema = createInsertSchema(sheetCutLogs).omit({
   id: true,
   createdAt: true,
 });
 
+export const sheetStatusValues = ["pending", "cut", "skip"] as const;
+
+// Sheet indexes are zero-based; the storage layer checks them against the sheet count
+export const updateSheetStatusSchema = z.object({
+  sheetIndex: z.coerce.number().int().min(0, "Invalid sheet index"),
+  status: z.enum(sheetStatusValues, { errorMap: () => ({ message: "Sheet status must be pending, cut or skip" }) }),
+});
+
 // New schemas for supplies system
 export const insertLocationSchema = createInsertSchema(locations).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertSupplySchema = createInsertSchema(supplies).omit({
+// Supplies stored at a deleted location move to this one
+export const deleteLocationSchema = z.object({
+  reassignToLocationId: z.coerce.number().int().positive().optional(),
+});
+
+export const insertSupplySchema = createInsertSchema(supplies, {
+  quantityOnHand: (schema) => schema.int().min(0, "Quantity on hand cannot be negative"),
+}).omit({
   id: true,
+  available: true, // derived from on hand and allocated
+  allocated: true, // reserved by jobs' pending sheets
+  used: true, // totalled from cut sheets
   createdAt: true,
   updatedAt: true,
 });
@@ -371,6 +582,20 @@ export const insertVendorSchema = createInsertSchema(vendors).omit({
   updatedAt: true,
 });
 
+export const insertVendorSupplySchema = createInsertSchema(vendorSupplies, {
+  price: (schema) => schema.int().min(0, "Price cannot be negative"),
+  leadTimeDays: (schema) => schema.int().min(0, "Lead time cannot be negative"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Purchase order items and supplies that pointed at a deleted vendor move to this one
+export const deleteVendorSchema = z.object({
+  reassignToVendorId: z.coerce.number().int().positive().optional(),
+});
+
 export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
   id: true,
   poNumber: true,
@@ -383,18 +608,168 @@ export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit
 export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems).omit({
   id: true,
   totalPrice: true,
+  receivedQuantity: true,
   createdAt: true,
 });
 
+export const purchaseOrderStatuses = ["draft", "ordered", "partially_received", "received", "cancelled"] as const;
+
+// Status changes a user can make directly. Receiving moves an order to
+// partially_received or received, and only orders that were sent can be received.
+export const purchaseOrderTransitions: Record<typeof purchaseOrderStatuses[number], readonly string[]> = {
+  draft: ["ordered", "cancelled"],
+  ordered: ["cancelled"],
+  partially_received: [],
+  received: [],
+  cancelled: [],
+};
+
+export const receivableStatuses: readonly string[] = ["ordered", "partially_received"];
+
+export const updatePurchaseOrderStatusSchema = z.object({
+  status: z.enum(purchaseOrderStatuses),
+  note: z.string().optional(),
+});
+
+// Draft orders are edited by replacing their lines wholesale
+export const updatePurchaseOrderSchema = z.object({
+  additionalComments: z.string().nullable().optional(),
+  items: z.array(insertPurchaseOrderItemSchema.omit({ purchaseOrderId: true })).min(1, "At least one line is required"),
+});
+
+export const purchaseAnalyticsFilterSchema = z.object({
+  supplyId: z.coerce.number().int().positive().optional(),
+  vendorId: z.coerce.number().int().positive().optional(),
+  fromDate: z.coerce.date().optional(),
+  toDate: z.coerce.date().optional(),
+});
+
+// Quantities arriving now, per line; without items everything still outstanding is received
+export const receivePurchaseOrderSchema = z.object({
+  dateReceived: z.coerce.date().optional(),
+  items: z.array(z.object({
+    itemId: z.number().int(),
+    quantity: z.number().int().min(0),
+  })).optional(),
+});
+
+// Pulling stock off the shelf (check_out) or putting it back (check_in)
+export const supplyCheckInOutSchema = z.object({
+  direction: z.enum(["check_in", "check_out"]),
+  supplyId: z.number().int().positive("Item is required"),
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  locationId: z.number().int().positive().optional(), // shelf the stock comes from or goes to
+  moveToLocationId: z.number().int().positive().optional(), // carry the stock from that shelf to here as a transfer
+  jobId: z.number().int().positive().optional(), // job the stock was pulled for
+  note: z.string().optional(),
+});
+
+// Move stock between locations; without fromLocationId it comes from stock not yet placed
+export const transferSupplyStockSchema = z.object({
+  fromLocationId: z.number().int().positive().nullable().optional(),
+  toLocationId: z.number().int().positive(),
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  note: z.string().optional(),
+});
+
+// Manual stock movements; 'adjust' sets the count outright, as after a stocktake
+export const supplyQuantityUpdateSchema = z.object({
+  type: z.enum(["receive", "use", "adjust"]),
+  quantity: z.number().int().min(0, "Quantity cannot be negative"),
+  description: z.string().optional(),
+  jobId: z.number().int().positive().optional(),
+  allowNegative: z.boolean().optional(), // let 'use' take on hand below zero
+});
+
+// A negative quantity releases a reservation
+export const supplyAllocationSchema = z.object({
+  quantity: z.number().int().refine(quantity => quantity !== 0, "Quantity cannot be zero"),
+  jobId: z.number().int().positive(),
+});
+
+export const createInventoryCountSchema = z.object({
+  locationIds: z.array(z.number().int().positive()).min(1, "Choose at least one location"),
+  note: z.string().optional(),
+});
+
+// Supplies found on a shelf that the count did not expect
+export const addInventoryCountLineSchema = z.object({
+  supplyId: z.number().int().positive(),
+  locationId: z.number().int().positive(),
+});
+
+// Counted quantities entered so far; null clears a line back to uncounted
+export const recordInventoryCountSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.number().int(),
+    countedQuantity: z.number().int().min(0, "Counted quantity cannot be negative").nullable(),
+  })).min(1),
+});
+
+export const supplyTransactionTypes = ["allocate", "use", "receive", "adjust", "transfer"] as const;
+
+// Query string filter for the supply transaction ledger; dates are inclusive
+export const supplyLedgerFilterSchema = z.object({
+  type: z.enum(supplyTransactionTypes).optional(),
+  supplyId: z.coerce.number().int().positive().optional(),
+  jobId: z.coerce.number().int().positive().optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  fromDate: z.coerce.date().optional(),
+  toDate: z.coerce.date().optional(),
+});
+
+// Query string for printable label sheets; ids is a comma-separated list, all records when omitted
+export const labelSheetQuerySchema = z.object({
+  ids: z.string().regex(/^\d+(,\d+)*$/, "ids must be a comma-separated list of numbers").optional()
+    .transform(ids => ids ? ids.split(",").map(id => parseInt(id)) : undefined),
+  format: z.enum(["pdf", "svg"]).default("pdf"),
+  symbology: z.enum(["qr", "code128"]).default("qr"),
+});
+
+// Date range for the operator and recut reports; a date-only toDate covers that whole day
+export const reportDateRangeSchema = z.object({
+  fromDate: z.coerce.date().optional(),
+  toDate: z.coerce.date().optional(),
+});
+
+const jobMaterialInputSchema = z.object({
+  supplyId: z.number().min(1, "Material is required"),
+  totalSheets: z.number().int("Sheets must be a whole number").min(1, "Must have at least 1 sheet"),
+});
+
+// The supplies to order from the reorder report (all of them when omitted), with
+// optional per-supply overrides of the report's suggested quantities
+export const reorderPurchaseOrdersSchema = z.object({
+  supplyIds: z.array(z.coerce.number().int().positive()).min(1, "Select at least one supply to order").optional(),
+  quantities: z.record(z.coerce.number().int().min(0)).optional(),
+});
+
 export const createJobSchema = z.object({
   customerName: z.string().min(1, "Customer name is required"),
   jobName: z.string().min(1, "Job name is required"),
-  materials: z.array(z.object({
-    colorId: z.number().min(1, "Color is required"),
-    totalSheets: z.number().min(1, "Must have at least 1 sheet"),
-  })).min(1, "At least one material is required"),
+  materials: z.array(jobMaterialInputSchema).min(1, "At least one material is required"),
 });
 
+// Jobs imported from an optimizer cutlist CSV carry one cutlist per file section
+export const importJobSchema = createJobSchema.omit({ materials: true }).extend({
+  cutlists: z.array(z.object({
+    name: z.string().min(1, "Cutlist name is required"),
+    materials: z.array(jobMaterialInputSchema).min(1, "At least one material is required"),
+  })).min(1, "At least one cutlist is required"),
+});
+
+export const appSettingsSchema = z.object({
+  jobTrashRetentionDays: z.number().int().min(1, "Retention must be at least 1 day").max(3650),
+  jobNumberPrefix: z.string().max(10, "Prefix must be 10 characters or less").regex(/^[A-Za-z0-9-]*$/, "Prefix may only contain letters, digits and dashes"),
+  jobNumberPadding: z.number().int().min(1).max(8),
+});
+
+export const defaultAppSettings: AppSettings = {
+  jobTrashRetentionDays: 30,
+  jobNumberPrefix: "",
+  jobNumberPadding: 4,
+};
+
 export const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
@@ -416,14 +791,19 @@ export type InsertJobMaterial = z.infer<typeof insertJobMaterialSchema>;
 export type JobTimeLog = typeof jobTimeLogs.$inferSelect;
 export type RecutEntry = typeof recutEntries.$inferSelect;
 export type InsertRecutEntry = z.infer<typeof insertRecutEntrySchema>;
+export type RecutReason = typeof recutReasons.$inferSelect;
+export type InsertRecutReason = z.infer<typeof insertRecutReasonSchema>;
+export type AddRecut = z.infer<typeof addRecutSchema>;
 export type SheetCutLog = typeof sheetCutLogs.$inferSelect;
 export type InsertSheetCutLog = z.infer<typeof insertSheetCutLogSchema>;
 export type CreateJob = z.infer<typeof createJobSchema>;
+export type ImportJob = z.infer<typeof importJobSchema>;
 export type Login = z.infer<typeof loginSchema>;
+export type AppSettings = z.infer<typeof appSettingsSchema>;
 
 // Enhanced types for frontend
 export type CutlistWithMaterials = Cutlist & {
-  materials: (JobMaterial & { color: Color })[];
+  materials: (JobMaterial & { supply: Supply })[];
 };
 
 export type JobWithCutlists = Job & {
@@ -435,7 +815,7 @@ export type JobWithCutlists = Job & {
 export type JobWithMaterials = Job & {
   cutlists: (typeof cutlists.$inferSelect & {
     materials: (typeof jobMaterials.$inferSelect & {
-      color: typeof colors.$inferSelect;
+      supply: typeof supplies.$inferSelect;
       recutEntries: (typeof recutEntries.$inferSelect)[];
     })[];
   })[];
@@ -446,25 +826,182 @@ export type ColorWithGroup = Color & {
   group: ColorGroup | null;
 };
 
+// Preview of a cutlist CSV before it is turned into a job
+export type JobImportPreviewMaterial = {
+  materialName: string;
+  totalSheets: number;
+  supplyId: number | null; // null when no material matched the name
+  lines: number[]; // CSV line numbers the row was built from
+};
+
+export type JobImportPreview = {
+  customerName: string;
+  jobName: string;
+  cutlists: {
+    name: string;
+    materials: JobImportPreviewMaterial[];
+  }[];
+  unmatchedMaterials: string[];
+  errors: string[];
+};
+
 // New types for supplies system
 export type Location = typeof locations.$inferSelect;
 export type InsertLocation = z.infer<typeof insertLocationSchema>;
+
+export type LocationWithItemCount = Location & {
+  itemCount: number; // supplies stored at this location
+};
 export type Supply = typeof supplies.$inferSelect;
 export type InsertSupply = z.infer<typeof insertSupplySchema>;
 export type SupplyTransaction = typeof supplyTransactions.$inferSelect;
 export type InsertSupplyTransaction = z.infer<typeof insertSupplyTransactionSchema>;
 
+export type SupplyQuantityUpdate = z.infer<typeof supplyQuantityUpdateSchema>;
+export type SupplyTransactionType = typeof supplyTransactionTypes[number];
+export type SupplyLedgerFilter = z.infer<typeof supplyLedgerFilterSchema>;
+
+export type ReportDateRange = z.infer<typeof reportDateRangeSchema>;
+
+// Sheet counts for one operator over the report range, leaving out cuts that were later undone.
+// Recuts are charged to whoever last cut an original sheet of the material before the recut was logged.
+export type OperatorProductivity = {
+  userId: number | null;
+  username: string | null;
+  sheetsCut: number;
+  recutSheetsCut: number;
+  skips: number;
+  recutsCaused: number;
+  recutSheetsCaused: number;
+  avgSecondsBetweenCuts: number | null;
+};
+
+export type RecutReasonWithUsage = RecutReason & { recutCount: number };
+
+// Recut totals for one reason, material, job or operator. Cost is in cents and only covers
+// sheets whose supply has a price; unpricedSheets says how many were left out.
+export type RecutReportRow = {
+  id: number | null;
+  label: string;
+  recuts: number;
+  sheets: number;
+  cost: number;
+  unpricedSheets: number;
+};
+
+export type RecutReport = {
+  totals: Omit<RecutReportRow, 'id' | 'label'>;
+  byReason: RecutReportRow[];
+  byMaterial: RecutReportRow[];
+  byJob: RecutReportRow[];
+  byOperator: RecutReportRow[];
+  // Recut sheets per day and reason, for charting
+  overTime: { date: string; reasonId: number | null; sheets: number }[];
+};
+
+// A ledger row with the names it points at, ready to show or export
+export type SupplyLedgerEntry = SupplyTransaction & {
+  supplyName: string;
+  jobNumber: string | null;
+  username: string | null;
+  locationName: string | null;
+};
+
+export type SupplyStock = typeof supplyStock.$inferSelect;
+
+export type SupplyStockWithLocation = SupplyStock & {
+  locationName: string;
+};
+
+export type LabelSymbology = z.infer<typeof labelSheetQuerySchema>["symbology"];
+
+export type JobMaterialWithJob = JobMaterial & {
+  supply: Supply;
+  job: Job;
+};
+
+// A sheet cut log entry as shown in a job's activity, with the status the sheet had before it.
+// Only the latest entry for a sheet can be reverted.
+export type SheetActivityEntry = SheetCutLog & {
+  jobId: number;
+  supplyName: string | null;
+  username: string | null;
+  previousStatus: string;
+  isLatest: boolean;
+};
+
+// What a scanned label points at
+export type ScanResult =
+  | { kind: "supply"; code: string; supply: SupplyWithLocation; stock: SupplyStockWithLocation[] }
+  | { kind: "location"; code: string; location: LocationWithItemCount; stock: SupplyStockWithLocation[] }
+  | { kind: "sheet"; code: string; material: JobMaterialWithJob; sheetIndex: number; status: string };
+
+export type InventoryCount = typeof inventoryCounts.$inferSelect;
+export type InventoryCountLine = typeof inventoryCountLines.$inferSelect;
+export type CreateInventoryCount = z.infer<typeof createInventoryCountSchema>;
+export type RecordInventoryCount = z.infer<typeof recordInventoryCountSchema>;
+
+export type InventoryCountSummary = InventoryCount & {
+  createdByUsername: string;
+  locationNames: string[];
+  lineCount: number;
+  countedLineCount: number;
+};
+
+// expectedQuantity is what the system holds at the location right now, including stock
+// not yet placed when the location is the supply's home; variance is counted minus expected
+export type InventoryCountLineWithDetails = InventoryCountLine & {
+  supplyName: string;
+  pieceSize: string;
+  locationName: string;
+  expectedQuantity: number;
+  variance: number | null;
+  countedByUsername: string | null;
+};
+
+export type InventoryCountWithLines = InventoryCountSummary & {
+  postedByUsername: string | null;
+  lines: InventoryCountLineWithDetails[];
+};
+
 export type SupplyWithLocation = Supply & {
   location: Location | null;
 };
 
+// A supply that has dropped below its minimum quantity
+export type SupplyReorderItem = SupplyWithLocation & {
+  shortfall: number; // minimum quantity minus (on hand - allocated)
+  quantityToOrder: number;
+};
+
 // Purchase order types
 export type Vendor = typeof vendors.$inferSelect;
 export type InsertVendor = z.infer<typeof insertVendorSchema>;
+export type VendorSupply = typeof vendorSupplies.$inferSelect;
+export type InsertVendorSupply = z.infer<typeof insertVendorSupplySchema>;
+
+export type VendorSupplyWithDetails = VendorSupply & {
+  vendor: Vendor;
+  supply: Supply;
+};
+
+// Records that point at a vendor; any of them blocks a plain delete
+export type VendorUsage = {
+  supplies: number;
+  purchaseOrderItems: number;
+};
 export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
 export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
 export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
 export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
+export type ReceivePurchaseOrder = z.infer<typeof receivePurchaseOrderSchema>;
+export type PurchaseOrderStatus = typeof purchaseOrderStatuses[number];
+export type UpdatePurchaseOrder = z.infer<typeof updatePurchaseOrderSchema>;
+export type UpdatePurchaseOrderStatus = z.infer<typeof updatePurchaseOrderStatusSchema>;
+export type PurchaseAnalyticsFilter = z.infer<typeof purchaseAnalyticsFilterSchema>;
+export type SupplyCheckInOut = z.infer<typeof supplyCheckInOutSchema>;
+export type TransferSupplyStock = z.infer<typeof transferSupplyStockSchema>;
+export type PurchaseOrderStatusHistory = typeof purchaseOrderStatusHistory.$inferSelect;
 
 export type PurchaseOrderWithItems = PurchaseOrder & {
   items: (PurchaseOrderItem & {
@@ -473,3 +1010,41 @@ export type PurchaseOrderWithItems = PurchaseOrder & {
   })[];
   createdByUser: User;
 };
+
+export type PurchaseOrderStatusHistoryEntry = PurchaseOrderStatusHistory & {
+  changedByUsername: string | null;
+};
+
+// Purchase price analytics, built from the lines of orders that were actually placed
+export type PurchasePriceHistory = {
+  supplyId: number;
+  supplyName: string;
+  vendorId: number;
+  vendorName: string;
+  orderCount: number; // distinct purchase orders, not lines
+  totalQuantity: number;
+  totalSpend: number; // in cents
+  averagePrice: number; // in cents, weighted by quantity
+  lastPrice: number; // in cents
+  priceChange: number | null; // last price minus the one before it, in cents
+  lastOrderedAt: string;
+  history: { date: string; poNumber: string; pricePerUnit: number; quantity: number }[];
+};
+
+export type PurchaseSpendByMonth = {
+  month: string; // YYYY-MM
+  vendorId: number;
+  vendorName: string;
+  totalSpend: number; // in cents
+};
+
+export type PurchaseAnalytics = {
+  prices: PurchasePriceHistory[];
+  monthlySpend: PurchaseSpendByMonth[];
+};
+
+// Outcome of turning the reorder report into draft purchase orders
+export type ReorderPurchaseOrdersResult = {
+  purchaseOrders: PurchaseOrderWithItems[];
+  skipped: { supplyId: number; name: string; reason: string }[];
+};